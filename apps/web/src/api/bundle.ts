@@ -0,0 +1,47 @@
+import type { RefUpdateResult } from "@/git/service";
+
+/**
+ * URL to download a bundle of a repository.
+ *
+ * @param args.refs - Refs to include, all refs if empty
+ * @param args.version - Bundle format version, v3 unless set to 2
+ */
+export function getBundleUrl(args: {
+  owner: string;
+  repo: string;
+  refs?: string[];
+  version?: 2 | 3;
+}) {
+  const params = new URLSearchParams();
+  for (const ref of args.refs ?? []) {
+    params.append("ref", ref);
+  }
+  if (args.version === 2) {
+    params.set("version", "2");
+  }
+  const query = params.toString();
+  return `/${args.owner}/${args.repo}/bundle${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Upload a bundle file to update the repository's refs.
+ *
+ * @returns The result of each ref update
+ * @throws If the bundle was rejected
+ */
+export async function uploadBundle(args: {
+  owner: string;
+  repo: string;
+  file: File;
+}): Promise<RefUpdateResult[]> {
+  const res = await fetch(`/${args.owner}/${args.repo}/bundle`, {
+    method: "POST",
+    body: args.file,
+    headers: { "Content-Type": "application/x-git-bundle" },
+  });
+  if (!res.ok) {
+    throw new Error((await res.text()) || "Failed to import bundle");
+  }
+  const { results } = (await res.json()) as { results: RefUpdateResult[] };
+  return results;
+}
@@ -0,0 +1,46 @@
+import { api } from "@gitvex/backend/convex/_generated/api";
+import { createServerFn } from "@tanstack/react-start";
+import * as z from "zod";
+import { getRepoDOStub } from "@/do/repo";
+import { fetchMutation } from "@/lib/auth-server";
+import { handleAndThrowConvexError } from "@/lib/convex";
+
+export const forkRepoFnSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  /** Name of the fork, the source's name when unset */
+  name: z.string().optional(),
+});
+
+/**
+ * Fork a repository into the signed-in user's account, copying its objects
+ * and refs. The fork and its storage are deleted again if any of them can't
+ * be copied.
+ */
+export const forkRepoFn = createServerFn({ method: "POST" })
+  .inputValidator(forkRepoFnSchema)
+  .handler(async ({ data }) => {
+    const fork = await fetchMutation(api.repositories.fork, {
+      owner: data.owner,
+      name: data.repo,
+      forkName: data.name,
+    }).catch(handleAndThrowConvexError);
+
+    const stub = getRepoDOStub(fork.fullName);
+    try {
+      await stub.initRepo();
+      await stub.seedFrom(fork.sourceFullName);
+    } catch (error) {
+      // Wipe what was copied, so a repository created under the same name
+      // starts out empty. The object resets itself, which rejects the call.
+      await stub.destroy().catch(() => {});
+      // Don't leave an empty fork behind that still points to its source
+      await fetchMutation(api.repositories.deleteRepository, {
+        id: fork._id,
+      }).catch((deleteError) => {
+        console.error(`Failed to delete fork ${fork.fullName}`, deleteError);
+      });
+      throw error;
+    }
+    return { owner: fork.owner, name: fork.name };
+  });
@@ -0,0 +1,63 @@
+import { queryOptions } from "@tanstack/react-query";
+import { createServerFn } from "@tanstack/react-start";
+import * as z from "zod";
+import { getRepoDOStub, type ImportStatus } from "@/do/repo";
+import { authorizeSessionPush } from "@/lib/git-auth";
+
+const repoSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+});
+
+export const importRepoFnSchema = repoSchema.extend({
+  url: z.url({ protocol: /^https?$/ }),
+  username: z.string().optional(),
+  password: z.string().optional(),
+});
+
+/**
+ * Import the branches and tags of a remote repository into a repository the
+ * signed-in user owns.
+ */
+export const importRepoFn = createServerFn({ method: "POST" })
+  .inputValidator(importRepoFnSchema)
+  .handler(async ({ data }) => {
+    const policy = await authorizeSessionPush({
+      owner: data.owner,
+      repo: data.repo,
+    });
+    if (!policy) {
+      throw new Error("Only the owner can import into this repository");
+    }
+
+    const stub = getRepoDOStub(`${data.owner}/${data.repo}`);
+    const status: ImportStatus = await stub.importFromUrl({
+      url: data.url,
+      credentials:
+        data.username || data.password
+          ? { username: data.username ?? "", password: data.password ?? "" }
+          : null,
+    });
+    return status;
+  });
+
+export const getImportStatusFn = createServerFn({ method: "GET" })
+  .inputValidator(repoSchema)
+  .handler(async ({ data }) => {
+    // The status includes the remote URL, which may be private
+    const policy = await authorizeSessionPush({
+      owner: data.owner,
+      repo: data.repo,
+    });
+    if (!policy) return null;
+
+    const stub = getRepoDOStub(`${data.owner}/${data.repo}`);
+    const status: ImportStatus | null = await stub.getImportStatus();
+    return status;
+  });
+
+export const getImportStatusQueryOptions = (data: z.infer<typeof repoSchema>) =>
+  queryOptions({
+    queryKey: ["importStatus", data.owner, data.repo],
+    queryFn: async () => await getImportStatusFn({ data }),
+  });
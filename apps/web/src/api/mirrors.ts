@@ -0,0 +1,114 @@
+import { queryOptions } from "@tanstack/react-query";
+import { createServerFn } from "@tanstack/react-start";
+import * as z from "zod";
+import type { PushMirror } from "@/do/push-mirrors";
+import { getRepoDOStub, type PullMirror } from "@/do/repo";
+import { authorizeSessionPush, verifySessionAccess } from "@/lib/git-auth";
+
+const repoSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+});
+
+/**
+ * Get the repository's stub if the signed-in user owns it. Mirrors hold
+ * credentials, so only the owner can see or change them.
+ */
+async function getOwnedRepoStub(data: z.infer<typeof repoSchema>) {
+  const policy = await authorizeSessionPush({
+    owner: data.owner,
+    repo: data.repo,
+  });
+  if (!policy) {
+    throw new Error("Only the owner can manage mirrors");
+  }
+  return getRepoDOStub(`${data.owner}/${data.repo}`);
+}
+
+const remoteSchema = repoSchema.extend({
+  url: z.url({ protocol: /^https?$/ }),
+  username: z.string().optional(),
+  password: z.string().optional(),
+});
+
+function toCredentials(data: z.infer<typeof remoteSchema>) {
+  return data.username || data.password
+    ? { username: data.username ?? "", password: data.password ?? "" }
+    : null;
+}
+
+export const listPushMirrorsFn = createServerFn({ method: "GET" })
+  .inputValidator(repoSchema)
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    const mirrors: PushMirror[] = await stub.listPushMirrors();
+    return mirrors;
+  });
+
+export const getPushMirrorsQueryOptions = (data: z.infer<typeof repoSchema>) =>
+  queryOptions({
+    queryKey: ["pushMirrors", data.owner, data.repo],
+    queryFn: async () => await listPushMirrorsFn({ data }),
+  });
+
+export const addPushMirrorFn = createServerFn({ method: "POST" })
+  .inputValidator(remoteSchema)
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    const mirror: PushMirror = await stub.addPushMirror({
+      url: data.url,
+      credentials: toCredentials(data),
+    });
+    return mirror;
+  });
+
+export const removePushMirrorFn = createServerFn({ method: "POST" })
+  .inputValidator(repoSchema.extend({ id: z.number() }))
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    await stub.removePushMirror(data.id);
+  });
+
+/**
+ * Upstream of a pull mirror, null if the repository is not a mirror.
+ */
+export const getPullMirrorFn = createServerFn({ method: "GET" })
+  .inputValidator(repoSchema)
+  .handler(async ({ data }) => {
+    if (!(await verifySessionAccess(data))) return null;
+    const stub = getRepoDOStub(`${data.owner}/${data.repo}`);
+    const mirror: PullMirror | null = await stub.getPullMirror();
+    return mirror;
+  });
+
+export const getPullMirrorQueryOptions = (data: z.infer<typeof repoSchema>) =>
+  queryOptions({
+    queryKey: ["pullMirror", data.owner, data.repo],
+    queryFn: async () => await getPullMirrorFn({ data }),
+  });
+
+export const setPullMirrorFn = createServerFn({ method: "POST" })
+  .inputValidator(remoteSchema)
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    const mirror: PullMirror | null = await stub.setPullMirror({
+      url: data.url,
+      credentials: toCredentials(data),
+    });
+    return mirror;
+  });
+
+export const syncPullMirrorFn = createServerFn({ method: "POST" })
+  .inputValidator(repoSchema)
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    const mirror: PullMirror | null = await stub.syncPullMirror();
+    return mirror;
+  });
+
+export const removePullMirrorFn = createServerFn({ method: "POST" })
+  .inputValidator(repoSchema)
+  .handler(async ({ data }) => {
+    const stub = await getOwnedRepoStub(data);
+    await stub.removePullMirror();
+  });
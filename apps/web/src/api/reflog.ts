@@ -0,0 +1,65 @@
+import { queryOptions } from "@tanstack/react-query";
+import { createServerFn } from "@tanstack/react-start";
+import * as z from "zod";
+import type { ReflogEntry } from "@/do/reflog";
+import { getRepoDOStub } from "@/do/repo";
+import type { RefUpdateResult } from "@/git/service";
+import { authorizeSessionPush, verifySessionAccess } from "@/lib/git-auth";
+
+export const getReflogFnSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  /** Only changes to this branch, every ref when unset */
+  branch: z.string().optional(),
+});
+
+/**
+ * Changes to the repository's refs, newest first, including deleted ones.
+ */
+export const getReflogFn = createServerFn({ method: "GET" })
+  .inputValidator(getReflogFnSchema)
+  .handler(async ({ data }) => {
+    if (!(await verifySessionAccess(data))) return [];
+
+    const stub = getRepoDOStub(`${data.owner}/${data.repo}`);
+    const entries: ReflogEntry[] = await stub.listReflog({
+      ref: data.branch ? `refs/heads/${data.branch}` : undefined,
+      limit: 100,
+    });
+    return entries;
+  });
+
+export const getReflogQueryOptions = (
+  data: z.infer<typeof getReflogFnSchema>
+) =>
+  queryOptions({
+    queryKey: ["reflog", data.owner, data.repo, data.branch].filter(Boolean),
+    queryFn: async () => await getReflogFn({ data }),
+  });
+
+/**
+ * Set a ref back to its value before a reflog entry. Only the owner can
+ * restore, and branch protection applies as it does to pushes.
+ */
+export const restoreRefFn = createServerFn({ method: "POST" })
+  .inputValidator(
+    z.object({ owner: z.string(), repo: z.string(), entryId: z.number() })
+  )
+  .handler(async ({ data }) => {
+    const policy = await authorizeSessionPush({
+      owner: data.owner,
+      repo: data.repo,
+    });
+    if (!policy) {
+      throw new Error("Only the owner can restore refs");
+    }
+
+    const stub = getRepoDOStub(`${data.owner}/${data.repo}`);
+    const result: RefUpdateResult = await stub.restoreRef(data.entryId, policy);
+    if (!result.ok) {
+      // Messages are written for git clients, e.g. "error: refusing to ..."
+      const message = result.message?.replace(/^error: /, "");
+      throw new Error(message ?? result.error ?? "Failed to restore");
+    }
+    return result;
+  });
@@ -5,6 +5,8 @@ import { createHighlighter } from "shiki";
 import { createJavaScriptRegexEngine } from "shiki/engine/javascript";
 import * as z from "zod";
 import { getRepoDOStub } from "@/do/repo";
+import { parseLfsPointer } from "@/git/lfs";
+import { getLfsStorage } from "@/lib/lfs-storage";
 import { getLanguageFromFilename } from "@/lib/utils";
 
 // Create highlighter instance with JavaScript regex engine
@@ -23,6 +25,9 @@ export const getTreeFnSchema = z.object({
   path: z.string().optional(),
 });
 
+/** LFS objects up to this size are shown in the blob viewer */
+export const LFS_INLINE_LIMIT = 10 * 1024 * 1024;
+
 export const getTreeFn = createServerFn({ method: "GET" })
   .inputValidator(getTreeFnSchema)
   .handler(async ({ data }) => {
@@ -76,6 +81,26 @@ export const getBlobFn = createServerFn({ method: "GET" })
       contentBuffer = Buffer.from(blob.content as string);
     }
 
+    let size = blob.size;
+    let isBinary = blob.isBinary;
+
+    // Show the content of LFS pointer files instead of the pointer.
+    // `resolved` is false if the object is missing or too large to show
+    const pointer = isBinary ? null : parseLfsPointer(contentBuffer);
+    let lfs: { oid: string; size: number; resolved: boolean } | null = null;
+    if (pointer) {
+      const object =
+        pointer.size <= LFS_INLINE_LIMIT
+          ? await getLfsStorage(fullName).get(pointer.oid)
+          : null;
+      lfs = { ...pointer, resolved: !!object };
+      if (object) {
+        contentBuffer = Buffer.from(await new Response(object.body).bytes());
+        size = object.size;
+        isBinary = contentBuffer.subarray(0, 8000).includes(0);
+      }
+    }
+
     const contentBase64 = contentBuffer.toString("base64");
 
     // Check if it's markdown
@@ -84,7 +109,7 @@ export const getBlobFn = createServerFn({ method: "GET" })
 
     // Generate syntax-highlighted HTML for non-binary, non-markdown files
     let highlightedHtml: string | null = null;
-    if (!blob.isBinary && !isMarkdown) {
+    if (!isBinary && !isMarkdown) {
       const language = getLanguageFromFilename(filename);
       const highlighter = await highlighterPromise;
 
@@ -115,9 +140,10 @@ export const getBlobFn = createServerFn({ method: "GET" })
     return {
       oid: blob.oid,
       content: contentBase64,
-      size: blob.size,
-      isBinary: blob.isBinary,
+      size,
+      isBinary,
       highlightedHtml,
+      lfs,
     };
   });
 
@@ -0,0 +1,120 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@gitvex/backend/convex/_generated/api";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useNavigate } from "@tanstack/react-router";
+import { GitForkIcon } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { forkRepoFn } from "@/api/forks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+/**
+ * Fork button with the number of forks, listing them when opened.
+ *
+ * @param canFork - Whether the signed-in user can fork the repository
+ */
+export function RepoForks({
+  owner,
+  repo,
+  canFork,
+}: {
+  owner: string;
+  repo: string;
+  canFork: boolean;
+}) {
+  const navigate = useNavigate();
+  const [name, setName] = useState(repo);
+
+  const { data: forks = [] } = useQuery(
+    convexQuery(api.repositories.getForks, { owner, name: repo })
+  );
+
+  const forkMutation = useMutation({
+    mutationFn: async () =>
+      await forkRepoFn({
+        data: { owner, repo, name: name.trim() || undefined },
+      }),
+    onSuccess: (fork) => {
+      toast.success(`Forked to ${fork.owner}/${fork.name}`);
+      navigate({
+        to: "/$owner/$repo",
+        params: { owner: fork.owner, repo: fork.name },
+      });
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to fork repository"
+      );
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline">
+          <GitForkIcon className="size-4" />
+          Fork
+          <span className="rounded-full bg-muted px-1.5 text-xs">
+            {forks.length}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-4">
+          {canFork && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                forkMutation.mutate();
+              }}
+            >
+              <Label htmlFor="fork-name">Fork name</Label>
+              <div className="flex gap-2">
+                <Input
+                  disabled={forkMutation.isPending}
+                  id="fork-name"
+                  onChange={(e) => setName(e.target.value)}
+                  value={name}
+                />
+                <Button loading={forkMutation.isPending} type="submit">
+                  Fork
+                </Button>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                Copies every branch and tag to a repository you own
+              </p>
+            </form>
+          )}
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm">Forks</h4>
+            {forks.length === 0 ? (
+              <p className="text-muted-foreground text-xs">No forks yet.</p>
+            ) : (
+              <ul className="max-h-60 space-y-1 overflow-y-auto">
+                {forks.map((fork) => (
+                  <li key={fork._id}>
+                    <Link
+                      className="text-primary text-sm hover:underline"
+                      params={{ owner: fork.owner, repo: fork.name }}
+                      to="/$owner/$repo"
+                    >
+                      {fork.owner}/{fork.name}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSqlStorage } from "@/test/storage";
+import { CommitGraph } from "./commit-graph";
+
+/**
+ * History used by the tests, child first. `f` is a merge of `d` and `e`,
+ * `x` lies beyond a shallow boundary:
+ *
+ *     a - b - c - d - f - g
+ *          \         /
+ *           e ------
+ *
+ *     h - x
+ */
+const HISTORY: Record<string, string[]> = {
+  a: [],
+  b: ["a"],
+  c: ["b"],
+  d: ["c"],
+  e: ["b"],
+  f: ["d", "e"],
+  g: ["f"],
+  h: ["x"],
+};
+
+describe("CommitGraph", () => {
+  let graph: CommitGraph;
+  let loads: string[];
+
+  beforeEach(async () => {
+    loads = [];
+    graph = new CommitGraph(await createSqlStorage(), async (oid) => {
+      loads.push(oid);
+      const parents = HISTORY[oid];
+      return parents ? { tree: `tree-${oid}`, parents, committedAt: 0 } : null;
+    });
+  });
+
+  it("adds commits with their ancestors and generation numbers", async () => {
+    expect(await graph.add(["g"])).toBe(7);
+
+    expect(graph.get("a")?.generation).toBe(1);
+    expect(graph.get("e")?.generation).toBe(3);
+    expect(graph.get("f")).toEqual({
+      oid: "f",
+      tree: "tree-f",
+      parents: ["d", "e"],
+      generation: 5,
+      committedAt: 0,
+    });
+  });
+
+  it("loads each commit once", async () => {
+    await graph.add(["d"]);
+    loads = [];
+
+    expect(await graph.add(["g"])).toBe(3);
+    expect(loads.sort()).toEqual(["e", "f", "g"]);
+  });
+
+  it("skips commits that can't be loaded", async () => {
+    expect(await graph.add(["h"])).toBe(1);
+
+    expect(graph.get("x")).toBeNull();
+    expect(graph.get("h")?.generation).toBe(1);
+  });
+
+  describe("findExcluded", () => {
+    it("excludes nothing without haves", async () => {
+      expect(await graph.findExcluded(["g"], [])).toEqual(new Set());
+    });
+
+    it("stops the walk at commits the other side has", async () => {
+      const excluded = await graph.findExcluded(["g"], ["c"]);
+
+      // Walking from g while skipping these visits exactly g, f, d and e
+      expect([...excluded].sort()).toEqual(["b", "c"]);
+    });
+
+    it("stops right below the wants when their parent is a have", async () => {
+      const excluded = await graph.findExcluded(["g"], ["f"]);
+
+      expect([...excluded]).toEqual(["f"]);
+    });
+
+    it("excludes wants the other side already has", async () => {
+      const excluded = await graph.findExcluded(["d", "e"], ["g"]);
+
+      expect(excluded.has("d")).toBe(true);
+      expect(excluded.has("e")).toBe(true);
+    });
+  });
+
+  describe("allCanReach", () => {
+    it("is true when every commit has a target in its history", async () => {
+      expect(await graph.allCanReach(["g", "e"], ["b"])).toBe(true);
+      expect(await graph.allCanReach(["c"], ["c"])).toBe(true);
+    });
+
+    it("is false when a commit can't reach any target", async () => {
+      expect(await graph.allCanReach(["g", "c"], ["e"])).toBe(false);
+      expect(await graph.allCanReach(["h"], ["a"])).toBe(false);
+    });
+  });
+});
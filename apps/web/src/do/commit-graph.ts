@@ -0,0 +1,314 @@
+/**
+ * Persisted commit-graph in Durable Object SQLite storage.
+ * Like git's commit-graph file, it stores parents, root trees and generation
+ * numbers so history walks don't have to parse commit objects.
+ * @see https://git-scm.com/docs/commit-graph
+ */
+
+import { createLogger } from "./logger";
+
+const logger = createLogger("CommitGraph");
+
+export type CommitNode = {
+  oid: string;
+  tree: string;
+  parents: string[];
+  /**
+   * 1 for root commits, otherwise one more than the highest parent generation.
+   * A commit's generation is always greater than any of its ancestors'.
+   */
+  generation: number;
+  /** Committer timestamp in seconds */
+  committedAt: number;
+};
+
+/**
+ * Reads a commit object, or returns null if it does not exist.
+ */
+export type CommitLoader = (
+  oid: string
+) => Promise<Pick<CommitNode, "tree" | "parents" | "committedAt"> | null>;
+
+type CommitRow = {
+  oid: string;
+  tree: string;
+  parents: string;
+  generation: number;
+  committed_at: number;
+};
+
+/**
+ * Walk state used by {@link CommitGraph.findExcluded}.
+ * "have" wins: a commit reachable from both sides is excluded.
+ */
+type Reach = "want" | "have";
+
+/**
+ * Max-heap of commits ordered by generation number.
+ */
+class GenerationQueue {
+  private readonly heap: CommitNode[] = [];
+
+  get size() {
+    return this.heap.length;
+  }
+
+  push(node: CommitNode) {
+    const { heap } = this;
+    heap.push(node);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = Math.floor((i - 1) / 2);
+      if (heap[parent].generation >= heap[i].generation) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): CommitNode | undefined {
+    const { heap } = this;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length === 0 || !last) return top;
+
+    heap[0] = last;
+    let i = 0;
+    while (true) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let largest = i;
+      if (
+        left < heap.length &&
+        heap[left].generation > heap[largest].generation
+      ) {
+        largest = left;
+      }
+      if (
+        right < heap.length &&
+        heap[right].generation > heap[largest].generation
+      ) {
+        largest = right;
+      }
+      if (largest === i) break;
+      [heap[largest], heap[i]] = [heap[i], heap[largest]];
+      i = largest;
+    }
+    return top;
+  }
+}
+
+export class CommitGraph {
+  private readonly sql: SqlStorage;
+  private readonly loadCommit: CommitLoader;
+
+  /**
+   * @param sql - Durable Object SQLite storage
+   * @param loadCommit - Reads commits that are not in the graph yet
+   */
+  constructor(sql: SqlStorage, loadCommit: CommitLoader) {
+    this.sql = sql;
+    this.loadCommit = loadCommit;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS commit_graph (
+        oid TEXT PRIMARY KEY,
+        tree TEXT NOT NULL,
+        parents TEXT NOT NULL,
+        generation INTEGER NOT NULL,
+        committed_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Get a commit from the graph without loading it.
+   */
+  get(oid: string): CommitNode | null {
+    const row = this.sql
+      .exec<CommitRow>("SELECT * FROM commit_graph WHERE oid = ?", oid)
+      .next().value;
+    if (!row) return null;
+
+    return {
+      oid: row.oid,
+      tree: row.tree,
+      parents: row.parents ? row.parents.split(" ") : [],
+      generation: Number(row.generation),
+      committedAt: Number(row.committed_at),
+    };
+  }
+
+  /**
+   * Add commits and all of their missing ancestors to the graph.
+   * Commits that can't be loaded (e.g. beyond a shallow boundary) are skipped.
+   *
+   * @param oids - Commit object ids
+   * @returns Number of commits added
+   */
+  async add(oids: string[]): Promise<number> {
+    const stack = [...oids];
+    const loaded = new Map<
+      string,
+      NonNullable<Awaited<ReturnType<CommitLoader>>>
+    >();
+    const unavailable = new Set<string>();
+    let added = 0;
+
+    // Iterative post-order walk, so parents get their generation first
+    while (stack.length > 0) {
+      const oid = stack.at(-1) as string;
+      if (unavailable.has(oid) || this.get(oid)) {
+        stack.pop();
+        continue;
+      }
+
+      let commit = loaded.get(oid);
+      if (!commit) {
+        commit = (await this.loadCommit(oid)) ?? undefined;
+        if (!commit) {
+          unavailable.add(oid);
+          stack.pop();
+          continue;
+        }
+        loaded.set(oid, commit);
+      }
+
+      const missingParents = commit.parents.filter(
+        (parent) => !(unavailable.has(parent) || this.get(parent))
+      );
+      if (missingParents.length > 0) {
+        stack.push(...missingParents);
+        continue;
+      }
+
+      let generation = 1;
+      for (const parent of commit.parents) {
+        const node = this.get(parent);
+        if (node) generation = Math.max(generation, node.generation + 1);
+      }
+
+      this.sql.exec(
+        "INSERT OR IGNORE INTO commit_graph (oid, tree, parents, generation, committed_at) VALUES (?, ?, ?, ?, ?)",
+        oid,
+        commit.tree,
+        commit.parents.join(" "),
+        generation,
+        commit.committedAt
+      );
+      loaded.delete(oid);
+      stack.pop();
+      added += 1;
+    }
+
+    if (added > 0) {
+      logger.info(`(add) Added ${added} commits to the commit-graph`);
+    }
+    return added;
+  }
+
+  /**
+   * Whether every commit in `from` has one of `targets` in its history
+   * (itself included). Commits older than the oldest target, by generation,
+   * are not walked since they can't lead to one.
+   */
+  async allCanReach(from: string[], targets: string[]): Promise<boolean> {
+    await this.add([...from, ...targets]);
+
+    const targetSet = new Set(targets.filter((oid) => this.get(oid) !== null));
+    if (targetSet.size === 0) return from.length === 0;
+
+    let minGeneration = Number.POSITIVE_INFINITY;
+    for (const oid of targetSet) {
+      minGeneration = Math.min(
+        minGeneration,
+        this.get(oid)?.generation ?? minGeneration
+      );
+    }
+
+    // Commits already known to lead to a target
+    const reaching = new Set<string>();
+    for (const start of from) {
+      const queue = [start];
+      const visited = new Set<string>();
+      let found = false;
+
+      for (const oid of queue) {
+        if (targetSet.has(oid) || reaching.has(oid)) {
+          found = true;
+          break;
+        }
+        if (visited.has(oid)) continue;
+        visited.add(oid);
+
+        const node = this.get(oid);
+        if (!node || node.generation < minGeneration) continue;
+        queue.push(...node.parents);
+      }
+
+      if (!found) return false;
+      reaching.add(start);
+    }
+    return true;
+  }
+
+  /**
+   * Find the commits reachable from `haves` that a walk from `wants` can run
+   * into. A walk from `wants` that stops at these commits visits exactly the
+   * commits reachable from `wants` but not from `haves`.
+   *
+   * Commits are visited in decreasing generation order, so whether a commit
+   * is reachable from `haves` is settled once it is visited. The walk stops as soon
+   * as only commits reachable from `haves` remain.
+   *
+   * @param wants - Commits to send
+   * @param haves - Commits the other side already has
+   * @returns Commits reachable from `haves` met during the walk
+   */
+  async findExcluded(wants: string[], haves: string[]): Promise<Set<string>> {
+    const excluded = new Set<string>();
+    if (haves.length === 0) return excluded;
+
+    await this.add([...wants, ...haves]);
+
+    const reach = new Map<string, Reach>();
+    const queued = new Set<string>();
+    const queue = new GenerationQueue();
+    let wantOnly = 0;
+
+    const mark = (oid: string, value: Reach) => {
+      const previous = reach.get(oid);
+      if (previous === value || previous === "have") return;
+      reach.set(oid, value);
+
+      if (queued.has(oid)) {
+        // Only a "want" commit can get here, and it now is a "have"
+        wantOnly -= 1;
+        return;
+      }
+      const node = this.get(oid);
+      if (!node) return;
+      queued.add(oid);
+      queue.push(node);
+      if (value === "want") wantOnly += 1;
+    };
+
+    for (const oid of haves) mark(oid, "have");
+    for (const oid of wants) mark(oid, "want");
+
+    while (wantOnly > 0 && queue.size > 0) {
+      const node = queue.pop() as CommitNode;
+      queued.delete(node.oid);
+      const value = reach.get(node.oid) ?? "want";
+      if (value === "want") wantOnly -= 1;
+
+      for (const parent of node.parents) {
+        mark(parent, value);
+      }
+    }
+
+    for (const [oid, value] of reach) {
+      if (value === "have") excluded.add(oid);
+    }
+    return excluded;
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import type { Stats as NodeStats } from "node:fs";
-import type { Fs } from "dofs";
+import { Fs, type ReadOptions } from "dofs";
 
 /**
  * Normalizes a given path, resolving '..' and '.' segments and ensuring a leading slash.
@@ -49,12 +49,82 @@ class ErrorWithCode extends Error {
   }
 }
 
+/**
+ * dofs `Fs` whose range reads only load the chunks they overlap.
+ * The stock `read` loads every chunk of the file even when given a range,
+ * which makes reading single entries out of a large packfile unusable.
+ */
+export class ChunkedFs extends Fs {
+  /** Size of the chunks file contents are stored in */
+  get blockSize() {
+    return this.chunkSize;
+  }
+
+  override read(path: string, options: ReadOptions): ArrayBuffer {
+    if (options.offset === undefined && options.length === undefined) {
+      return super.read(path, options);
+    }
+
+    const size = this.stat(path).size ?? 0;
+    const offset = Math.min(options.offset ?? 0, size);
+    const end = Math.min(
+      options.length === undefined ? size : offset + options.length,
+      size
+    );
+    const result = new Uint8Array(end - offset);
+    if (end === offset) return result.buffer;
+
+    const firstChunk = Math.floor(offset / this.chunkSize) * this.chunkSize;
+    const cursor = this.ctx.storage.sql.exec<{
+      offset: number;
+      data: ArrayBuffer;
+    }>(
+      "SELECT offset, data FROM dofs_chunks WHERE ino = ? AND offset >= ? AND offset < ? ORDER BY offset ASC",
+      this.resolveInode(path),
+      firstChunk,
+      end
+    );
+    for (const row of cursor) {
+      const chunkStart = Number(row.offset);
+      const data = new Uint8Array(row.data);
+      const readStart = Math.max(offset, chunkStart);
+      const readEnd = Math.min(end, chunkStart + data.length);
+      if (readStart < readEnd) {
+        result.set(
+          data.subarray(readStart - chunkStart, readEnd - chunkStart),
+          readStart - offset
+        );
+      }
+    }
+    return result.buffer;
+  }
+
+  /**
+   * Look up the inode of a path (dofs keeps its own resolver private).
+   */
+  private resolveInode(path: string) {
+    let ino = 1;
+    for (const name of path.split("/").filter(Boolean)) {
+      const row = this.ctx.storage.sql
+        .exec<{ ino: number }>(
+          "SELECT ino FROM dofs_files WHERE parent = ? AND name = ?",
+          ino,
+          name
+        )
+        .next().value;
+      if (!row || row.ino == null) throw new Error("ENOENT");
+      ino = Number(row.ino);
+    }
+    return ino;
+  }
+}
+
 /**
  * A file system abstraction layer that wraps a dofs (Durable Object File System) instance
  * to provide a Node.js-like `fs.promises` API, suitable for use with isomorphic-git.
  */
 export class IsoGitFs {
-  private readonly dofs: Fs;
+  private readonly dofs: ChunkedFs;
   private readonly KNOWN_CODES = new Set([
     "ENOENT",
     "ENOTDIR",
@@ -72,7 +142,7 @@ export class IsoGitFs {
    * Creates an instance of IsoGitFs.
    * @param dofs - The dofs Fs instance to wrap.
    */
-  constructor(dofs: Fs) {
+  constructor(dofs: ChunkedFs) {
     this.dofs = dofs;
   }
 
@@ -84,8 +154,12 @@ export class IsoGitFs {
     const fs = {
       promises: {
         readFile: this.readFile.bind(this),
+        read: this.read.bind(this),
+        readStream: this.readStream.bind(this),
         writeFile: this.writeFile.bind(this),
+        writeStream: this.writeStream.bind(this),
         unlink: this.unlink.bind(this),
+        rename: this.rename.bind(this),
         readdir: this.readdir.bind(this),
         mkdir: this.mkdir.bind(this),
         rmdir: this.rmdir.bind(this),
@@ -160,6 +234,61 @@ export class IsoGitFs {
     }
   }
 
+  /**
+   * Reads a byte range of a file without loading the whole file.
+   * @param path - The path to the file.
+   * @param options - Start offset and number of bytes to read.
+   * @returns The bytes read, which may be shorter than `length` at the end of the file.
+   */
+  async read(path: string, options: { offset: number; length: number }) {
+    const normalizedPath = normalizePath(path);
+    try {
+      return new Uint8Array(this.dofs.read(normalizedPath, options));
+    } catch (error) {
+      this.annotateAndThrow(error, "read", normalizedPath);
+    }
+  }
+
+  /**
+   * Reads a file as a stream, one storage chunk at a time.
+   * @param path - The path to the file.
+   * @returns The file content and its size.
+   */
+  async readStream(path: string) {
+    const normalizedPath = normalizePath(path);
+    let size = 0;
+    try {
+      size = this.dofs.stat(normalizedPath).size ?? 0;
+    } catch (error) {
+      this.annotateAndThrow(error, "readStream", normalizedPath);
+    }
+
+    const { blockSize } = this.dofs;
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        if (offset >= size) {
+          controller.close();
+          return;
+        }
+        const length = Math.min(blockSize, size - offset);
+        try {
+          const chunk = new Uint8Array(
+            this.dofs.read(normalizedPath, { offset, length })
+          );
+          if (chunk.length === 0) {
+            throw new Error(`EIO: ${normalizedPath} ended early`);
+          }
+          offset += chunk.length;
+          controller.enqueue(chunk);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+    return { stream, size };
+  }
+
   /**
    * Writes data to a file.
    * @param filepath - The path to the file.
@@ -191,6 +320,51 @@ export class IsoGitFs {
     }
   }
 
+  /**
+   * Writes a stream to a file as it arrives, one storage chunk at a time.
+   * @param filepath - The path to the file.
+   * @param stream - The data to write.
+   * @returns The number of bytes written.
+   */
+  async writeStream(filepath: string, stream: ReadableStream<Uint8Array>) {
+    const normalizedPath = normalizePath(filepath);
+    const { blockSize } = this.dofs;
+    const block = new Uint8Array(blockSize);
+    let filled = 0;
+    let written = 0;
+
+    try {
+      await this.dofs.writeFile(normalizedPath, new ArrayBuffer(0));
+      // Writes are aligned to whole chunks so each chunk is stored only once
+      const reader = stream.getReader();
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        let consumed = 0;
+        while (consumed < value.length) {
+          const take = Math.min(blockSize - filled, value.length - consumed);
+          block.set(value.subarray(consumed, consumed + take), filled);
+          filled += take;
+          consumed += take;
+          if (filled === blockSize) {
+            this.dofs.write(normalizedPath, block.buffer, { offset: written });
+            written += filled;
+            filled = 0;
+          }
+        }
+      }
+      if (filled > 0) {
+        this.dofs.write(normalizedPath, block.slice(0, filled).buffer, {
+          offset: written,
+        });
+        written += filled;
+      }
+    } catch (error) {
+      this.annotateAndThrow(error, "writeStream", normalizedPath);
+    }
+    return written;
+  }
+
   /**
    * Deletes a file.
    * @param path - The path to the file to delete.
@@ -204,6 +378,21 @@ export class IsoGitFs {
     }
   }
 
+  /**
+   * Renames a file, replacing the destination if it exists.
+   * @param oldPath - The current path of the file.
+   * @param newPath - The new path of the file.
+   */
+  async rename(oldPath: string, newPath: string) {
+    const normalizedOld = normalizePath(oldPath);
+    const normalizedNew = normalizePath(newPath);
+    try {
+      this.dofs.rename(normalizedOld, normalizedNew);
+    } catch (error) {
+      this.annotateAndThrow(error, "rename", normalizedOld);
+    }
+  }
+
   /**
    * Reads the contents of a directory.
    * @param path - The path to the directory.
@@ -0,0 +1,74 @@
+/**
+ * LFS objects in Durable Object storage, kept next to the repository like
+ * Git LFS does locally: `lfs/objects/<oid[0:2]>/<oid[2:4]>/<oid>`.
+ */
+
+import { hashStream, type LfsStorage } from "@/git/lfs";
+import type { IsoGitFs } from "./fs";
+
+type Fs = ReturnType<IsoGitFs["getPromiseFsClient"]>["promises"];
+
+export class LfsObjectStore implements LfsStorage {
+  private readonly fs: Fs;
+  private readonly dir: string;
+
+  /**
+   * @param fs - File system of the repository
+   * @param gitdir - Repository directory, objects are stored under `<gitdir>/lfs`
+   */
+  constructor(fs: ReturnType<IsoGitFs["getPromiseFsClient"]>, gitdir: string) {
+    this.fs = fs.promises;
+    this.dir = `${gitdir}/lfs`;
+  }
+
+  private objectDir(oid: string) {
+    return `${this.dir}/objects/${oid.slice(0, 2)}/${oid.slice(2, 4)}`;
+  }
+
+  async size(oid: string) {
+    try {
+      const stat = await this.fs.stat(`${this.objectDir(oid)}/${oid}`);
+      return stat?.isFile() ? stat.size : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async get(oid: string) {
+    if ((await this.size(oid)) === null) return null;
+    const { stream, size } = await this.fs.readStream(
+      `${this.objectDir(oid)}/${oid}`
+    );
+    return { body: stream, size };
+  }
+
+  async put(args: {
+    oid: string;
+    size: number;
+    body: ReadableStream<Uint8Array>;
+  }) {
+    const { oid, size } = args;
+    const tmpDir = `${this.dir}/tmp`;
+    const tmpPath = `${tmpDir}/${oid}-${crypto.randomUUID()}`;
+    await this.fs.mkdir(tmpDir, { recursive: true });
+
+    // Written to a temporary file first, so a failed upload never shows up as the object
+    const hashed = hashStream(args.body);
+    try {
+      await this.fs.writeStream(tmpPath, hashed.stream);
+      const result = await hashed.result();
+      if (result.size !== size) {
+        throw new Error(`expected ${size} bytes, received ${result.size}`);
+      }
+      if (result.oid !== oid) {
+        throw new Error(`content does not match object id ${oid}`);
+      }
+
+      await this.fs.mkdir(this.objectDir(oid), { recursive: true });
+      await this.fs.rename(tmpPath, `${this.objectDir(oid)}/${oid}`);
+    } catch (error) {
+      await this.fs.unlink(tmpPath).catch(() => {});
+      throw error;
+    }
+  }
+}
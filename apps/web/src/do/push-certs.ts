@@ -0,0 +1,200 @@
+/**
+ * Push certificates in Durable Object SQLite storage: the nonces advertised
+ * with the `push-cert` capability, and verified certificates together with
+ * the ref updates they authorized.
+ * @see https://git-scm.com/docs/git-receive-pack#_pre_receive_hook
+ */
+
+import type { Command, PushCertificate } from "@/git/protocol";
+
+/**
+ * How long an advertised nonce can be used. A push starts right after the
+ * ref advertisement, so this only needs to cover signing (e.g. a passphrase prompt).
+ */
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+export type StoredPushCertificate = PushCertificate & {
+  id: number;
+  /** Username of the authenticated pusher */
+  pushedBy: string | null;
+  /** Fingerprint of the key that signed the certificate */
+  fingerprint: string;
+  receivedAt: number;
+  /** Ref updates applied with the certificate */
+  updates: Command[];
+};
+
+type CertificateRow = {
+  id: number;
+  pushed_by: string | null;
+  pusher: string;
+  pushee: string | null;
+  nonce: string | null;
+  fingerprint: string;
+  payload: string;
+  signature: string;
+  received_at: number;
+};
+
+type CertificateRefRow = {
+  certificate_id: number;
+  ref: string;
+  old_oid: string;
+  new_oid: string;
+};
+
+export class PushCertificateStore {
+  private readonly sql: SqlStorage;
+
+  /**
+   * @param sql - Durable Object SQLite storage
+   */
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS push_cert_nonces (
+        nonce TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS push_certificates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pushed_by TEXT,
+        pusher TEXT NOT NULL,
+        pushee TEXT,
+        nonce TEXT,
+        fingerprint TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        received_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS push_certificate_refs (
+        certificate_id INTEGER NOT NULL,
+        ref TEXT NOT NULL,
+        old_oid TEXT NOT NULL,
+        new_oid TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS push_certificate_refs_ref
+        ON push_certificate_refs (ref, certificate_id)
+    `);
+  }
+
+  /**
+   * Create a nonce for a ref advertisement. Expired nonces are pruned.
+   */
+  issueNonce(): string {
+    const now = Date.now();
+    this.sql.exec(
+      "DELETE FROM push_cert_nonces WHERE created_at < ?",
+      now - NONCE_TTL_MS
+    );
+
+    const nonce = `${now}-${crypto.randomUUID()}`;
+    this.sql.exec(
+      "INSERT INTO push_cert_nonces (nonce, created_at) VALUES (?, ?)",
+      nonce,
+      now
+    );
+    return nonce;
+  }
+
+  /**
+   * Use up a nonce, so a certificate can't be replayed.
+   *
+   * @returns Whether the nonce was issued here and has not expired
+   */
+  consumeNonce(nonce: string): boolean {
+    const row = this.sql
+      .exec<{ created_at: number }>(
+        "DELETE FROM push_cert_nonces WHERE nonce = ? RETURNING created_at",
+        nonce
+      )
+      .next().value;
+    return !!row && Number(row.created_at) >= Date.now() - NONCE_TTL_MS;
+  }
+
+  /**
+   * Store a verified certificate with the ref updates it authorized.
+   */
+  record(args: {
+    certificate: PushCertificate;
+    fingerprint: string;
+    pushedBy: string | null;
+    updates: Command[];
+  }): number {
+    const { certificate, fingerprint, pushedBy, updates } = args;
+    const row = this.sql
+      .exec<{ id: number }>(
+        "INSERT INTO push_certificates (pushed_by, pusher, pushee, nonce, fingerprint, payload, signature, received_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING id",
+        pushedBy,
+        certificate.pusher,
+        certificate.pushee,
+        certificate.nonce,
+        fingerprint,
+        certificate.payload,
+        certificate.signature,
+        Date.now()
+      )
+      .one();
+
+    for (const update of updates) {
+      this.sql.exec(
+        "INSERT INTO push_certificate_refs (certificate_id, ref, old_oid, new_oid) VALUES (?, ?, ?, ?)",
+        row.id,
+        update.ref,
+        update.oldOid,
+        update.newOid
+      );
+    }
+    return Number(row.id);
+  }
+
+  /**
+   * List stored certificates, newest first.
+   *
+   * @param options.ref - Only certificates that updated this ref
+   * @param options.limit - Maximum number of certificates
+   */
+  list(
+    options: { ref?: string; limit?: number } = {}
+  ): StoredPushCertificate[] {
+    const limit = options.limit ?? 50;
+    const rows = options.ref
+      ? this.sql
+          .exec<CertificateRow>(
+            "SELECT * FROM push_certificates WHERE id IN (SELECT certificate_id FROM push_certificate_refs WHERE ref = ?) ORDER BY id DESC LIMIT ?",
+            options.ref,
+            limit
+          )
+          .toArray()
+      : this.sql
+          .exec<CertificateRow>(
+            "SELECT * FROM push_certificates ORDER BY id DESC LIMIT ?",
+            limit
+          )
+          .toArray();
+
+    return rows.map((row) => ({
+      id: Number(row.id),
+      pushedBy: row.pushed_by,
+      pusher: row.pusher,
+      pushee: row.pushee,
+      nonce: row.nonce,
+      fingerprint: row.fingerprint,
+      payload: row.payload,
+      signature: row.signature,
+      receivedAt: Number(row.received_at),
+      updates: this.sql
+        .exec<CertificateRefRow>(
+          "SELECT * FROM push_certificate_refs WHERE certificate_id = ?",
+          row.id
+        )
+        .toArray()
+        .map((ref) => ({
+          ref: ref.ref,
+          oldOid: ref.old_oid,
+          newOid: ref.new_oid,
+        })),
+    }));
+  }
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSqlStorage } from "@/test/storage";
+import { PushMirrorStore } from "./push-mirrors";
+
+const START = Date.UTC(2025, 0, 1);
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+describe("PushMirrorStore", () => {
+  let mirrors: PushMirrorStore;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: START });
+    mirrors = new PushMirrorStore(await createSqlStorage());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function add() {
+    return mirrors.add({
+      url: "https://example.com/mirror.git",
+      credentials: { username: "bot", password: "secret" },
+    }).id;
+  }
+
+  it("syncs new mirrors right away, without exposing credentials", () => {
+    const id = add();
+
+    expect(mirrors.list()).toEqual([
+      {
+        id,
+        url: "https://example.com/mirror.git",
+        hasCredentials: true,
+        createdAt: START,
+        lastSyncAt: null,
+        lastError: null,
+        failures: 0,
+        nextSyncAt: START,
+      },
+    ]);
+    expect(mirrors.getWithCredentials(id)?.credentials).toEqual({
+      username: "bot",
+      password: "secret",
+    });
+    expect(mirrors.listDue()).toEqual([id]);
+  });
+
+  it("doubles the delay after each failure, up to an hour", () => {
+    const id = add();
+
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 9; attempt += 1) {
+      delays.push(mirrors.recordFailure(id, "unreachable") - Date.now());
+    }
+
+    expect(delays).toEqual([
+      30 * SECOND,
+      MINUTE,
+      2 * MINUTE,
+      4 * MINUTE,
+      8 * MINUTE,
+      16 * MINUTE,
+      32 * MINUTE,
+      60 * MINUTE,
+      60 * MINUTE,
+    ]);
+    expect(mirrors.list()[0]).toMatchObject({
+      lastError: "unreachable",
+      failures: 9,
+      nextSyncAt: START + 60 * MINUTE,
+    });
+  });
+
+  it("only lists mirrors whose retry is due", () => {
+    const id = add();
+    const retryAt = mirrors.recordFailure(id, "unreachable");
+
+    expect(mirrors.listDue()).toEqual([]);
+    expect(mirrors.nextSyncAt()).toBe(retryAt);
+    expect(mirrors.listDue(retryAt)).toEqual([id]);
+  });
+
+  it("keeps the backoff when refs change", () => {
+    const id = add();
+    const retryAt = mirrors.recordFailure(id, "unreachable");
+
+    vi.advanceTimersByTime(SECOND);
+    mirrors.markOutOfDate();
+
+    expect(mirrors.nextSyncAt()).toBe(retryAt);
+  });
+
+  it("resets the backoff after a successful sync", () => {
+    const id = add();
+    mirrors.recordFailure(id, "unreachable");
+
+    mirrors.recordSuccess(id, Date.now());
+
+    expect(mirrors.list()[0]).toMatchObject({
+      lastError: null,
+      failures: 0,
+      nextSyncAt: null,
+    });
+    expect(mirrors.nextSyncAt()).toBeNull();
+  });
+
+  it("stays due if refs changed while syncing", () => {
+    const id = add();
+    const startedAt = Date.now();
+
+    vi.advanceTimersByTime(SECOND);
+    mirrors.recordSuccess(id, startedAt);
+    expect(mirrors.nextSyncAt()).toBeNull();
+
+    const nextStartedAt = Date.now();
+    vi.advanceTimersByTime(SECOND);
+    mirrors.markOutOfDate();
+    mirrors.recordSuccess(id, nextStartedAt);
+    expect(mirrors.nextSyncAt()).toBe(Date.now());
+  });
+});
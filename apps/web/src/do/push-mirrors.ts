@@ -0,0 +1,203 @@
+/**
+ * Push mirrors in Durable Object SQLite storage: remotes that receive every
+ * ref update, with the state of their last sync. Failed syncs are retried
+ * with exponential backoff.
+ */
+
+import type { RemoteCredentials } from "@/git/remote";
+
+/** Delay before the first retry, doubled after each failure */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/** Longest delay between retries */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export type PushMirror = {
+  id: number;
+  url: string;
+  /** Credentials are never returned, only whether there are any */
+  hasCredentials: boolean;
+  createdAt: number;
+  /** When the last sync ran, successful or not */
+  lastSyncAt: number | null;
+  /** Error of the last attempt, null if it succeeded */
+  lastError: string | null;
+  /** Failed attempts since the last successful sync */
+  failures: number;
+  /** When the next sync is due, null if the mirror is up to date */
+  nextSyncAt: number | null;
+};
+
+type MirrorRow = {
+  id: number;
+  url: string;
+  username: string | null;
+  password: string | null;
+  created_at: number;
+  last_sync_at: number | null;
+  last_error: string | null;
+  failures: number;
+  next_sync_at: number | null;
+  refs_changed_at: number | null;
+};
+
+function toPushMirror(row: MirrorRow): PushMirror {
+  return {
+    id: Number(row.id),
+    url: row.url,
+    hasCredentials: row.username !== null,
+    createdAt: Number(row.created_at),
+    lastSyncAt: row.last_sync_at === null ? null : Number(row.last_sync_at),
+    lastError: row.last_error,
+    failures: Number(row.failures),
+    nextSyncAt: row.next_sync_at === null ? null : Number(row.next_sync_at),
+  };
+}
+
+export class PushMirrorStore {
+  private readonly sql: SqlStorage;
+
+  /**
+   * @param sql - Durable Object SQLite storage
+   */
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS push_mirrors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        username TEXT,
+        password TEXT,
+        created_at INTEGER NOT NULL,
+        last_sync_at INTEGER,
+        last_error TEXT,
+        failures INTEGER NOT NULL DEFAULT 0,
+        next_sync_at INTEGER,
+        refs_changed_at INTEGER
+      )
+    `);
+  }
+
+  list(): PushMirror[] {
+    return this.sql
+      .exec<MirrorRow>("SELECT * FROM push_mirrors ORDER BY id")
+      .toArray()
+      .map(toPushMirror);
+  }
+
+  /**
+   * Add a mirror. It is synced right away.
+   */
+  add(args: { url: string; credentials: RemoteCredentials | null }) {
+    const now = Date.now();
+    const row = this.sql
+      .exec<MirrorRow>(
+        "INSERT INTO push_mirrors (url, username, password, created_at, next_sync_at) VALUES (?, ?, ?, ?, ?) RETURNING *",
+        args.url,
+        args.credentials?.username ?? null,
+        args.credentials?.password ?? null,
+        now,
+        now
+      )
+      .one();
+    return toPushMirror(row);
+  }
+
+  remove(id: number) {
+    this.sql.exec("DELETE FROM push_mirrors WHERE id = ?", id);
+  }
+
+  /**
+   * Get a mirror with its credentials, to sync it.
+   */
+  getWithCredentials(id: number) {
+    const row = this.sql
+      .exec<MirrorRow>("SELECT * FROM push_mirrors WHERE id = ?", id)
+      .toArray()[0];
+    if (!row) return null;
+
+    const credentials: RemoteCredentials | null =
+      row.username === null
+        ? null
+        : { username: row.username, password: row.password ?? "" };
+    return { ...toPushMirror(row), credentials };
+  }
+
+  /**
+   * Mark every mirror as due, after refs changed. Mirrors waiting for a
+   * retry keep their backoff.
+   */
+  markOutOfDate() {
+    const now = Date.now();
+    this.sql.exec(
+      "UPDATE push_mirrors SET refs_changed_at = ?, next_sync_at = COALESCE(next_sync_at, ?)",
+      now,
+      now
+    );
+  }
+
+  /**
+   * Ids of the mirrors whose sync is due.
+   */
+  listDue(now = Date.now()): number[] {
+    return this.sql
+      .exec<{ id: number }>(
+        "SELECT id FROM push_mirrors WHERE next_sync_at <= ? ORDER BY id",
+        now
+      )
+      .toArray()
+      .map(({ id }) => Number(id));
+  }
+
+  /**
+   * When the next sync is due, or null if every mirror is up to date.
+   */
+  nextSyncAt(): number | null {
+    const row = this.sql
+      .exec<{ next: number | null }>(
+        "SELECT MIN(next_sync_at) AS next FROM push_mirrors"
+      )
+      .one();
+    return row.next === null ? null : Number(row.next);
+  }
+
+  /**
+   * Record a successful sync. The mirror stays due if refs changed while it
+   * was syncing.
+   *
+   * @param startedAt - When the sync started
+   */
+  recordSuccess(id: number, startedAt: number) {
+    const now = Date.now();
+    this.sql.exec(
+      "UPDATE push_mirrors SET last_sync_at = ?, last_error = NULL, failures = 0, next_sync_at = CASE WHEN refs_changed_at >= ? THEN ? ELSE NULL END WHERE id = ?",
+      now,
+      startedAt,
+      now,
+      id
+    );
+  }
+
+  /**
+   * Record a failed sync and schedule a retry.
+   *
+   * @returns When the retry is due
+   */
+  recordFailure(id: number, error: string) {
+    const mirror = this.getWithCredentials(id);
+    const failures = (mirror?.failures ?? 0) + 1;
+    const retryAt =
+      Date.now() +
+      Math.min(RETRY_BASE_DELAY_MS * 2 ** (failures - 1), RETRY_MAX_DELAY_MS);
+    this.sql.exec(
+      "UPDATE push_mirrors SET last_sync_at = ?, last_error = ?, failures = ?, next_sync_at = ? WHERE id = ?",
+      Date.now(),
+      error,
+      failures,
+      retryAt,
+      id
+    );
+    return retryAt;
+  }
+}
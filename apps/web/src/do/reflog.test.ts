@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSqlStorage } from "@/test/storage";
+import { Reflog } from "./reflog";
+
+const A = "a".repeat(40);
+const B = "b".repeat(40);
+const C = "c".repeat(40);
+const ZERO = "0".repeat(40);
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Reflog", () => {
+  let reflog: Reflog;
+
+  beforeEach(async () => {
+    reflog = new Reflog(await createSqlStorage());
+  });
+
+  function record(ref: string, oldOid: string, newOid: string) {
+    reflog.record({ ref, oldOid, newOid, pusher: "alice", source: "push" });
+  }
+
+  it("lists entries newest first", () => {
+    record("refs/heads/main", ZERO, A);
+    record("refs/heads/main", A, B);
+    record("refs/heads/dev", ZERO, C);
+
+    expect(reflog.list().map(({ newOid }) => newOid)).toEqual([C, B, A]);
+    expect(
+      reflog.list({ ref: "refs/heads/main" }).map(({ newOid }) => newOid)
+    ).toEqual([B, A]);
+    expect(reflog.list({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("gets entries by id", () => {
+    record("refs/heads/main", A, B);
+    const [entry] = reflog.list();
+
+    expect(reflog.get(entry?.id ?? 0)).toEqual(entry);
+    expect(entry).toMatchObject({
+      ref: "refs/heads/main",
+      oldOid: A,
+      newOid: B,
+      pusher: "alice",
+      source: "push",
+    });
+    expect(reflog.get(-1)).toBeNull();
+  });
+
+  it("keeps the objects of unexpired entries", () => {
+    record("refs/heads/main", A, B);
+
+    expect(reflog.expireAndListOids().sort()).toEqual([A, B]);
+  });
+
+  it("expires entries after 90 days", () => {
+    record("refs/heads/main", A, B);
+
+    expect(reflog.expireAndListOids(Date.now() + 91 * DAY)).toEqual([]);
+    expect(reflog.list()).toEqual([]);
+  });
+});
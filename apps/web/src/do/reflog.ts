@@ -0,0 +1,135 @@
+/**
+ * Reflog in Durable Object SQLite storage: every change to a ref, with who
+ * made it and how. Unlike git's reflogs, entries outlive deleted refs, so a
+ * deleted branch can be restored.
+ * @see https://git-scm.com/docs/git-reflog
+ */
+
+/** How long entries are kept, git's default `gc.reflogExpire` */
+const REFLOG_EXPIRE_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * What changed the ref: a push, the web UI (e.g. a restore), or an import
+ * of a bundle or a remote repository (including forks and pull mirrors).
+ */
+export type ReflogSource = "push" | "web" | "import";
+
+export type ReflogEntry = {
+  id: number;
+  /** Full ref name, e.g. `refs/heads/main` */
+  ref: string;
+  /** Zero id if the ref was created */
+  oldOid: string;
+  /** Zero id if the ref was deleted */
+  newOid: string;
+  /** Username that made the change, null if unknown (e.g. mirror syncs) */
+  pusher: string | null;
+  source: ReflogSource;
+  createdAt: number;
+};
+
+type ReflogRow = {
+  id: number;
+  ref: string;
+  old_oid: string;
+  new_oid: string;
+  pusher: string | null;
+  source: ReflogSource;
+  created_at: number;
+};
+
+function toReflogEntry(row: ReflogRow): ReflogEntry {
+  return {
+    id: Number(row.id),
+    ref: row.ref,
+    oldOid: row.old_oid,
+    newOid: row.new_oid,
+    pusher: row.pusher,
+    source: row.source,
+    createdAt: Number(row.created_at),
+  };
+}
+
+export class Reflog {
+  private readonly sql: SqlStorage;
+
+  /**
+   * @param sql - Durable Object SQLite storage
+   */
+  constructor(sql: SqlStorage) {
+    this.sql = sql;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS reflog (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ref TEXT NOT NULL,
+        old_oid TEXT NOT NULL,
+        new_oid TEXT NOT NULL,
+        pusher TEXT,
+        source TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS reflog_ref ON reflog (ref, id)
+    `);
+  }
+
+  record(entry: Omit<ReflogEntry, "id" | "createdAt">) {
+    this.sql.exec(
+      "INSERT INTO reflog (ref, old_oid, new_oid, pusher, source, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+      entry.ref,
+      entry.oldOid,
+      entry.newOid,
+      entry.pusher,
+      entry.source,
+      Date.now()
+    );
+  }
+
+  /**
+   * Entries, newest first.
+   *
+   * @param options.ref - Only changes to this ref
+   */
+  list(options: { ref?: string; limit?: number } = {}): ReflogEntry[] {
+    const limit = options.limit ?? 50;
+    const rows = options.ref
+      ? this.sql
+          .exec<ReflogRow>(
+            "SELECT * FROM reflog WHERE ref = ? ORDER BY id DESC LIMIT ?",
+            options.ref,
+            limit
+          )
+          .toArray()
+      : this.sql
+          .exec<ReflogRow>(
+            "SELECT * FROM reflog ORDER BY id DESC LIMIT ?",
+            limit
+          )
+          .toArray();
+    return rows.map(toReflogEntry);
+  }
+
+  get(id: number): ReflogEntry | null {
+    const row = this.sql
+      .exec<ReflogRow>("SELECT * FROM reflog WHERE id = ?", id)
+      .toArray()[0];
+    return row ? toReflogEntry(row) : null;
+  }
+
+  /**
+   * Drop expired entries and return the object ids the remaining ones point
+   * to. Repacks keep these objects, so entries can still be restored.
+   */
+  expireAndListOids(now = Date.now()): string[] {
+    this.sql.exec(
+      "DELETE FROM reflog WHERE created_at < ?",
+      now - REFLOG_EXPIRE_MS
+    );
+    return this.sql
+      .exec<{ oid: string }>(
+        "SELECT old_oid AS oid FROM reflog UNION SELECT new_oid FROM reflog"
+      )
+      .toArray()
+      .map(({ oid }) => oid);
+  }
+}
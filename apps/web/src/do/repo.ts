@@ -1,18 +1,48 @@
 import { DurableObject, env } from "cloudflare:workers";
+import { api } from "@gitvex/backend/convex/_generated/api";
 import * as Sentry from "@sentry/cloudflare";
-import { Fs } from "dofs";
+import { ConvexHttpClient } from "convex/browser";
+import { decodePushPolicy, type PushPolicy } from "@/git/branch-protection";
+import { readBundle } from "@/git/bundle";
+import { isLfsOid } from "@/git/lfs";
+import { ZERO_OID } from "@/git/oid";
 import {
   buildFetchResponse,
+  buildLegacyFetchResponse,
   buildLsRefsResponse,
-  buildReportStatus,
+  buildReceivePackResponse,
+  buildUploadPackError,
+  type Command,
+  type FetchRequest,
+  getProtocolVersion,
+  type PushCertificate,
   parseCommand,
   parseFetchRequest,
+  parseLegacyFetchRequest,
   parseReceivePackRequest,
+  type ReceivePackReporter,
 } from "@/git/protocol";
-import { GitService } from "@/git/service";
+import { type PushOptions, parsePushOptions } from "@/git/push-options";
+import {
+  GitRemote,
+  parseRemoteUrl,
+  type RemoteCredentials,
+} from "@/git/remote";
+import {
+  GitService,
+  type PackEvent,
+  type ProgressEvent,
+  type RefUpdateResult,
+  type RepackResult,
+  type ShallowInfo,
+} from "@/git/service";
+import { type SignatureVerification, verifySignature } from "@/git/signature";
 import { cache } from "./cache";
-import { IsoGitFs } from "./fs";
+import { ChunkedFs, IsoGitFs } from "./fs";
+import { LfsObjectStore } from "./lfs";
 import { createLogger } from "./logger";
+import { PushCertificateStore } from "./push-certs";
+import { PushMirrorStore } from "./push-mirrors";
 
 export function getRepoDOStub(fullRepoName: string) {
   const stub = (env.REPO as DurableObjectNamespace<RepoBase>).getByName(
@@ -24,8 +54,48 @@ export function getRepoDOStub(fullRepoName: string) {
 
 const logger = createLogger("RepoDO");
 
+/** Pushes arriving within this window are consolidated by a single repack */
+const REPACK_DELAY_MS = 10 * 60 * 1000;
+
+/** How often pull mirrors fetch from their upstream */
+const PULL_MIRROR_INTERVAL_MS = 30 * 60 * 1000;
+
+/** Upstream of a pull mirror, as shown to readers */
+export type PullMirror = {
+  url: string;
+  /** When the last sync ran, successful or not */
+  lastSyncAt: number | null;
+  /** Error of the last sync, null if it succeeded */
+  lastError: string | null;
+};
+
+export type ImportStatus = {
+  state: "running" | "done" | "failed";
+  url: string;
+  /** Latest progress, from the remote or from indexing the pack */
+  progress: ProgressEvent | null;
+  /** Latest progress message sent by the remote */
+  remoteMessage: string | null;
+  error: string | null;
+  /** Number of refs imported */
+  refs: number;
+  startedAt: number;
+  finishedAt: number | null;
+};
+
 type Storage = {
   fullName: string;
+  /** When the next repack is due, set after pushes */
+  repackDueAt: number;
+  lastRepack: RepackResult & {
+    finishedAt: number;
+    /** Storage freed by the repack, in bytes */
+    reclaimedBytes: number;
+  };
+  importStatus: ImportStatus;
+  pullMirror: PullMirror & { credentials: RemoteCredentials | null };
+  /** When the pull mirror fetches from its upstream next */
+  pullMirrorDueAt: number;
   testKey: number;
   anotherKey: boolean;
   yetAnotherKey: string;
@@ -37,19 +107,27 @@ type Storage = {
  * All the data like objects, refs, packfiles and config are stored in DO SQLite storage via DOFS.
  */
 class RepoBase extends DurableObject<Env> {
-  private readonly dofs: Fs;
+  private readonly dofs: ChunkedFs;
   private readonly isoGitFs: ReturnType<IsoGitFs["getPromiseFsClient"]>;
   private readonly git: GitService;
+  private readonly pushCerts: PushCertificateStore;
+  private readonly lfs: LfsObjectStore;
+  private readonly pushMirrors: PushMirrorStore;
 
   private _fullName: string | undefined;
+  /** Progress of a running import, updated more often than it is persisted */
+  private importStatus: ImportStatus | null = null;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
 
-    this.dofs = new Fs(ctx, env, { chunkSize: 512 * 1024 }); // 512KB chunks
+    this.dofs = new ChunkedFs(ctx, env, { chunkSize: 512 * 1024 }); // 512KB chunks
 
     this.isoGitFs = new IsoGitFs(this.dofs).getPromiseFsClient();
-    this.git = new GitService(this.isoGitFs, "/repo");
+    this.git = new GitService(this.isoGitFs, "/repo", ctx.storage.sql);
+    this.pushCerts = new PushCertificateStore(ctx.storage.sql);
+    this.lfs = new LfsObjectStore(this.isoGitFs, "/repo");
+    this.pushMirrors = new PushMirrorStore(ctx.storage.sql);
 
     this.ctx.blockConcurrencyWhile(async () => {
       this.dofs.setDeviceSize(5 * 1024 * 1024 * 1024); // 5GB device size to support large repos
@@ -90,29 +168,497 @@ class RepoBase extends DurableObject<Env> {
     const url = new URL(request.url);
     const pathname = url.pathname;
 
-    const data = new Uint8Array(await request.arrayBuffer());
-
     if (pathname === "/git-receive-pack" && request.method === "POST") {
-      const result = await this.receivePack(data);
+      const policy = decodePushPolicy(request.headers);
+      if (!policy) {
+        return new Response("push policy missing or malformed", {
+          status: 403,
+        });
+      }
+      // Pushes can be large, so the body is consumed as a stream
+      const result = await this.receivePack(
+        request.body ?? new ReadableStream<Uint8Array>(),
+        policy
+      );
       return result;
     }
 
     if (pathname === "/git-upload-pack" && request.method === "POST") {
-      const result = await this.uploadPack(data);
+      const data = new Uint8Array(await request.arrayBuffer());
+      const version = getProtocolVersion(request.headers.get("Git-Protocol"));
+      const result =
+        version === 2
+          ? await this.uploadPack(data)
+          : await this.uploadPackLegacy(data);
       return result;
     }
 
+    if (pathname === "/bundle" && request.method === "GET") {
+      try {
+        const bundle = await this.git.createBundle({
+          refs: url.searchParams.getAll("ref"),
+          version: url.searchParams.get("version") === "2" ? 2 : 3,
+        });
+        return new Response(bundle, {
+          headers: { "Content-Type": "application/x-git-bundle" },
+        });
+      } catch (error) {
+        return new Response((error as Error).message, { status: 400 });
+      }
+    }
+
+    if (pathname === "/bundle" && request.method === "POST") {
+      const policy = decodePushPolicy(request.headers);
+      if (!policy) {
+        return new Response("push policy missing or malformed", {
+          status: 403,
+        });
+      }
+      try {
+        const results = await this.importBundle(
+          request.body ?? new ReadableStream<Uint8Array>(),
+          policy
+        );
+        return Response.json({ results });
+      } catch (error) {
+        logger.warn(`(import-bundle) Rejected bundle: ${error}`);
+        return new Response((error as Error).message, { status: 400 });
+      }
+    }
+
+    if (pathname === "/archive" && request.method === "GET") {
+      const format = url.searchParams.get("format");
+      if (format !== "zip" && format !== "tar.gz") {
+        return new Response(`unsupported archive format '${format}'`, {
+          status: 400,
+        });
+      }
+      const archive = await this.git.createArchive({
+        ref: url.searchParams.get("ref") || "HEAD",
+        format,
+        path: url.searchParams.get("path") ?? undefined,
+        prefix: url.searchParams.get("prefix") ?? undefined,
+      });
+      if (!archive) {
+        return new Response("Not Found", { status: 404 });
+      }
+      return new Response(archive, {
+        headers: {
+          "Content-Type":
+            format === "zip" ? "application/zip" : "application/gzip",
+        },
+      });
+    }
+
+    if (pathname.startsWith("/dumb/") && request.method === "GET") {
+      return await this.serveDumbFile(pathname.slice("/dumb/".length));
+    }
+
+    const lfsOid = pathname.match(/^\/lfs\/objects\/([0-9a-f]{64})$/)?.[1];
+    if (lfsOid && request.method === "GET") {
+      const object = await this.lfs.get(lfsOid);
+      if (!object) {
+        return new Response("Not Found", { status: 404 });
+      }
+      return new Response(object.body, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Length": object.size.toString(),
+        },
+      });
+    }
+
+    if (lfsOid && request.method === "PUT") {
+      const size = Number(request.headers.get("Content-Length"));
+      if (!(request.body && Number.isSafeInteger(size))) {
+        return new Response("Content-Length required", { status: 411 });
+      }
+      try {
+        await this.lfs.put({ oid: lfsOid, size, body: request.body });
+      } catch (error) {
+        logger.warn(`(lfs-upload) Rejected ${lfsOid}: ${error}`);
+        return new Response(
+          error instanceof Error ? error.message : "Upload failed",
+          { status: 422 }
+        );
+      }
+      return new Response(null, { status: 200 });
+    }
+
     return new Response("Not Found", { status: 404 });
   }
 
-  getDeviceStats() {
-    return this.dofs.getDeviceStats();
+  /**
+   * Serve a repository file to dumb HTTP clients. Only the files they fetch
+   * are served, `info/refs` is generated by the worker from `listRefs`.
+   * @see https://git-scm.com/docs/http-protocol#_dumb_clients
+   */
+  private async serveDumbFile(path: string) {
+    if (path === "HEAD") {
+      return await this.streamFile("/repo/HEAD", {
+        "Content-Type": "text/plain",
+        "Cache-Control": "no-cache",
+      });
+    }
+
+    if (path === "objects/info/packs") {
+      const packs = await this.git.listPacks();
+      const body = `${packs.map(({ checksum }) => `P pack-${checksum}.pack\n`).join("")}\n`;
+      return new Response(body, {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    // Packs and loose objects never change once written
+    const immutable = "public, max-age=31536000, immutable";
+
+    const packFile = path.match(
+      /^objects\/pack\/pack-([0-9a-f]{40})\.(pack|idx)$/
+    );
+    if (packFile) {
+      const [, checksum, extension] = packFile;
+      const pack = (await this.git.listPacks()).find(
+        (stored) => stored.checksum === checksum
+      );
+      if (!pack) {
+        return new Response("Not Found", { status: 404 });
+      }
+      return extension === "idx"
+        ? await this.streamFile(pack.path.replace(/\.pack$/, ".idx"), {
+            "Content-Type": "application/x-git-packed-objects-toc",
+            "Cache-Control": immutable,
+          })
+        : await this.streamFile(pack.path, {
+            "Content-Type": "application/x-git-packed-objects",
+            "Cache-Control": immutable,
+          });
+    }
+
+    if (/^objects\/[0-9a-f]{2}\/([0-9a-f]{38}|[0-9a-f]{62})$/.test(path)) {
+      return await this.streamFile(`/repo/${path}`, {
+        "Content-Type": "application/x-git-loose-object",
+        "Cache-Control": immutable,
+      });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async streamFile(path: string, headers: Record<string, string>) {
+    try {
+      const { stream, size } = await this.isoGitFs.promises.readStream(path);
+      return new Response(stream, {
+        headers: { ...headers, "Content-Length": size.toString() },
+      });
+    } catch {
+      return new Response("Not Found", { status: 404 });
+    }
+  }
+
+  /**
+   * Size of a stored LFS object, or null if it is missing.
+   */
+  async getLfsObjectSize(oid: string) {
+    if (!isLfsOid(oid)) return null;
+    return await this.lfs.size(oid);
+  }
+
+  async getDeviceStats() {
+    const lastRepack = await this.typedStorage.get("lastRepack");
+    return { ...this.dofs.getDeviceStats(), lastRepack: lastRepack ?? null };
+  }
+
+  /**
+   * Runs background maintenance once it is due.
+   */
+  async alarm() {
+    const repackDueAt = await this.typedStorage.get("repackDueAt");
+    if (repackDueAt !== undefined && repackDueAt <= Date.now()) {
+      await this.repack();
+    }
+
+    const pullMirrorDueAt = await this.typedStorage.get("pullMirrorDueAt");
+    if (pullMirrorDueAt !== undefined && pullMirrorDueAt <= Date.now()) {
+      await this.syncPullMirror();
+    }
+
+    const mirrorSyncAt = this.pushMirrors.nextSyncAt();
+    if (mirrorSyncAt !== null && mirrorSyncAt <= Date.now()) {
+      await this.syncPushMirrors();
+    }
+
+    // Work that is not due yet needs another alarm
+    const pending = [
+      await this.typedStorage.get("repackDueAt"),
+      await this.typedStorage.get("pullMirrorDueAt"),
+      this.pushMirrors.nextSyncAt(),
+    ];
+    for (const time of pending) {
+      if (typeof time === "number") await this.scheduleAlarm(time);
+    }
+  }
+
+  /**
+   * Make sure the alarm fires no later than `time`.
+   */
+  private async scheduleAlarm(time: number) {
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || current > time) {
+      await this.ctx.storage.setAlarm(time);
+    }
+  }
+
+  private async scheduleRepack() {
+    if ((await this.typedStorage.get("repackDueAt")) !== undefined) return;
+    const dueAt = Date.now() + REPACK_DELAY_MS;
+    await this.typedStorage.put("repackDueAt", dueAt);
+    await this.scheduleAlarm(dueAt);
+  }
+
+  /**
+   * Sync push mirrors right after refs changed.
+   */
+  private async schedulePushMirrors() {
+    this.pushMirrors.markOutOfDate();
+    const dueAt = this.pushMirrors.nextSyncAt();
+    if (dueAt !== null) {
+      await this.scheduleAlarm(dueAt);
+    }
+  }
+
+  listPushMirrors() {
+    return this.pushMirrors.list();
+  }
+
+  async addPushMirror(args: {
+    url: string;
+    credentials?: RemoteCredentials | null;
+  }) {
+    const mirror = this.pushMirrors.add({
+      url: parseRemoteUrl(args.url),
+      credentials: args.credentials ?? null,
+    });
+    await this.scheduleAlarm(Date.now());
+    return mirror;
+  }
+
+  removePushMirror(id: number) {
+    this.pushMirrors.remove(id);
+  }
+
+  /**
+   * Sync the push mirrors that are due. Failed mirrors are retried later,
+   * from the alarm.
+   */
+  async syncPushMirrors() {
+    for (const id of this.pushMirrors.listDue()) {
+      const mirror = this.pushMirrors.getWithCredentials(id);
+      if (!mirror) continue;
+
+      const startedAt = Date.now();
+      try {
+        const updated = await this.pushToMirror(
+          new GitRemote(mirror.url, mirror.credentials)
+        );
+        this.pushMirrors.recordSuccess(id, startedAt);
+        logger.info(`(push-mirror) Updated ${updated} refs on ${mirror.url}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryAt = this.pushMirrors.recordFailure(id, message);
+        await this.scheduleAlarm(retryAt);
+        logger.warn(
+          `(push-mirror) Failed to sync ${mirror.url}, retrying at ${new Date(retryAt).toISOString()}: ${message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Make the remote's branches and tags match ours, like `git push --mirror`.
+   *
+   * @returns Number of refs updated on the remote
+   * @throws If the push failed or any ref was rejected
+   */
+  private async pushToMirror(remote: GitRemote) {
+    const remoteRefs = await remote.listPushRefs();
+    remote.checkPushObjectFormat();
+
+    const { refs } = await this.git.listRefs();
+    const local = new Map(
+      refs
+        .filter(({ ref }) => /^refs\/(heads|tags)\//.test(ref))
+        .map(({ ref, oid }) => [ref, oid])
+    );
+    const mirrored = new Map(remoteRefs.map(({ ref, oid }) => [ref, oid]));
+
+    const commands: Command[] = [];
+    for (const [ref, oid] of local) {
+      if (mirrored.get(ref) !== oid) {
+        commands.push({
+          ref,
+          oldOid: mirrored.get(ref) ?? ZERO_OID,
+          newOid: oid,
+        });
+      }
+    }
+    for (const [ref, oid] of mirrored) {
+      if (!local.has(ref)) {
+        commands.push({ ref, oldOid: oid, newOid: ZERO_OID });
+      }
+    }
+    if (commands.length === 0) return 0;
+
+    const wants = [
+      ...new Set(
+        commands.map(({ newOid }) => newOid).filter((oid) => oid !== ZERO_OID)
+      ),
+    ];
+    // Objects the remote already has are left out of the pack
+    const haves: string[] = [];
+    for (const oid of new Set(mirrored.values())) {
+      if (await this.git.hasObject(oid)) haves.push(oid);
+    }
+
+    const results = await remote.push({
+      commands,
+      packfile:
+        wants.length > 0
+          ? await this.git.createPackfile(wants, haves, {
+              ofsDelta: remote.acceptsOfsDelta(),
+            })
+          : null,
+    });
+    const rejected = results.filter(({ ok }) => !ok);
+    if (rejected.length > 0) {
+      throw new Error(
+        `rejected ${rejected.map(({ ref, error }) => `${ref} (${error})`).join(", ")}`
+      );
+    }
+    return commands.length;
+  }
+
+  async getPullMirror(): Promise<PullMirror | null> {
+    const mirror = await this.typedStorage.get("pullMirror");
+    if (!mirror) return null;
+    const { credentials: _, ...status } = mirror;
+    return status;
+  }
+
+  /**
+   * Turn the repository into a mirror of `url`, and fetch from it right away.
+   * Pushes are rejected until mirroring is turned off.
+   */
+  async setPullMirror(args: {
+    url: string;
+    credentials?: RemoteCredentials | null;
+  }) {
+    await this.typedStorage.put("pullMirror", {
+      url: parseRemoteUrl(args.url),
+      credentials: args.credentials ?? null,
+      lastSyncAt: null,
+      lastError: null,
+    });
+    return await this.syncPullMirror();
+  }
+
+  /**
+   * Stop mirroring. Refs are kept, and the repository accepts pushes again.
+   */
+  async removePullMirror() {
+    await this.typedStorage.delete("pullMirror");
+    await this.typedStorage.delete("pullMirrorDueAt");
+  }
+
+  /**
+   * Force-update every branch and tag from the upstream, and schedule the
+   * next sync. Failures are recorded and retried on the next sync.
+   */
+  async syncPullMirror() {
+    const mirror = await this.typedStorage.get("pullMirror");
+    if (!mirror) return null;
+
+    let lastError: string | null = null;
+    try {
+      const { results } = await this.fetchFromRemote(
+        new GitRemote(mirror.url, mirror.credentials),
+        { mirror: true }
+      );
+      const rejected = results.filter(({ ok }) => !ok);
+      if (rejected.length > 0) {
+        lastError = `failed to update ${rejected.map(({ ref, error }) => `${ref} (${error})`).join(", ")}`;
+      }
+      logger.info(
+        `(pull-mirror) Updated ${results.length - rejected.length} refs from ${mirror.url}`
+      );
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      logger.warn(`(pull-mirror) Failed to sync ${mirror.url}: ${lastError}`);
+    }
+
+    // Mirroring may have been turned off while fetching
+    if (!(await this.typedStorage.get("pullMirror"))) return null;
+
+    const status = { ...mirror, lastSyncAt: Date.now(), lastError };
+    await this.typedStorage.put("pullMirror", status);
+    const dueAt = Date.now() + PULL_MIRROR_INTERVAL_MS;
+    await this.typedStorage.put("pullMirrorDueAt", dueAt);
+    await this.scheduleAlarm(dueAt);
+
+    const { credentials: _, ...publicStatus } = status;
+    return publicStatus;
+  }
+
+  /**
+   * Consolidate all packs into one and prune unreachable objects.
+   */
+  async repack() {
+    const spaceBefore = this.dofs.getDeviceStats().spaceUsed;
+    // Cleared first so pushes during the repack schedule another one
+    await this.typedStorage.delete("repackDueAt");
+
+    try {
+      const result = await this.git.repack(
+        `/repo/objects/pack/pack-${Date.now()}.pack`
+      );
+      const reclaimedBytes = Math.max(
+        0,
+        spaceBefore - this.dofs.getDeviceStats().spaceUsed
+      );
+      await this.typedStorage.put("lastRepack", {
+        ...result,
+        finishedAt: Date.now(),
+        reclaimedBytes,
+      });
+      logger.info(
+        `(repack) Packed ${result.objects} objects, removed ${result.packsRemoved} packs and ${result.looseObjectsRemoved} loose objects, reclaimed ${reclaimedBytes} bytes`
+      );
+      return result;
+    } catch (error) {
+      // Try again later rather than relying on alarm retries
+      logger.error("(repack) Failed to repack: ", error);
+      await this.scheduleRepack();
+      return null;
+    }
   }
 
   async initRepo() {
     await this.git.initRepo();
   }
 
+  /**
+   * Delete everything this repository stores, and reset the object so it
+   * starts over empty. The reset aborts in-flight calls, this one included.
+   */
+  async destroy() {
+    logger.info(`(destroy) Wiping ${this._fullName ?? "repository"}`);
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+    this.ctx.abort("repository destroyed");
+  }
+
   async ensureRepoInitialized() {
     try {
       await this.isoGitFs.promises.stat("/repo/HEAD");
@@ -121,37 +667,539 @@ class RepoBase extends DurableObject<Env> {
     }
   }
 
-  async listRefs() {
-    return this.git.listRefs();
+  /**
+   * @param options.peel - Also resolve annotated tags to the object they
+   * point to, as sent in protocol v0/v1 ref advertisements
+   */
+  async listRefs(options: { peel?: boolean } = {}) {
+    const { refs, symbolicHead } = await this.git.listRefs();
+
+    const peeledRefs = await Promise.all(
+      refs.map(async ({ ref, oid }) => {
+        const peeled =
+          options.peel && ref.startsWith("refs/tags/")
+            ? await this.git.peelTag(oid)
+            : null;
+        return { ref, oid, peeled: peeled ?? undefined };
+      })
+    );
+    return { refs: peeledRefs, symbolicHead };
+  }
+
+  /**
+   * Nonce advertised with the `push-cert` capability, to be signed into the
+   * push certificate of the next push.
+   */
+  async issuePushCertNonce() {
+    return this.pushCerts.issueNonce();
+  }
+
+  /**
+   * Verified push certificates, newest first.
+   *
+   * @param options.ref - Only certificates that updated this ref
+   */
+  async listPushCertificates(options: { ref?: string; limit?: number } = {}) {
+    return this.pushCerts.list(options);
+  }
+
+  /**
+   * Changes to refs, newest first.
+   *
+   * @param options.ref - Only changes to this ref
+   */
+  async listReflog(options: { ref?: string; limit?: number } = {}) {
+    return this.git.reflog.list(options);
+  }
+
+  /**
+   * Set a ref back to its value before a reflog entry, e.g. to bring back a
+   * deleted branch or undo a bad push. This is a ref update like a push, so
+   * branch protection applies and rewinding a branch is only allowed where
+   * force-pushes are.
+   *
+   * @param entryId - Reflog entry to undo
+   * @param policy - Policy of the user restoring the ref
+   */
+  async restoreRef(
+    entryId: number,
+    policy: PushPolicy
+  ): Promise<RefUpdateResult> {
+    if (await this.getPullMirror()) {
+      throw new Error("repository is a read-only mirror");
+    }
+    const result = await this.git.restoreReflogEntry(entryId, policy);
+    const entry = this.git.reflog.get(entryId);
+    if (result.ok && entry) {
+      logger.info(
+        `(restore-ref) ${policy.pusher} restored ${entry.ref} to ${entry.oldOid}`
+      );
+      await this.git.updateCommitGraph([entry.oldOid]);
+      await this.schedulePushMirrors();
+    }
+    return result;
   }
 
-  async receivePack(data: Uint8Array) {
-    const { commands, packfile, capabilities } = parseReceivePackRequest(data);
+  /**
+   * Check a push certificate's nonce and its signature against the pusher's
+   * signing keys.
+   */
+  private async verifyPushCertificate(
+    certificate: PushCertificate,
+    policy: PushPolicy
+  ): Promise<SignatureVerification> {
+    if (
+      !(certificate.nonce && this.pushCerts.consumeNonce(certificate.nonce))
+    ) {
+      return { ok: false, reason: "invalid or expired nonce" };
+    }
+    if (policy.signingKeys.length === 0) {
+      return { ok: false, reason: "no signing keys uploaded" };
+    }
+    return await verifySignature(
+      new TextEncoder().encode(certificate.payload),
+      certificate.signature,
+      policy.signingKeys
+    );
+  }
 
-    const packFilePath = `/repo/objects/pack/pack-${Date.now()}.pack`;
-    await this.isoGitFs.promises.writeFile(packFilePath, packfile);
+  /**
+   * @param policy - Branch protection rules and the pusher they apply to
+   */
+  async receivePack(body: ReadableStream<Uint8Array>, policy: PushPolicy) {
+    const { commands, packfile, capabilities, pushOptions, certificate } =
+      await parseReceivePackRequest(body);
+
+    return buildReceivePackResponse(capabilities, async (reporter) => {
+      const mirror = await this.getPullMirror();
+      if (mirror) {
+        await packfile.cancel();
+        reporter.message(`This repository is a mirror of ${mirror.url}`);
+        return {
+          results: commands.map(({ ref }) => ({
+            ref,
+            ok: false,
+            error: "repository is a read-only mirror",
+          })),
+          unpackOk: true,
+        };
+      }
+
+      const packFilePath = `/repo/objects/pack/pack-${Date.now()}.pack`;
+
+      try {
+        await this.git.receivePackfile(
+          packFilePath,
+          packfile,
+          reporter.progress
+        );
+      } catch (error) {
+        logger.error("(receive-pack) Failed to index packfile: ", error);
+        const message = (error as Error).message;
+        reporter.message(`error: unpack failed: ${message}`);
+        return {
+          results: [
+            { ref: "*", ok: false, error: `unpack failed: ${message}` },
+            ...commands.map(({ ref }) => ({
+              ref,
+              ok: false,
+              error: "unpacker error",
+            })),
+          ],
+          unpackOk: false,
+        };
+      }
+
+      let pushPolicy = policy;
+      if (certificate) {
+        const verification = await this.verifyPushCertificate(
+          certificate,
+          policy
+        );
+        if (!verification.ok) {
+          logger.info(
+            `(receive-pack) Rejected push certificate from ${certificate.pusher}: ${verification.reason}`
+          );
+          return {
+            results: commands.map(({ ref }) => ({
+              ref,
+              ok: false,
+              error: `push certificate rejected: ${verification.reason}`,
+            })),
+            unpackOk: true,
+          };
+        }
+        pushPolicy = { ...policy, signer: verification.fingerprint };
+      }
+
+      const atomic = capabilities.includes("atomic");
+      const results = await this.git.applyRefUpdates(commands, {
+        atomic,
+        policy: pushPolicy,
+      });
+
+      const updates = commands.filter((_, i) => results[i]?.ok);
+      if (certificate && pushPolicy.signer && updates.length > 0) {
+        this.pushCerts.record({
+          certificate,
+          fingerprint: pushPolicy.signer,
+          pushedBy: policy.pusher,
+          updates,
+        });
+        reporter.message(`Push certificate signed by ${pushPolicy.signer}`);
+      }
+
+      await this.git.updateCommitGraph(
+        commands
+          .filter(
+            (command, i) => results[i]?.ok && !/^0+$/.test(command.newOid)
+          )
+          .map(({ newOid }) => newOid)
+      );
+      await this.scheduleRepack();
+      if (updates.length > 0) {
+        await this.schedulePushMirrors();
+      }
+
+      const options = parsePushOptions(pushOptions);
+      if (pushOptions.length > 0) {
+        logger.info(`(receive-pack) Push options: ${pushOptions.join(", ")}`);
+      }
+      if (options.createPullRequest) {
+        await this.openPullRequests({
+          commands,
+          results,
+          options,
+          policy,
+          reporter,
+        });
+      }
+
+      return { results, unpackOk: true };
+    });
+  }
+
+  /**
+   * Copy every object and ref of another repository into this one, which
+   * must be empty. Used to seed forks.
+   *
+   * @throws If any ref can't be copied
+   *
+   * @param sourceFullName - Repository to copy, as `<owner>/<repo>`
+   */
+  async seedFrom(sourceFullName: string) {
+    const source = getRepoDOStub(sourceFullName);
+    const { refs } = await source.listRefs();
+    if (refs.length === 0) return [];
+
+    // A bundle of the whole repository carries exactly what is needed
+    const res = await source.fetch("https://do/bundle");
+    if (!(res.ok && res.body)) {
+      throw new Error(`failed to read ${sourceFullName}: ${await res.text()}`);
+    }
+    const results = await this.importBundle(res.body);
+    const rejected = results.find(({ ok }) => !ok);
+    if (rejected) {
+      throw new Error(
+        `failed to copy ${rejected.ref} from ${sourceFullName}: ${rejected.error}`
+      );
+    }
+    logger.info(`(seed) Copied ${results.length} refs from ${sourceFullName}`);
+    return results;
+  }
+
+  /**
+   * Store a bundle's objects and update refs to the bundle's refs. Refs are
+   * updated like a push by `policy.pusher`, so branch protection applies.
+   * An empty repository gets its default branch from the bundle's HEAD.
+   *
+   * @param policy - Branch protection to apply, none if unset
+   * @throws If the bundle is invalid or its prerequisites are missing
+   */
+  private async importBundle(
+    body: ReadableStream<Uint8Array>,
+    policy?: PushPolicy
+  ) {
+    if (await this.getPullMirror()) {
+      throw new Error("repository is a read-only mirror");
+    }
+    const { header, packfile } = await readBundle(body);
+    for (const { oid } of header.prerequisites) {
+      if (!(await this.git.hasObject(oid))) {
+        throw new Error(`missing prerequisite object ${oid}`);
+      }
+    }
+
+    await this.git.receivePackfile(
+      `/repo/objects/pack/pack-${Date.now()}.pack`,
+      packfile
+    );
+
+    const { refs, symbolicHead } = await this.git.listRefs();
+    const current = new Map(refs.map(({ ref, oid }) => [ref, oid]));
+    const commands = header.refs
+      .filter(
+        ({ ref, oid }) => ref.startsWith("refs/") && current.get(ref) !== oid
+      )
+      .map(({ ref, oid }) => ({
+        ref,
+        oldOid: current.get(ref) ?? ZERO_OID,
+        newOid: oid,
+      }));
+
+    const results = await this.git.applyRefUpdates(commands, {
+      policy,
+      source: "import",
+    });
+
+    const updated = commands.filter((_, i) => results[i]?.ok);
+    const bundleHead = header.refs.find(({ ref }) => ref === "HEAD")?.oid;
+    const defaultBranch = updated.find(
+      ({ ref, newOid }) =>
+        ref.startsWith("refs/heads/") && newOid === bundleHead
+    );
+    if (!(symbolicHead && current.has(symbolicHead)) && defaultBranch) {
+      await this.git.setHead(defaultBranch.ref);
+    }
+
+    await this.git.updateCommitGraph(updated.map(({ newOid }) => newOid));
+    await this.scheduleRepack();
+    if (updated.length > 0) {
+      await this.schedulePushMirrors();
+    }
+
+    logger.info(
+      `(import-bundle) Updated ${updated.length} of ${commands.length} refs`
+    );
+    return results;
+  }
+
+  /**
+   * Import every branch and tag of a remote repository. Progress can be
+   * followed with `getImportStatus` while this runs.
+   */
+  async importFromUrl(args: {
+    url: string;
+    credentials?: RemoteCredentials | null;
+  }) {
+    const status: ImportStatus = {
+      state: "running",
+      url: args.url,
+      progress: null,
+      remoteMessage: null,
+      error: null,
+      refs: 0,
+      startedAt: Date.now(),
+      finishedAt: null,
+    };
+    this.importStatus = status;
+    await this.typedStorage.put("importStatus", status);
 
     try {
-      await this.git.indexPack(packFilePath.replace("/repo/", ""));
+      const remote = new GitRemote(args.url, args.credentials ?? null);
+      const { results } = await this.fetchFromRemote(remote, {
+        onProgress: (progress) => {
+          status.progress = progress;
+        },
+        onRemoteMessage: (message) => {
+          status.remoteMessage = message;
+        },
+      });
+      status.state = "done";
+      status.refs = results.filter(({ ok }) => ok).length;
+      logger.info(`(import-url) Imported ${status.refs} refs from ${args.url}`);
     } catch (error) {
-      // TODO: report status back to client
-      logger.error("(receive-pack) Failed to index packfile: ", error);
-      return buildReportStatus(
-        [
-          {
-            ref: "*",
-            ok: false,
-            error: `unpack failed: ${(error as Error).message}`,
+      status.state = "failed";
+      status.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`(import-url) Failed to import ${args.url}: ${error}`);
+    }
+
+    status.finishedAt = Date.now();
+    await this.typedStorage.put("importStatus", status);
+    return status;
+  }
+
+  async getImportStatus() {
+    return (
+      this.importStatus ?? (await this.typedStorage.get("importStatus")) ?? null
+    );
+  }
+
+  /**
+   * Fetch the branches and tags of a remote, and point the local refs at them.
+   * HEAD follows the remote's HEAD if the repository doesn't have one yet.
+   *
+   * @param options.mirror - Make the local refs match the remote exactly:
+   *   refs the remote doesn't have are deleted, and HEAD always follows
+   */
+  private async fetchFromRemote(
+    remote: GitRemote,
+    options: {
+      mirror?: boolean;
+      onProgress?: (progress: ProgressEvent) => void;
+      onRemoteMessage?: (message: string) => void;
+    } = {}
+  ) {
+    await remote.checkObjectFormat();
+    const remoteRefs = await remote.lsRefs();
+    const { refs, symbolicHead } = await this.git.listRefs();
+    const current = new Map(refs.map(({ ref, oid }) => [ref, oid]));
+    const commands = remoteRefs
+      .filter(
+        ({ ref, oid }) => ref.startsWith("refs/") && current.get(ref) !== oid
+      )
+      .map(({ ref, oid }) => ({
+        ref,
+        oldOid: current.get(ref) ?? ZERO_OID,
+        newOid: oid,
+      }));
+    if (options.mirror) {
+      const remoteNames = new Set(remoteRefs.map(({ ref }) => ref));
+      for (const { ref, oid } of refs) {
+        if (/^refs\/(heads|tags)\//.test(ref) && !remoteNames.has(ref)) {
+          commands.push({ ref, oldOid: oid, newOid: ZERO_OID });
+        }
+      }
+    }
+
+    const wants: string[] = [];
+    const newOids = commands
+      .map(({ newOid }) => newOid)
+      .filter((oid) => oid !== ZERO_OID);
+    for (const oid of new Set(newOids)) {
+      if (!(await this.git.hasObject(oid))) wants.push(oid);
+    }
+
+    if (wants.length > 0) {
+      const packfile = await remote.fetchPack({
+        wants,
+        haves: [...new Set(current.values())],
+        onProgress: (text) => {
+          // Progress lines are terminated by \r while they are updated
+          const message = text
+            .split(/[\r\n]/)
+            .reverse()
+            .find(Boolean)
+            ?.trim();
+          if (message) options.onRemoteMessage?.(message);
+        },
+      });
+
+      let received = 0;
+      const counted = packfile.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            received += chunk.length;
+            options.onProgress?.({
+              phase: "Receiving objects",
+              loaded: received,
+            });
+            controller.enqueue(chunk);
           },
-        ],
-        false
+        })
+      );
+      await this.git.receivePackfile(
+        `/repo/objects/pack/pack-${Date.now()}.pack`,
+        counted,
+        options.onProgress
       );
     }
 
-    const atomic = capabilities.includes("atomic");
-    const results = await this.git.applyRefUpdates(commands, atomic);
+    // A mirror follows its upstream, even when it rewrites history
+    const results = await this.git.applyRefUpdates(commands, {
+      source: "import",
+      force: options.mirror,
+    });
+
+    const updated = commands.filter((_, i) => results[i]?.ok);
+    const defaultBranch = remoteRefs.find(
+      ({ ref }) => ref === "HEAD"
+    )?.symrefTarget;
+    const hasHead = symbolicHead !== null && current.has(symbolicHead);
+    if (
+      defaultBranch &&
+      defaultBranch !== symbolicHead &&
+      (options.mirror || !hasHead) &&
+      (current.has(defaultBranch) ||
+        updated.some(({ ref }) => ref === defaultBranch))
+    ) {
+      await this.git.setHead(defaultBranch);
+    }
 
-    return buildReportStatus(results, true);
+    await this.git.updateCommitGraph(
+      updated.map(({ newOid }) => newOid).filter((oid) => oid !== ZERO_OID)
+    );
+    await this.scheduleRepack();
+    if (updated.length > 0) {
+      await this.schedulePushMirrors();
+    }
+    return { commands, results };
+  }
+
+  /**
+   * Open a pull request for each branch updated by a push (`-o pr.create`).
+   * Failures are reported to the pusher but never fail the push itself.
+   */
+  private async openPullRequests(args: {
+    commands: Command[];
+    results: RefUpdateResult[];
+    options: PushOptions;
+    policy: PushPolicy;
+    reporter: ReceivePackReporter;
+  }) {
+    const { commands, results, options, policy, reporter } = args;
+    if (!policy.token) {
+      reporter.message(
+        "warning: pr.create needs a token to open pull requests"
+      );
+      return;
+    }
+
+    const target =
+      options.pullRequestTarget ?? (await this.git.currentBranch());
+    const [owner, repo] = this.fullName.split("/");
+    const client = new ConvexHttpClient(env.VITE_CONVEX_URL);
+
+    for (const [i, command] of commands.entries()) {
+      const isBranchUpdate =
+        results[i]?.ok &&
+        command.ref.startsWith("refs/heads/") &&
+        !/^0+$/.test(command.newOid);
+      if (!isBranchUpdate) continue;
+
+      const branch = command.ref.slice("refs/heads/".length);
+      if (!target || branch === target) continue;
+
+      try {
+        const head = await this.git.getLastCommit(command.ref);
+        const title =
+          options.pullRequestTitle ??
+          head?.commit.message.split("\n")[0] ??
+          branch;
+
+        const pr = await client.mutation(api.pulls.createFromPush, {
+          owner,
+          repo,
+          token: policy.token,
+          title,
+          body: options.pullRequestDescription,
+          intoBranch: target,
+          fromBranch: branch,
+        });
+
+        reporter.message(
+          `${pr.created ? "Created" : "Found existing"} pull request #${pr.number} (${branch} -> ${target}):`
+        );
+        reporter.message(
+          `  ${new URL(`/${this.fullName}/pulls`, env.SITE_URL)}`
+        );
+      } catch (error) {
+        logger.error("(receive-pack) Failed to open pull request: ", error);
+        reporter.message(
+          `warning: failed to open a pull request for ${branch}: ${(error as Error).message}`
+        );
+      }
+    }
   }
 
   async uploadPack(data: Uint8Array) {
@@ -173,27 +1221,43 @@ class RepoBase extends DurableObject<Env> {
     if (command === "fetch") {
       const fetchRequest = parseFetchRequest(data, args);
 
+      // Refs are resolved once per request, so the pack matches what is reported
+      let wantedRefs: Array<{ ref: string; oid: string }>;
+      try {
+        wantedRefs = await this.git.resolveWantedRefs(fetchRequest.wantRefs);
+      } catch (error) {
+        logger.warn(`(upload-pack-fetch) ${(error as Error).message}`);
+        return buildUploadPackError((error as Error).message);
+      }
+      fetchRequest.wants.push(...wantedRefs.map(({ oid }) => oid));
+
       // Find common commits between client and server
       const commonCommits = await this.git.findCommonCommits(
         fetchRequest.haves
       );
 
-      // If client sent "done", we need to generate and send packfile
-      let packfileData: Uint8Array | undefined | null = null;
+      // Without "done", the packfile is only sent once we know enough common
+      // commits, and never if the client wants to end negotiation itself
+      const ready =
+        !fetchRequest.done &&
+        !fetchRequest.capabilities.waitForDone &&
+        fetchRequest.wants.length > 0 &&
+        (await this.git.isReadyToSend(fetchRequest.wants, commonCommits));
+
+      let pack: AsyncIterable<PackEvent> | null = null;
+      let shallowInfo: ShallowInfo | undefined;
 
-      if (fetchRequest.done && fetchRequest.wants.length > 0) {
+      if ((fetchRequest.done || ready) && fetchRequest.wants.length > 0) {
         // Walk the object graph to find all objects reachable from wants but not from haves
         try {
-          const objectsToPack = await this.git.collectObjectsForPack(
-            fetchRequest.wants,
-            fetchRequest.haves
-          );
-
-          logger.info(
-            `(upload-pack-fetch) Packing ${objectsToPack.length} objects for wants: ${fetchRequest.wants.join(", ")}`
-          );
+          if (fetchRequest.shallowOptions) {
+            shallowInfo = await this.git.computeShallowInfo(
+              fetchRequest.wants,
+              fetchRequest.shallowOptions
+            );
+          }
 
-          packfileData = await this.git.packObjects(objectsToPack);
+          pack = await this.preparePack(fetchRequest, shallowInfo);
         } catch (error) {
           logger.error("(upload-pack-fetch) Failed to pack objects: ", error);
           return new Response(
@@ -203,11 +1267,14 @@ class RepoBase extends DurableObject<Env> {
         }
       }
 
-      const response = await buildFetchResponse({
+      const response = buildFetchResponse({
         commonCommits,
-        packfileData,
+        pack,
         noProgress: fetchRequest.capabilities.noProgress,
         done: fetchRequest.done,
+        ready,
+        shallowInfo,
+        wantedRefs,
       });
 
       return response;
@@ -216,6 +1283,90 @@ class RepoBase extends DurableObject<Env> {
     return new Response("Unsupported command", { status: 400 });
   }
 
+  /**
+   * Protocol v0/v1 upload-pack. Each request is one negotiation round; the
+   * pack is sent after "done", or once ready when the client allows no-done.
+   */
+  async uploadPackLegacy(data: Uint8Array) {
+    const fetchRequest = parseLegacyFetchRequest(data);
+
+    // Nothing wanted, e.g. the client is already up to date
+    if (fetchRequest.wants.length === 0) {
+      return new Response(null, { status: 200 });
+    }
+
+    const commonCommits = await this.git.findCommonCommits(fetchRequest.haves);
+
+    // Only multi_ack_detailed can tell the client to stop sending haves
+    const ready =
+      fetchRequest.multiAck === "multi_ack_detailed" &&
+      !fetchRequest.done &&
+      (await this.git.isReadyToSend(fetchRequest.wants, commonCommits));
+
+    let pack: AsyncIterable<PackEvent> | null = null;
+    let shallowInfo: ShallowInfo | undefined;
+
+    try {
+      // While deepening, the shallow update is part of every round
+      if (fetchRequest.shallowOptions) {
+        shallowInfo = await this.git.computeShallowInfo(
+          fetchRequest.wants,
+          fetchRequest.shallowOptions
+        );
+      }
+
+      if (fetchRequest.done || (ready && fetchRequest.noDone)) {
+        pack = await this.preparePack(fetchRequest, shallowInfo);
+      }
+    } catch (error) {
+      logger.error("(upload-pack-legacy) Failed to pack objects: ", error);
+      return new Response(
+        `ERR pack-objects failed: ${(error as Error).message}`,
+        { status: 500 }
+      );
+    }
+
+    return buildLegacyFetchResponse({
+      request: fetchRequest,
+      commonCommits,
+      ready,
+      pack,
+      shallowInfo,
+    });
+  }
+
+  /**
+   * Walk the object graph to find all objects reachable from the wants but
+   * not from the haves, and start packing them.
+   */
+  private async preparePack(
+    fetchRequest: FetchRequest,
+    shallowInfo: ShallowInfo | undefined
+  ) {
+    const filter = fetchRequest.filterSpec
+      ? await this.git.resolveObjectFilter(fetchRequest.filterSpec)
+      : undefined;
+
+    const objectsToPack = await this.git.collectObjectsForPack(
+      fetchRequest.wants,
+      fetchRequest.haves,
+      {
+        shallowInfo,
+        filter,
+        includeTag: fetchRequest.capabilities.includeTag,
+      }
+    );
+
+    logger.info(
+      `(upload-pack-fetch) Packing ${objectsToPack.length} objects for wants: ${fetchRequest.wants.join(", ")}`
+    );
+
+    // The pack is built while the response streams
+    return this.git.packObjectsStream(objectsToPack, {
+      ofsDelta: fetchRequest.capabilities.ofsDelta,
+    });
+  }
+
   async getLatestCommit(branch = "HEAD") {
     const commit = await this.git.getLastCommit(branch);
     return commit;
@@ -0,0 +1,247 @@
+import { gunzipSync, inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  type ArchiveEntry,
+  type ArchiveFormat,
+  createArchiveStream,
+  ExportIgnore,
+} from "./archive";
+import { crc32 } from "./pack";
+
+const COMMIT = "c".repeat(40);
+const MTIME = 1_700_000_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+type ReadEntry = { path: string; mode: number; content: string };
+
+const LONG_PATH = `${"nested/".repeat(20)}file.txt`;
+
+const ENTRIES: ArchiveEntry[] = [
+  { path: "src", type: "directory", content: new Uint8Array() },
+  {
+    path: "src/a.txt",
+    type: "file",
+    content: encoder.encode("hello\n".repeat(100)),
+  },
+  { path: "run.sh", type: "executable", content: encoder.encode("#!/bin/sh") },
+  { path: "link", type: "symlink", content: encoder.encode("src/a.txt") },
+  { path: LONG_PATH, type: "file", content: encoder.encode("deep") },
+];
+
+async function archive(format: ArchiveFormat, entries = ENTRIES) {
+  async function* generate() {
+    yield* entries;
+  }
+  const stream = createArchiveStream(format, generate(), {
+    commitOid: COMMIT,
+    mtime: MTIME,
+  });
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Read a NUL-terminated string field of a tar header */
+function field(block: Uint8Array, offset: number, length: number) {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+/** Read pax records, `<length> <key>=<value>\n` */
+function paxRecords(text: string) {
+  const records = new Map<string, string>();
+  for (const line of text.split("\n").filter(Boolean)) {
+    const [key, value] = line.slice(line.indexOf(" ") + 1).split("=", 2);
+    records.set(key ?? "", value ?? "");
+  }
+  return records;
+}
+
+function readTar(tar: Uint8Array) {
+  const entries: ReadEntry[] = [];
+  let comment: string | undefined;
+  let pax = new Map<string, string>();
+
+  for (let offset = 0; offset < tar.length; ) {
+    const block = tar.subarray(offset, offset + 512);
+    if (block.every((byte) => byte === 0)) break;
+
+    const checksum = Number.parseInt(field(block, 148, 8), 8);
+    const withSpaces = block.slice();
+    withSpaces.fill(0x20, 148, 156);
+    if (withSpaces.reduce((sum, byte) => sum + byte, 0) !== checksum) {
+      throw new Error(`bad tar header checksum at ${offset}`);
+    }
+    if (field(block, 257, 6) !== "ustar") {
+      throw new Error(`not a ustar header at ${offset}`);
+    }
+    if (Number.parseInt(field(block, 136, 12), 8) !== MTIME) {
+      throw new Error(`wrong mtime at ${offset}`);
+    }
+
+    const size = Number.parseInt(field(block, 124, 12), 8);
+    const typeflag = field(block, 156, 1);
+    const content = tar.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (typeflag === "g") {
+      comment = paxRecords(decoder.decode(content)).get("comment");
+    } else if (typeflag === "x") {
+      pax = paxRecords(decoder.decode(content));
+    } else {
+      entries.push({
+        path: pax.get("path") ?? field(block, 0, 100),
+        mode: Number.parseInt(field(block, 100, 8), 8),
+        content:
+          typeflag === "2"
+            ? (pax.get("linkpath") ?? field(block, 157, 100))
+            : decoder.decode(content),
+      });
+      pax = new Map();
+    }
+  }
+  return { comment, entries };
+}
+
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  let end = zip.length - 22;
+  while (view.getUint32(end, true) !== 0x06_05_4b_50) end -= 1;
+
+  const count = view.getUint16(end + 10, true);
+  const comment = decoder.decode(
+    zip.subarray(end + 22, end + 22 + view.getUint16(end + 20, true))
+  );
+
+  const entries: ReadEntry[] = [];
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i += 1) {
+    if (view.getUint32(offset, true) !== 0x02_01_4b_50) {
+      throw new Error(`not a central directory header at ${offset}`);
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const attributes = view.getUint32(offset + 38, true);
+    const local = view.getUint32(offset + 42, true);
+    const path = decoder.decode(
+      zip.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength;
+
+    const dataOffset =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    const data = zip.subarray(dataOffset, dataOffset + compressedSize);
+    const content = method === 8 ? new Uint8Array(inflateRawSync(data)) : data;
+    if (crc32(content) !== crc) throw new Error(`bad CRC-32 of ${path}`);
+
+    entries.push({
+      path,
+      mode: Math.floor(attributes / 0x1_00_00),
+      content: decoder.decode(content),
+    });
+  }
+  return { comment, entries };
+}
+
+describe("createArchiveStream", () => {
+  it("writes gzipped tar archives", async () => {
+    const tar = readTar(gunzipSync(await archive("tar.gz")));
+
+    expect(tar.comment).toBe(COMMIT);
+    expect(tar.entries).toEqual([
+      { path: "src/", mode: 0o775, content: "" },
+      { path: "src/a.txt", mode: 0o664, content: "hello\n".repeat(100) },
+      { path: "run.sh", mode: 0o775, content: "#!/bin/sh" },
+      { path: "link", mode: 0o777, content: "src/a.txt" },
+      { path: LONG_PATH, mode: 0o664, content: "deep" },
+    ]);
+  });
+
+  it("stores long symlink targets in pax headers", async () => {
+    const target = "../".repeat(40);
+
+    const tar = readTar(
+      gunzipSync(
+        await archive("tar.gz", [
+          { path: "up", type: "symlink", content: encoder.encode(target) },
+        ])
+      )
+    );
+
+    expect(tar.entries).toEqual([{ path: "up", mode: 0o777, content: target }]);
+  });
+
+  it("writes zip archives", async () => {
+    const zip = readZip(await archive("zip"));
+
+    expect(zip.comment).toBe(COMMIT);
+    expect(zip.entries).toEqual([
+      { path: "src/", mode: 0o04_0775, content: "" },
+      { path: "src/a.txt", mode: 0o10_0664, content: "hello\n".repeat(100) },
+      { path: "run.sh", mode: 0o10_0775, content: "#!/bin/sh" },
+      { path: "link", mode: 0o12_0777, content: "src/a.txt" },
+      { path: LONG_PATH, mode: 0o10_0664, content: "deep" },
+    ]);
+  });
+
+  it("writes empty archives", async () => {
+    expect(readTar(gunzipSync(await archive("tar.gz", []))).entries).toEqual(
+      []
+    );
+    expect(readZip(await archive("zip", []))).toEqual({
+      comment: COMMIT,
+      entries: [],
+    });
+  });
+});
+
+describe("ExportIgnore", () => {
+  it("ignores paths matching export-ignore patterns", () => {
+    const ignore = new ExportIgnore();
+    ignore.add(
+      "",
+      [
+        "# release archives",
+        "*.test.ts export-ignore",
+        "/docs/ export-ignore",
+        "*.md text",
+      ].join("\n")
+    );
+
+    expect(ignore.isIgnored("src/a.test.ts", false)).toBe(true);
+    expect(ignore.isIgnored("src/a.ts", false)).toBe(false);
+    expect(ignore.isIgnored("docs", true)).toBe(true);
+    expect(ignore.isIgnored("docs", false)).toBe(false);
+    expect(ignore.isIgnored("src/docs", true)).toBe(false);
+    expect(ignore.isIgnored("README.md", false)).toBe(false);
+  });
+
+  it("lets deeper .gitattributes files override their parents", () => {
+    const ignore = new ExportIgnore();
+    ignore.add("", "*.log export-ignore\nfixtures/ export-ignore");
+    ignore.add("tests", "keep.log -export-ignore\ncache.log !export-ignore");
+
+    expect(ignore.isIgnored("debug.log", false)).toBe(true);
+    expect(ignore.isIgnored("tests/debug.log", false)).toBe(true);
+    expect(ignore.isIgnored("tests/keep.log", false)).toBe(false);
+    expect(ignore.isIgnored("tests/cache.log", false)).toBe(false);
+    expect(ignore.isIgnored("tests/fixtures", true)).toBe(true);
+  });
+
+  it("anchors patterns with a slash to their own directory", () => {
+    const ignore = new ExportIgnore();
+    ignore.add("lib", "build/*.js export-ignore\n*.map export-ignore=yes");
+
+    expect(ignore.isIgnored("lib/build/a.js", false)).toBe(true);
+    expect(ignore.isIgnored("lib/build/a.ts", false)).toBe(false);
+    expect(ignore.isIgnored("lib/src/build/a.js", false)).toBe(false);
+    expect(ignore.isIgnored("lib/src/a.js.map", false)).toBe(true);
+    expect(ignore.isIgnored("build/a.js", false)).toBe(false);
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * Source archives of a tree, like `git archive`: tar (gzipped) and zip
+ * writers, and the `export-ignore` attribute that leaves paths out of them.
+ *
+ * @see https://git-scm.com/docs/git-archive
+ * @see https://pubs.opengroup.org/onlinepubs/9699919799/utilities/pax.html
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+// biome-ignore-all lint/suspicious/noBitwiseOperators: tar and zip headers are bit-packed
+
+import { deflateRawSync } from "node:zlib";
+import { globToRegExp } from "./filter";
+import { concatBytes, crc32 } from "./pack";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+export type ArchiveEntry = {
+  /** Slash-separated path inside the archive, without a trailing slash */
+  path: string;
+  type: "file" | "executable" | "symlink" | "directory";
+  /** File content, or the target of a symlink */
+  content: Uint8Array;
+};
+
+export type ArchiveOptions = {
+  /** Stored in the archive comment, as git does */
+  commitOid: string;
+  /** Modification time of every entry, in seconds since the epoch */
+  mtime: number;
+};
+
+/** Permissions of `git archive` with the default `tar.umask` of 002 */
+const MODES: Record<ArchiveEntry["type"], number> = {
+  file: 0o10_0664,
+  executable: 0o10_0775,
+  symlink: 0o12_0777,
+  directory: 0o04_0775,
+};
+
+const TAR_TYPEFLAGS: Record<ArchiveEntry["type"], string> = {
+  file: "0",
+  executable: "0",
+  symlink: "2",
+  directory: "5",
+};
+
+const BLOCK_SIZE = 512;
+
+/** Largest size or offset a zip without Zip64 extensions can hold */
+const ZIP_MAX_SIZE = 0xff_ff_ff_ff;
+
+/** Largest number of entries a zip without Zip64 extensions can hold */
+const ZIP_MAX_ENTRIES = 0xff_ff;
+
+const encoder = new TextEncoder();
+
+/**
+ * Stream an archive of the entries, in the order they are yielded.
+ */
+export function createArchiveStream(
+  format: ArchiveFormat,
+  entries: AsyncIterable<ArchiveEntry>,
+  options: ArchiveOptions
+): ReadableStream<Uint8Array> {
+  const chunks =
+    format === "zip"
+      ? zipChunks(entries, options)
+      : tarChunks(entries, options);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  if (format === "zip") return stream;
+  return stream.pipeThrough(
+    new CompressionStream("gzip") as TransformStream<Uint8Array, Uint8Array>
+  );
+}
+
+function writeString(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: string | Uint8Array
+) {
+  const bytes = typeof value === "string" ? encoder.encode(value) : value;
+  header.set(bytes.subarray(0, length), offset);
+}
+
+/**
+ * Write a zero-padded, NUL-terminated octal number into a tar header field.
+ */
+function writeOctal(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: number
+) {
+  writeString(
+    header,
+    offset,
+    length,
+    `${value.toString(8).padStart(length - 1, "0")}\0`
+  );
+}
+
+function padToBlock(size: number) {
+  const remainder = size % BLOCK_SIZE;
+  return new Uint8Array(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+/**
+ * Encode a pax extended header record, `<length> <key>=<value>\n`, where the
+ * length counts the whole record including its own digits.
+ */
+function paxRecord(key: string, value: string) {
+  const body = encoder.encode(` ${key}=${value}\n`).length;
+  let length = body + String(body).length;
+  if (String(length).length !== String(body).length) {
+    length = body + String(length).length;
+  }
+  return `${length} ${key}=${value}\n`;
+}
+
+function tarHeader(args: {
+  name: Uint8Array;
+  mode: number;
+  size: number;
+  mtime: number;
+  typeflag: string;
+  linkname?: Uint8Array;
+}) {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeString(header, 0, 100, args.name);
+  writeOctal(header, 100, 8, args.mode & 0o7777);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, args.size);
+  writeOctal(header, 136, 12, args.mtime);
+  writeString(header, 156, 1, args.typeflag);
+  if (args.linkname) {
+    writeString(header, 157, 100, args.linkname);
+  }
+  writeString(header, 257, 8, "ustar\x0000");
+  writeString(header, 265, 32, "root");
+  writeString(header, 297, 32, "root");
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+/**
+ * Encode a pax header of the given type with its records, padded to whole
+ * blocks.
+ */
+function paxHeader(args: {
+  name: string;
+  typeflag: "g" | "x";
+  mtime: number;
+  records: string[];
+}) {
+  const content = encoder.encode(args.records.join(""));
+  return concatBytes([
+    tarHeader({
+      name: encoder.encode(args.name),
+      mode: 0o666,
+      size: content.length,
+      mtime: args.mtime,
+      typeflag: args.typeflag,
+    }),
+    content,
+    padToBlock(content.length),
+  ]);
+}
+
+async function* tarChunks(
+  entries: AsyncIterable<ArchiveEntry>,
+  options: ArchiveOptions
+): AsyncGenerator<Uint8Array> {
+  const { mtime } = options;
+  yield paxHeader({
+    name: "pax_global_header",
+    typeflag: "g",
+    mtime,
+    records: [paxRecord("comment", options.commitOid)],
+  });
+
+  for await (const entry of entries) {
+    const path = entry.type === "directory" ? `${entry.path}/` : entry.path;
+    const name = encoder.encode(path);
+    const isSymlink = entry.type === "symlink";
+
+    // Paths that don't fit the ustar fields are stored in a pax header
+    const records: string[] = [];
+    if (name.length > 100) {
+      records.push(paxRecord("path", path));
+    }
+    if (isSymlink && entry.content.length > 100) {
+      records.push(
+        paxRecord("linkpath", new TextDecoder().decode(entry.content))
+      );
+    }
+    if (records.length > 0) {
+      yield paxHeader({ name: "PaxHeader", typeflag: "x", mtime, records });
+    }
+
+    const size =
+      entry.type === "file" || entry.type === "executable"
+        ? entry.content.length
+        : 0;
+    yield tarHeader({
+      name,
+      mode: MODES[entry.type],
+      size,
+      mtime,
+      typeflag: TAR_TYPEFLAGS[entry.type],
+      linkname: isSymlink ? entry.content : undefined,
+    });
+    if (size > 0) {
+      yield entry.content;
+      yield padToBlock(size);
+    }
+  }
+
+  // The end of the archive is marked by two empty blocks
+  yield new Uint8Array(BLOCK_SIZE * 2);
+}
+
+/**
+ * Convert a timestamp to MS-DOS date and time, which zip headers use. DOS
+ * time starts in 1980 and has a two-second resolution.
+ */
+function toDosDateTime(mtime: number) {
+  const date = new Date(Math.max(mtime * 1000, Date.UTC(1980, 0, 1)));
+  return {
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      (date.getUTCSeconds() >> 1),
+    date:
+      ((date.getUTCFullYear() - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+}
+
+/** Zip entry flag for UTF-8 names */
+const ZIP_FLAG_UTF8 = 0x08_00;
+
+const ZIP_METHOD_STORE = 0;
+const ZIP_METHOD_DEFLATE = 8;
+
+/** Version 2.0, the first with deflate and directories */
+const ZIP_VERSION = 20;
+
+/** Made by a Unix host, so external attributes hold the file mode */
+const ZIP_VERSION_MADE_BY = (3 << 8) | ZIP_VERSION;
+
+/** MS-DOS directory attribute */
+const ZIP_ATTRIBUTE_DIRECTORY = 0x10;
+
+type ZipCentralEntry = {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  externalAttributes: number;
+  offset: number;
+};
+
+async function* zipChunks(
+  entries: AsyncIterable<ArchiveEntry>,
+  options: ArchiveOptions
+): AsyncGenerator<Uint8Array> {
+  const { time, date } = toDosDateTime(options.mtime);
+  const central: ZipCentralEntry[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const isDirectory = entry.type === "directory";
+    const name = encoder.encode(isDirectory ? `${entry.path}/` : entry.path);
+
+    // Symlink targets are stored as is, like git does
+    let data = entry.content;
+    let method = ZIP_METHOD_STORE;
+    if (entry.type === "file" || entry.type === "executable") {
+      const deflated = new Uint8Array(deflateRawSync(entry.content));
+      if (deflated.length < entry.content.length) {
+        data = deflated;
+        method = ZIP_METHOD_DEFLATE;
+      }
+    }
+
+    if (central.length === ZIP_MAX_ENTRIES) {
+      throw new Error("too many files for a zip archive, use tar.gz");
+    }
+    if (offset + 30 + name.length + data.length > ZIP_MAX_SIZE) {
+      throw new Error("archive too large for zip, use tar.gz");
+    }
+
+    const record: ZipCentralEntry = {
+      name,
+      method,
+      crc: crc32(entry.content),
+      compressedSize: data.length,
+      size: entry.content.length,
+      externalAttributes:
+        ((MODES[entry.type] << 16) >>> 0) |
+        (isDirectory ? ZIP_ATTRIBUTE_DIRECTORY : 0),
+      offset,
+    };
+    central.push(record);
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04_03_4b_50, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, ZIP_FLAG_UTF8, true);
+    view.setUint16(8, method, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, record.crc, true);
+    view.setUint32(18, record.compressedSize, true);
+    view.setUint32(22, record.size, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, 0, true);
+    header.set(name, 30);
+
+    yield header;
+    if (data.length > 0) {
+      yield data;
+    }
+    offset += header.length + data.length;
+  }
+
+  const directoryOffset = offset;
+  for (const record of central) {
+    const header = new Uint8Array(46 + record.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x02_01_4b_50, true);
+    view.setUint16(4, ZIP_VERSION_MADE_BY, true);
+    view.setUint16(6, ZIP_VERSION, true);
+    view.setUint16(8, ZIP_FLAG_UTF8, true);
+    view.setUint16(10, record.method, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, record.crc, true);
+    view.setUint32(20, record.compressedSize, true);
+    view.setUint32(24, record.size, true);
+    view.setUint16(28, record.name.length, true);
+    // Extra field, comment, disk number and internal attributes are empty
+    view.setUint32(38, record.externalAttributes, true);
+    view.setUint32(42, record.offset, true);
+    header.set(record.name, 46);
+
+    yield header;
+    offset += header.length;
+  }
+
+  if (offset > ZIP_MAX_SIZE) {
+    throw new Error("archive too large for zip, use tar.gz");
+  }
+
+  const comment = encoder.encode(options.commitOid);
+  const end = new Uint8Array(22 + comment.length);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06_05_4b_50, true);
+  view.setUint16(8, central.length, true);
+  view.setUint16(10, central.length, true);
+  view.setUint32(12, offset - directoryOffset, true);
+  view.setUint32(16, directoryOffset, true);
+  view.setUint16(20, comment.length, true);
+  end.set(comment, 22);
+  yield end;
+}
+
+type ExportIgnoreRule = {
+  regex: RegExp;
+  directoryOnly: boolean;
+  /** Whether matching paths are ignored, or null to unspecify the attribute */
+  ignored: boolean | null;
+};
+
+/**
+ * The `export-ignore` attribute from `.gitattributes` files. A file's rules
+ * apply to paths below its directory, the last matching line wins and files
+ * in deeper directories override their parents.
+ * @see https://git-scm.com/docs/gitattributes#_creating_an_archive
+ */
+export class ExportIgnore {
+  private readonly rules = new Map<string, ExportIgnoreRule[]>();
+
+  /**
+   * Add the rules of a `.gitattributes` file.
+   *
+   * @param directory - Directory of the file, empty for the root
+   */
+  add(directory: string, text: string) {
+    const rules: ExportIgnoreRule[] = [];
+    for (const rawLine of text.split("\n")) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith("#") || line.startsWith("[attr]")) continue;
+
+      const [rawPattern, ...attributes] = line.split(/\s+/);
+      let ignored: boolean | null | undefined;
+      for (const attribute of attributes) {
+        if (attribute === "export-ignore") {
+          ignored = true;
+        } else if (attribute === "-export-ignore") {
+          ignored = false;
+        } else if (attribute === "!export-ignore") {
+          ignored = null;
+        } else if (attribute.startsWith("export-ignore=")) {
+          ignored = true;
+        }
+      }
+      if (ignored === undefined) continue;
+
+      let pattern = rawPattern;
+      const directoryOnly = pattern.endsWith("/");
+      if (directoryOnly) pattern = pattern.slice(0, -1);
+      const anchored = pattern.includes("/");
+      if (pattern.startsWith("/")) pattern = pattern.slice(1);
+      if (!pattern) continue;
+
+      rules.push({
+        regex: globToRegExp(pattern, anchored),
+        directoryOnly,
+        ignored,
+      });
+    }
+    if (rules.length > 0) {
+      this.rules.set(directory, rules);
+    }
+  }
+
+  /**
+   * Whether a path is left out of archives. Directories that are ignored
+   * leave out everything below them.
+   *
+   * @param path - Slash-separated path relative to the repository root
+   */
+  isIgnored(path: string, isDirectory: boolean): boolean {
+    const segments = path.split("/");
+    let ignored: boolean | null = null;
+
+    for (let depth = 0; depth < segments.length; depth += 1) {
+      const rules = this.rules.get(segments.slice(0, depth).join("/"));
+      if (!rules) continue;
+
+      const relative = segments.slice(depth).join("/");
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (rule.regex.test(relative)) {
+          ignored = rule.ignored;
+        }
+      }
+    }
+    return ignored === true;
+  }
+}
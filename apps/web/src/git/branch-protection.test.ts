@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  type BranchProtectionRule,
+  decodePushPolicy,
+  encodePushPolicy,
+  findBranchProtection,
+} from "./branch-protection";
+
+function rule(pattern: string): BranchProtectionRule {
+  return {
+    pattern,
+    allowDeletion: false,
+    allowForcePush: false,
+    requireLinearHistory: false,
+    requireSignedPush: false,
+  };
+}
+
+describe("findBranchProtection", () => {
+  const rules = [rule("release/*"), rule("**"), rule("main"), rule("ma*")];
+
+  it("prefers an exact branch name over globs", () => {
+    expect(findBranchProtection(rules, "refs/heads/main")?.pattern).toBe(
+      "main"
+    );
+  });
+
+  it("prefers the longest matching glob", () => {
+    expect(findBranchProtection(rules, "refs/heads/release/1.0")?.pattern).toBe(
+      "release/*"
+    );
+    expect(findBranchProtection(rules, "refs/heads/master")?.pattern).toBe(
+      "ma*"
+    );
+  });
+
+  it("only matches nested branches with **", () => {
+    expect(
+      findBranchProtection([rule("*")], "refs/heads/feature/x")
+    ).toBeNull();
+    expect(findBranchProtection(rules, "refs/heads/feature/x")?.pattern).toBe(
+      "**"
+    );
+  });
+
+  it("does not protect tags or other refs", () => {
+    expect(findBranchProtection(rules, "refs/tags/main")).toBeNull();
+    expect(findBranchProtection(rules, "refs/notes/commits")).toBeNull();
+  });
+});
+
+describe("encodePushPolicy", () => {
+  it("round-trips through headers", () => {
+    const policy = {
+      pusher: "alice",
+      token: "token",
+      rules: [rule("main")],
+      signingKeys: [{ type: "ssh" as const, key: "ssh-ed25519 AAAA" }],
+    };
+
+    expect(decodePushPolicy(new Headers(encodePushPolicy(policy)))).toEqual(
+      policy
+    );
+  });
+
+  it("rejects missing or malformed rules", () => {
+    const headers = new Headers(
+      encodePushPolicy({
+        pusher: null,
+        token: null,
+        rules: [],
+        signingKeys: [],
+      })
+    );
+    expect(decodePushPolicy(headers)).toEqual({
+      pusher: null,
+      token: null,
+      rules: [],
+      signingKeys: [],
+    });
+
+    headers.set("X-Gitvex-Branch-Protection", "{");
+    expect(decodePushPolicy(headers)).toBeNull();
+    headers.delete("X-Gitvex-Branch-Protection");
+    expect(decodePushPolicy(headers)).toBeNull();
+  });
+});
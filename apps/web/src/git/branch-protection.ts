@@ -0,0 +1,113 @@
+/**
+ * Per-repository branch protection, enforced when refs are updated by a push.
+ * Rules are stored in Convex and handed to the repository Durable Object along
+ * with the push, see {@link PushPolicy}.
+ */
+
+import { globToRegExp } from "./filter";
+import type { SigningKey } from "./signature";
+
+export type BranchProtectionRule = {
+  /** Branch name glob, e.g. `main` or `release/*` (`**` also matches "/") */
+  pattern: string;
+  allowDeletion: boolean;
+  allowForcePush: boolean;
+  /** Reject pushes that add merge commits */
+  requireLinearHistory: boolean;
+  /** Reject pushes without a verified push certificate (`git push --signed`) */
+  requireSignedPush: boolean;
+};
+
+export type PushPolicy = {
+  /** Username of the authenticated pusher */
+  pusher: string | null;
+  /**
+   * Token the pusher authenticated with, for actions taken on their behalf
+   * after the push (e.g. opening a pull request with `-o pr.create`)
+   */
+  token: string | null;
+  rules: BranchProtectionRule[];
+  /** Keys the pusher's push certificates are verified against */
+  signingKeys: SigningKey[];
+  /**
+   * Fingerprint of the key that signed the push certificate, set by the
+   * repository once the certificate has been verified
+   */
+  signer?: string;
+};
+
+const PUSHER_HEADER = "X-Gitvex-Pusher";
+const PUSH_TOKEN_HEADER = "X-Gitvex-Push-Token";
+const BRANCH_PROTECTION_HEADER = "X-Gitvex-Branch-Protection";
+const SIGNING_KEYS_HEADER = "X-Gitvex-Signing-Keys";
+
+/**
+ * Headers carrying a push policy from the worker to the repository.
+ */
+export function encodePushPolicy(policy: PushPolicy): Record<string, string> {
+  return {
+    [PUSHER_HEADER]: policy.pusher ?? "",
+    [PUSH_TOKEN_HEADER]: policy.token ?? "",
+    [BRANCH_PROTECTION_HEADER]: JSON.stringify(policy.rules),
+    [SIGNING_KEYS_HEADER]: JSON.stringify(policy.signingKeys),
+  };
+}
+
+function decodeJsonList<T>(headers: Headers, name: string): T[] | null {
+  try {
+    const parsed = JSON.parse(headers.get(name) ?? "");
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the push policy set with {@link encodePushPolicy}.
+ *
+ * @returns The policy, or null if the rules or signing keys are missing or
+ * malformed, in which case the push must be rejected rather than run
+ * unprotected
+ */
+export function decodePushPolicy(headers: Headers): PushPolicy | null {
+  const rules = decodeJsonList<BranchProtectionRule>(
+    headers,
+    BRANCH_PROTECTION_HEADER
+  );
+  const signingKeys = decodeJsonList<SigningKey>(headers, SIGNING_KEYS_HEADER);
+  if (!(rules && signingKeys)) return null;
+
+  return {
+    pusher: headers.get(PUSHER_HEADER) || null,
+    token: headers.get(PUSH_TOKEN_HEADER) || null,
+    rules,
+    signingKeys,
+  };
+}
+
+/**
+ * Find the rule protecting a ref. Only branches (`refs/heads/*`) are
+ * protected. When several patterns match, an exact branch name wins over
+ * globs, then the longest pattern.
+ *
+ * @param rules - Rules of the repository
+ * @param ref - Full ref name
+ * @returns The matching rule, or null if the ref is not protected
+ */
+export function findBranchProtection(
+  rules: BranchProtectionRule[],
+  ref: string
+): BranchProtectionRule | null {
+  if (!ref.startsWith("refs/heads/")) return null;
+  const branch = ref.slice("refs/heads/".length);
+
+  let match: BranchProtectionRule | null = null;
+  for (const rule of rules) {
+    if (rule.pattern === branch) return rule;
+    if (!globToRegExp(rule.pattern, true).test(branch)) continue;
+    if (!match || rule.pattern.length > match.pattern.length) {
+      match = rule;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { streamOf } from "@/test/packs";
+import { type BundleHeader, encodeBundleHeader, readBundle } from "./bundle";
+import { concatBytes } from "./pack";
+
+const A = "a".repeat(40);
+const B = "b".repeat(40);
+
+const encoder = new TextEncoder();
+
+async function read(text: string, chunkSize = 3) {
+  const { header, packfile } = await readBundle(
+    streamOf(encoder.encode(text), chunkSize)
+  );
+  return { header, packfile: await new Response(packfile).text() };
+}
+
+describe("encodeBundleHeader", () => {
+  it("writes v2 headers", () => {
+    const header = encodeBundleHeader({
+      version: 2,
+      prerequisites: [{ oid: A, comment: "base commit" }],
+      refs: [{ ref: "refs/heads/main", oid: B }],
+    });
+
+    expect(new TextDecoder().decode(header)).toBe(
+      `# v2 git bundle\n-${A} base commit\n${B} refs/heads/main\n\n`
+    );
+  });
+
+  it("writes the object format in v3 headers", () => {
+    const header = encodeBundleHeader({
+      version: 3,
+      prerequisites: [{ oid: A, comment: "" }],
+      refs: [{ ref: "HEAD", oid: B }],
+    });
+
+    expect(new TextDecoder().decode(header)).toBe(
+      `# v3 git bundle\n@object-format=sha1\n-${A}\n${B} HEAD\n\n`
+    );
+  });
+});
+
+describe("readBundle", () => {
+  it.each<BundleHeader>([
+    {
+      version: 2,
+      prerequisites: [{ oid: A, comment: "base commit" }],
+      refs: [
+        { ref: "HEAD", oid: B },
+        { ref: "refs/heads/main", oid: B },
+      ],
+    },
+    { version: 3, prerequisites: [], refs: [{ ref: "refs/tags/v1", oid: A }] },
+  ])("reads the headers it writes, then the packfile", async (header) => {
+    const bundle = concatBytes([
+      encodeBundleHeader(header),
+      encoder.encode("PACK\n\ndata"),
+    ]);
+
+    const result = await readBundle(streamOf(bundle, 3));
+
+    expect(result.header).toEqual(header);
+    expect(await new Response(result.packfile).text()).toBe("PACK\n\ndata");
+  });
+
+  it("reads bundles without objects", async () => {
+    expect(await read(`# v2 git bundle\n${A} refs/heads/main\n\n`)).toEqual({
+      header: {
+        version: 2,
+        prerequisites: [],
+        refs: [{ ref: "refs/heads/main", oid: A }],
+      },
+      packfile: "",
+    });
+  });
+
+  it.each([
+    ["other files", "hello\n\nworld", "not a v2 or v3 git bundle"],
+    ["v1 bundles", "# v1 git bundle\n\n", "not a v2 or v3 git bundle"],
+    [
+      "SHA-256 bundles",
+      "# v3 git bundle\n@object-format=sha256\n\n",
+      "unsupported bundle object format 'sha256'",
+    ],
+    [
+      "partial bundles",
+      "# v3 git bundle\n@filter=blob:none\n\n",
+      "unsupported bundle capability 'filter=blob:none'",
+    ],
+    [
+      "refs without a name",
+      `# v2 git bundle\n${A}\n\n`,
+      `malformed bundle header line '${A}'`,
+    ],
+    [
+      "invalid object ids",
+      "# v2 git bundle\nabc refs/heads/main\n\n",
+      "invalid object id 'abc'",
+    ],
+    [
+      "truncated headers",
+      `# v2 git bundle\n${A} refs/heads/main\n`,
+      "bundle ended before its header",
+    ],
+  ])("rejects %s", async (_, text, message) => {
+    await expect(read(text)).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Git bundles: a header listing refs, followed by a packfile with the objects
+ * they reach. Bundles can be cloned and fetched from like a repository.
+ * @see https://git-scm.com/docs/gitformat-bundle
+ */
+
+import { isObjectId } from "./oid";
+import { concatBytes } from "./pack";
+
+export type BundleVersion = 2 | 3;
+
+export type BundleHeader = {
+  version: BundleVersion;
+  /** Objects the bundle's objects depend on, which the receiver must have */
+  prerequisites: Array<{ oid: string; comment: string }>;
+  refs: Array<{ ref: string; oid: string }>;
+};
+
+const SIGNATURES: Record<BundleVersion, string> = {
+  2: "# v2 git bundle",
+  3: "# v3 git bundle",
+};
+
+/** Headers are a few lines per ref, this is only reached by garbage input */
+const MAX_HEADER_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Encode a bundle header, to be followed by the packfile.
+ */
+export function encodeBundleHeader(header: BundleHeader): Uint8Array {
+  const lines = [SIGNATURES[header.version]];
+  if (header.version === 3) {
+    lines.push("@object-format=sha1");
+  }
+  for (const { oid, comment } of header.prerequisites) {
+    lines.push(comment ? `-${oid} ${comment}` : `-${oid}`);
+  }
+  for (const { ref, oid } of header.refs) {
+    lines.push(`${oid} ${ref}`);
+  }
+
+  return new TextEncoder().encode(`${lines.join("\n")}\n\n`);
+}
+
+function parseBundleHeader(text: string): BundleHeader {
+  const [signature, ...lines] = text.split("\n");
+  const version = ([2, 3] as const).find(
+    (candidate) => SIGNATURES[candidate] === signature
+  );
+  if (!version) {
+    throw new Error("not a v2 or v3 git bundle");
+  }
+
+  const header: BundleHeader = {
+    version,
+    prerequisites: [],
+    refs: [],
+  };
+
+  for (const line of lines) {
+    if (line.startsWith("@") && version === 3) {
+      const [key, value] = line.slice(1).split("=", 2);
+      if (key === "object-format") {
+        if (value !== "sha1") {
+          throw new Error(`unsupported bundle object format '${value}'`);
+        }
+        continue;
+      }
+      // Unknown capabilities (e.g. `filter` for partial bundles) change how
+      // the bundle must be read
+      throw new Error(`unsupported bundle capability '${line.slice(1)}'`);
+    }
+
+    if (line.startsWith("-")) {
+      const [oid, ...comment] = line.slice(1).split(" ");
+      header.prerequisites.push({ oid, comment: comment.join(" ") });
+      continue;
+    }
+
+    const [oid, ref] = line.split(" ", 2);
+    if (!ref) {
+      throw new Error(`malformed bundle header line '${line}'`);
+    }
+    header.refs.push({ ref, oid });
+  }
+
+  for (const { oid } of [...header.prerequisites, ...header.refs]) {
+    if (!isObjectId(oid)) {
+      throw new Error(`invalid object id '${oid}'`);
+    }
+  }
+  return header;
+}
+
+/**
+ * Read a bundle's header.
+ *
+ * @returns The header, and the packfile that follows it
+ * @throws If the stream doesn't start with a valid bundle header
+ */
+export async function readBundle(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  let buffered: Uint8Array = new Uint8Array();
+  let headerEnd = -1;
+  let scanned = 1;
+
+  // The header ends with an empty line
+  while (headerEnd === -1) {
+    const { value, done } = await reader.read();
+    if (done) {
+      throw new Error("bundle ended before its header");
+    }
+    buffered = concatBytes([buffered, value]);
+
+    for (; scanned < buffered.length; scanned += 1) {
+      if (buffered[scanned] === 0x0a && buffered[scanned - 1] === 0x0a) {
+        headerEnd = scanned - 1;
+        break;
+      }
+    }
+    if (headerEnd === -1 && buffered.length > MAX_HEADER_SIZE) {
+      throw new Error("bundle header is too large");
+    }
+  }
+
+  const header = parseBundleHeader(
+    new TextDecoder().decode(buffered.subarray(0, headerEnd))
+  );
+
+  const rest = buffered.subarray(headerEnd + 2);
+  const packfile = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (rest.length > 0) controller.enqueue(rest);
+    },
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { header, packfile };
+}
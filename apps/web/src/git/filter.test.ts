@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  createObjectFilter,
+  type FilterSpec,
+  parseFilterSpec,
+  SparsePatterns,
+} from "./filter";
+
+describe("parseFilterSpec", () => {
+  it.each<[string, FilterSpec]>([
+    ["blob:none", { kind: "blob:none" }],
+    ["blob:limit=100", { kind: "blob:limit", limit: 100 }],
+    ["blob:limit=2k", { kind: "blob:limit", limit: 2048 }],
+    ["blob:limit=1M", { kind: "blob:limit", limit: 1024 * 1024 }],
+    ["tree:0", { kind: "tree", depth: 0 }],
+    [
+      "sparse:oid=main:.sparse",
+      { kind: "sparse:oid", blobish: "main:.sparse" },
+    ],
+    [
+      "combine:blob:none+tree:3",
+      {
+        kind: "combine",
+        filters: [{ kind: "blob:none" }, { kind: "tree", depth: 3 }],
+      },
+    ],
+    [
+      "combine:blob%3Alimit%3D1k+tree:1",
+      {
+        kind: "combine",
+        filters: [
+          { kind: "blob:limit", limit: 1024 },
+          { kind: "tree", depth: 1 },
+        ],
+      },
+    ],
+  ])("parses %s", (spec, expected) => {
+    expect(parseFilterSpec(spec)).toEqual(expected);
+  });
+
+  it.each([
+    "blob:limit=",
+    "blob:limit=1x",
+    "tree:-1",
+    "tree:deep",
+    "sparse:oid=",
+    "combine:",
+  ])("rejects %s", (spec) => {
+    expect(() => parseFilterSpec(spec)).toThrow(
+      `invalid filter-spec '${spec}'`
+    );
+  });
+
+  it("rejects unknown filters", () => {
+    expect(() => parseFilterSpec("object:type=blob")).toThrow(
+      "unsupported filter-spec 'object:type=blob'"
+    );
+  });
+});
+
+describe("SparsePatterns", () => {
+  it("includes paths matched by the last matching pattern", () => {
+    const patterns = new SparsePatterns(
+      ["# docs only", "/docs/", "!/docs/drafts/", "*.md"].join("\n")
+    );
+
+    expect(patterns.matches("docs/guide/intro.txt")).toBe(true);
+    expect(patterns.matches("docs/drafts/next.txt")).toBe(false);
+    expect(patterns.matches("docs/drafts/next.md")).toBe(true);
+    expect(patterns.matches("src/README.md")).toBe(true);
+    expect(patterns.matches("src/index.ts")).toBe(false);
+  });
+
+  it("only applies directory patterns to directories", () => {
+    const patterns = new SparsePatterns("build/\n");
+
+    expect(patterns.matches("build")).toBe(false);
+    expect(patterns.matches("build/out.js")).toBe(true);
+    expect(patterns.matches("src/build/out.js")).toBe(true);
+  });
+
+  it("matches ** across directories", () => {
+    const patterns = new SparsePatterns("src/**/test/*.ts\n");
+
+    expect(patterns.matches("src/test/a.ts")).toBe(true);
+    expect(patterns.matches("src/a/b/test/a.ts")).toBe(true);
+    expect(patterns.matches("lib/src/test/a.ts")).toBe(false);
+  });
+});
+
+describe("createObjectFilter", () => {
+  const noSparsePatterns = async () => new SparsePatterns("");
+
+  function blob(path: string, depth: number, size = 0) {
+    return { path, depth, size: async () => size };
+  }
+
+  it("filters blobs by size", async () => {
+    const filter = await createObjectFilter(
+      parseFilterSpec("blob:limit=1k"),
+      noSparsePatterns
+    );
+
+    expect(await filter.includeBlob(blob("a", 0, 1023))).toBe(true);
+    expect(await filter.includeBlob(blob("a", 0, 1024))).toBe(false);
+  });
+
+  it("filters trees and blobs by depth", async () => {
+    const filter = await createObjectFilter(
+      parseFilterSpec("tree:1"),
+      noSparsePatterns
+    );
+
+    expect(filter.includeTree(0)).toBe(true);
+    expect(filter.includeTree(1)).toBe(false);
+    expect(await filter.includeBlob(blob("a", 0))).toBe(true);
+    expect(await filter.includeBlob(blob("dir/a", 1))).toBe(false);
+  });
+
+  it("filters blobs by the sparse patterns it loads", async () => {
+    const loaded: string[] = [];
+    const filter = await createObjectFilter(
+      parseFilterSpec("sparse:oid=HEAD:.sparse"),
+      async (blobish) => {
+        loaded.push(blobish);
+        return new SparsePatterns("/docs/\n");
+      }
+    );
+
+    expect(loaded).toEqual(["HEAD:.sparse"]);
+    expect(await filter.includeBlob(blob("docs/a.md", 1))).toBe(true);
+    expect(await filter.includeBlob(blob("src/a.ts", 1))).toBe(false);
+  });
+
+  it("includes only objects every combined filter includes", async () => {
+    const filter = await createObjectFilter(
+      parseFilterSpec("combine:blob:limit=10+tree:2"),
+      noSparsePatterns
+    );
+
+    expect(filter.includeTree(1)).toBe(true);
+    expect(filter.includeTree(2)).toBe(false);
+    expect(await filter.includeBlob(blob("a/b", 1, 5))).toBe(true);
+    expect(await filter.includeBlob(blob("a/b", 1, 50))).toBe(false);
+    expect(await filter.includeBlob(blob("a/b/c", 2, 5))).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Object filters for partial clone (`git clone --filter=<spec>`).
+ *
+ * @see https://git-scm.com/docs/git-rev-list#Documentation/git-rev-list.txt---filterltfilter-specgt
+ * @see https://git-scm.com/docs/partial-clone
+ */
+
+export type FilterSpec =
+  | { kind: "blob:none" }
+  | { kind: "blob:limit"; limit: number }
+  | { kind: "tree"; depth: number }
+  | { kind: "sparse:oid"; blobish: string }
+  | { kind: "combine"; filters: FilterSpec[] };
+
+export type ObjectFilter = {
+  /**
+   * Whether a tree at the given depth should be sent.
+   * The root tree of a commit is at depth 0.
+   */
+  includeTree: (depth: number) => boolean;
+  /**
+   * Whether a blob should be sent.
+   * `size` is only called for filters that need it, since it requires reading the blob.
+   */
+  includeBlob: (args: {
+    path: string;
+    depth: number;
+    size: () => Promise<number>;
+  }) => Promise<boolean>;
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024,
+};
+
+/**
+ * Parse a filter-spec sent with the `filter` fetch argument.
+ *
+ * @param spec - e.g. `blob:none`, `blob:limit=1m`, `tree:0`, `sparse:oid=<oid>`
+ * @returns Parsed filter spec
+ * @throws Error if the spec is invalid or unsupported
+ */
+export function parseFilterSpec(spec: string): FilterSpec {
+  if (spec === "blob:none") {
+    return { kind: "blob:none" };
+  }
+
+  if (spec.startsWith("blob:limit=")) {
+    const match = spec
+      .slice("blob:limit=".length)
+      .toLowerCase()
+      .match(/^(\d+)([kmg]?)$/);
+    if (!match) {
+      throw new Error(`invalid filter-spec '${spec}'`);
+    }
+    return {
+      kind: "blob:limit",
+      limit: Number.parseInt(match[1], 10) * SIZE_UNITS[match[2]],
+    };
+  }
+
+  if (spec.startsWith("tree:")) {
+    const depth = Number.parseInt(spec.slice("tree:".length), 10);
+    if (Number.isNaN(depth) || depth < 0) {
+      throw new Error(`invalid filter-spec '${spec}'`);
+    }
+    return { kind: "tree", depth };
+  }
+
+  if (spec.startsWith("sparse:oid=")) {
+    const blobish = spec.slice("sparse:oid=".length);
+    if (!blobish) {
+      throw new Error(`invalid filter-spec '${spec}'`);
+    }
+    return { kind: "sparse:oid", blobish };
+  }
+
+  if (spec.startsWith("combine:")) {
+    // Sub-filters are separated by "+" and URL-encoded
+    const filters = spec
+      .slice("combine:".length)
+      .split("+")
+      .filter(Boolean)
+      .map((part) => parseFilterSpec(decodeURIComponent(part)));
+    if (filters.length === 0) {
+      throw new Error(`invalid filter-spec '${spec}'`);
+    }
+    return { kind: "combine", filters };
+  }
+
+  throw new Error(`unsupported filter-spec '${spec}'`);
+}
+
+/**
+ * Convert a single gitignore-style glob into a regular expression.
+ * `*` does not match "/", `**` does.
+ *
+ * @param anchored - Match from the start instead of at any directory level
+ */
+export function globToRegExp(glob: string, anchored: boolean) {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const followedBySlash = glob[i + 2] === "/";
+        source += followedBySlash ? "(?:.*/)?" : ".*";
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += glob.slice(i, end + 1).replace("[!", "[^");
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}$`);
+}
+
+type SparsePattern = {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+};
+
+/**
+ * Sparse-checkout patterns (non-cone mode) used by the `sparse:oid` filter.
+ * Follows gitignore semantics: the last matching pattern wins, and a pattern
+ * matching a directory applies to everything below it.
+ */
+export class SparsePatterns {
+  private readonly patterns: SparsePattern[] = [];
+
+  constructor(text: string) {
+    for (const rawLine of text.split("\n")) {
+      let line = rawLine.replace(/\r$/, "").trimEnd();
+      if (!line || line.startsWith("#")) continue;
+
+      const negated = line.startsWith("!");
+      if (negated) line = line.slice(1);
+
+      const directoryOnly = line.endsWith("/");
+      if (directoryOnly) line = line.slice(0, -1);
+
+      const anchored = line.includes("/");
+      if (line.startsWith("/")) line = line.slice(1);
+      if (!line) continue;
+
+      this.patterns.push({
+        regex: globToRegExp(line, anchored),
+        negated,
+        directoryOnly,
+      });
+    }
+  }
+
+  /**
+   * Whether a file path is included by the patterns.
+   *
+   * @param path - Slash-separated path relative to the repository root
+   */
+  matches(path: string): boolean {
+    const segments = path.split("/");
+    let included = false;
+
+    for (const pattern of this.patterns) {
+      let matched = false;
+      for (let i = 1; i <= segments.length && !matched; i += 1) {
+        const isDirectory = i < segments.length;
+        if (pattern.directoryOnly && !isDirectory) continue;
+        matched = pattern.regex.test(segments.slice(0, i).join("/"));
+      }
+      if (matched) {
+        included = !pattern.negated;
+      }
+    }
+
+    return included;
+  }
+}
+
+/**
+ * Build an object filter from a parsed filter spec.
+ *
+ * @param spec - Parsed filter spec
+ * @param loadSparsePatterns - Loads the patterns blob referenced by `sparse:oid`
+ */
+export async function createObjectFilter(
+  spec: FilterSpec,
+  loadSparsePatterns: (blobish: string) => Promise<SparsePatterns>
+): Promise<ObjectFilter> {
+  switch (spec.kind) {
+    case "blob:none":
+      return {
+        includeTree: () => true,
+        includeBlob: async () => false,
+      };
+    case "blob:limit":
+      return {
+        includeTree: () => true,
+        includeBlob: async ({ size }) => (await size()) < spec.limit,
+      };
+    case "tree":
+      return {
+        includeTree: (depth) => depth < spec.depth,
+        includeBlob: async ({ depth }) => depth < spec.depth,
+      };
+    case "sparse:oid": {
+      const patterns = await loadSparsePatterns(spec.blobish);
+      return {
+        includeTree: () => true,
+        includeBlob: async ({ path }) => patterns.matches(path),
+      };
+    }
+    case "combine": {
+      const filters = await Promise.all(
+        spec.filters.map((filter) =>
+          createObjectFilter(filter, loadSparsePatterns)
+        )
+      );
+      return {
+        includeTree: (depth) =>
+          filters.every((filter) => filter.includeTree(depth)),
+        includeBlob: async (args) => {
+          for (const filter of filters) {
+            if (!(await filter.includeBlob(args))) return false;
+          }
+          return true;
+        },
+      };
+    }
+    default:
+      throw new Error("unsupported filter-spec");
+  }
+}
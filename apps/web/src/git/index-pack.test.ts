@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  fullEntry,
+  noise,
+  ofsDeltaEntry,
+  packOf,
+  refDeltaEntry,
+  streamOf,
+} from "@/test/packs";
+import { PackScanner, resolvePackDeltas } from "./index-pack";
+import {
+  bytesToHex,
+  concatBytes,
+  crc32,
+  createDelta,
+  encodePackIndex,
+  hashObject,
+  type ObjectStore,
+  parsePackIndex,
+} from "./pack";
+
+const encoder = new TextEncoder();
+
+/** Scan a pack sent in chunks, and resolve its deltas */
+async function indexPack(
+  pack: Uint8Array,
+  options: { chunkSize?: number; store?: ObjectStore } = {}
+) {
+  const scanner = new PackScanner();
+  const reader = streamOf(pack, options.chunkSize ?? 7)
+    .pipeThrough(scanner.stream)
+    .getReader();
+  while (!(await reader.read()).done) {
+    // Drain the stream
+  }
+  const scan = scanner.result();
+  return {
+    checksum: scan.checksum,
+    ...(await resolvePackDeltas(
+      scan,
+      async (offset, length) => pack.slice(offset, offset + length),
+      options.store ?? { readObject: async () => null }
+    )),
+  };
+}
+
+describe("PackScanner and resolvePackDeltas", () => {
+  const base = encoder.encode("hello world\n".repeat(20));
+  const target = encoder.encode(`${"hello world\n".repeat(20)}and more\n`);
+  const other = encoder.encode(`${"hello world\n".repeat(19)}bye\n`);
+  const delta = createDelta(base, target, Number.POSITIVE_INFINITY);
+  const otherDelta = createDelta(target, other, Number.POSITIVE_INFINITY);
+  if (!(delta && otherDelta)) throw new Error("no delta");
+
+  it("indexes full objects and delta chains", async () => {
+    const baseEntry = fullEntry("blob", base);
+    // Against the entry right before it
+    const deltaEntry = ofsDeltaEntry(baseEntry.length, delta);
+    // Against a delta, by id
+    const otherEntry = refDeltaEntry(hashObject("blob", target), otherDelta);
+    const pack = packOf([baseEntry, deltaEntry, otherEntry]);
+
+    const { entries } = await indexPack(pack);
+
+    expect(entries).toEqual([
+      { oid: hashObject("blob", base), offset: 12, crc: crc32(baseEntry) },
+      {
+        oid: hashObject("blob", target),
+        offset: 12 + baseEntry.length,
+        crc: crc32(deltaEntry),
+      },
+      {
+        oid: hashObject("blob", other),
+        offset: 12 + baseEntry.length + deltaEntry.length,
+        crc: crc32(otherEntry),
+      },
+    ]);
+  });
+
+  it("resolves ref-deltas against repository objects for thin packs", async () => {
+    const baseOid = hashObject("blob", base);
+    const pack = packOf([refDeltaEntry(baseOid, delta)]);
+
+    const { entries, externalBases } = await indexPack(pack, {
+      store: {
+        readObject: async (oid) =>
+          oid === baseOid ? { type: "blob", content: base } : null,
+      },
+    });
+
+    expect(entries.map(({ oid }) => oid)).toEqual([hashObject("blob", target)]);
+    expect(externalBases).toEqual([baseOid]);
+  });
+
+  it("rejects deltas against missing objects", async () => {
+    const pack = packOf([refDeltaEntry("a".repeat(40), delta)]);
+
+    await expect(indexPack(pack)).rejects.toThrow("missing delta base");
+  });
+
+  it("scans entries larger than the chunks they arrive in", async () => {
+    const large = noise(256 * 1024, 1);
+    const pack = packOf([fullEntry("blob", large), fullEntry("blob", base)]);
+
+    const { entries } = await indexPack(pack, { chunkSize: 1000 });
+
+    expect(entries.map(({ oid }) => oid)).toEqual([
+      hashObject("blob", large),
+      hashObject("blob", base),
+    ]);
+  });
+
+  it("rejects packs with a bad checksum", async () => {
+    const pack = packOf([fullEntry("blob", base)]);
+    pack.set([255 - (pack.at(-1) ?? 0)], pack.length - 1);
+
+    await expect(indexPack(pack)).rejects.toThrow("pack checksum mismatch");
+  });
+
+  it("rejects truncated packs", async () => {
+    const pack = packOf([fullEntry("blob", noise(4096, 2))]);
+
+    await expect(indexPack(pack.subarray(0, 2000))).rejects.toThrow();
+    await expect(indexPack(pack.subarray(0, pack.length - 1))).rejects.toThrow(
+      "truncated pack"
+    );
+  });
+
+  it("rejects data after the pack", async () => {
+    const pack = packOf([fullEntry("blob", base)]);
+
+    await expect(
+      indexPack(concatBytes([pack, new Uint8Array(1)]))
+    ).rejects.toThrow("unexpected data after the pack checksum");
+  });
+});
+
+describe("encodePackIndex", () => {
+  it("round-trips through parsePackIndex", async () => {
+    const entries = [
+      { oid: "ff".repeat(20), offset: 12, crc: 1 },
+      { oid: "00".repeat(20), offset: 2 ** 33, crc: 2 },
+      { oid: "7f".repeat(20), offset: 2 ** 31 - 1, crc: 3 },
+    ];
+    const checksum = new Uint8Array(20).fill(9);
+
+    const idx = encodePackIndex(entries, checksum);
+
+    expect(parsePackIndex(idx)).toEqual({
+      oids: ["00".repeat(20), "7f".repeat(20), "ff".repeat(20)],
+      offsets: [2 ** 33, 2 ** 31 - 1, 12],
+    });
+    const view = new DataView(idx.buffer);
+    // Fanout: objects whose first byte is at most 0x00, 0x7f and 0xfe
+    expect(view.getUint32(8)).toBe(1);
+    expect(view.getUint32(8 + 0x7f * 4)).toBe(2);
+    expect(view.getUint32(8 + 0xfe * 4)).toBe(2);
+    expect(idx.subarray(idx.length - 40, idx.length - 20)).toEqual(checksum);
+    expect(bytesToHex(idx.subarray(idx.length - 20))).toBe(
+      createHash("sha1")
+        .update(idx.subarray(0, idx.length - 20))
+        .digest("hex")
+    );
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Pack indexing that never holds a whole pack in memory, like
+ * `git index-pack`. A pack is scanned while it streams to storage, keeping
+ * only the offset, CRC and delta base of each entry, then deltas are resolved
+ * from range reads of the stored pack.
+ *
+ * @see https://git-scm.com/docs/git-index-pack
+ */
+
+import { createHash } from "node:crypto";
+import {
+  applyDelta,
+  bytesToHex,
+  concatBytes,
+  crc32,
+  type GitObjectType,
+  hashObject,
+  inflate,
+  type ObjectStore,
+  type PackIndexEntry,
+  PackObjectType,
+  type RangeReader,
+  readPackEntryHeader,
+  typeName,
+} from "./pack";
+import type { ProgressEvent } from "./service";
+
+/** Pack header: signature, version and object count */
+const PACK_HEADER_SIZE = 12;
+
+/** Upper bound on the size of an entry header, including its delta base */
+const MAX_ENTRY_HEADER_SIZE = 48;
+
+/** Size of the ranges stored packs are read in when resolving deltas */
+const READ_BLOCK_SIZE = 512 * 1024;
+
+/** Number of blocks kept while resolving deltas */
+const READ_BLOCK_CACHE_SIZE = 16;
+
+/**
+ * Upper bound on the compressed size of an entry inflating to `size` bytes,
+ * a little above zlib's `deflateBound()`.
+ */
+function maxCompressedSize(size: number) {
+  return size + Math.ceil(size / 1000) + 64;
+}
+
+type ScannedEntry = {
+  offset: number;
+  /** Offset of the next entry */
+  end: number;
+  crc: number;
+  /** Object id, known right away for full objects and once resolved for deltas */
+  oid?: string;
+  /** Pack offset of the base object for ofs-delta entries */
+  baseOffset?: number;
+  /** Object id of the base object for ref-delta entries */
+  baseOid?: string;
+};
+
+/**
+ * Result of scanning a pack with {@link PackScanner}.
+ */
+export type PackScan = {
+  entries: ScannedEntry[];
+  /** Trailing checksum of the pack */
+  checksum: Uint8Array;
+};
+
+/**
+ * Scans a pack passed through {@link PackScanner.stream}, one entry at a
+ * time. Only the entry being scanned is buffered, so memory use is bounded by
+ * the largest object rather than the pack.
+ */
+export class PackScanner {
+  /** Passes the pack through unchanged, erroring if it is invalid */
+  readonly stream: TransformStream<Uint8Array, Uint8Array>;
+  private readonly entries: ScannedEntry[] = [];
+  private readonly hash = createHash("sha1");
+  private readonly onProgress?: (event: ProgressEvent) => void;
+  private chunks: Uint8Array[] = [];
+  private buffered = 0;
+  /** Pack offset of the first buffered byte */
+  private offset = 0;
+  /** Buffered bytes needed before trying to read further */
+  private needed = PACK_HEADER_SIZE;
+  private count: number | null = null;
+  private checksum: Uint8Array | null = null;
+  private lastPercent = -1;
+
+  /**
+   * @param onProgress - Receives the number of entries scanned
+   */
+  constructor(onProgress?: (event: ProgressEvent) => void) {
+    this.onProgress = onProgress;
+    this.stream = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        this.push(chunk, false);
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        // Nothing at all is no pack, e.g. a delete-only push
+        if (this.offset + this.buffered > 0) this.push(new Uint8Array(), true);
+      },
+    });
+  }
+
+  /**
+   * @throws Error if the stream has not ended, or was empty
+   */
+  result(): PackScan {
+    if (!this.checksum) {
+      throw new Error("pack has not been fully scanned");
+    }
+    return { entries: this.entries, checksum: this.checksum };
+  }
+
+  private push(chunk: Uint8Array, final: boolean) {
+    if (this.checksum && chunk.length > 0) {
+      throw new Error("unexpected data after the pack checksum");
+    }
+    if (chunk.length > 0) {
+      this.chunks.push(chunk);
+      this.buffered += chunk.length;
+    }
+    while (!this.checksum && (final || this.buffered >= this.needed)) {
+      if (!this.readNext(final)) break;
+    }
+    if (final && !this.checksum) {
+      throw new Error("truncated pack");
+    }
+  }
+
+  /** Merge the buffered chunks, which are then consumed from the start */
+  private buffer() {
+    if (this.chunks.length !== 1) {
+      this.chunks = [concatBytes(this.chunks, this.buffered)];
+    }
+    return this.chunks[0];
+  }
+
+  private consume(length: number) {
+    const data = this.buffer();
+    this.hash.update(data.subarray(0, length));
+    this.chunks = [data.subarray(length)];
+    this.buffered -= length;
+    this.offset += length;
+  }
+
+  /**
+   * Read the pack header, the next entry or the trailing checksum.
+   *
+   * @returns false if more data is needed
+   */
+  private readNext(final: boolean): boolean {
+    const data = this.buffer();
+
+    if (this.count === null) {
+      if (data.length < PACK_HEADER_SIZE) return false;
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      const version = view.getUint32(4);
+      if (
+        new TextDecoder().decode(data.subarray(0, 4)) !== "PACK" ||
+        (version !== 2 && version !== 3)
+      ) {
+        throw new Error("Invalid packfile header");
+      }
+      this.count = view.getUint32(8);
+      this.consume(PACK_HEADER_SIZE);
+      this.needed = this.count === 0 ? 20 : MAX_ENTRY_HEADER_SIZE;
+      return true;
+    }
+
+    if (this.entries.length === this.count) {
+      if (data.length < 20) return false;
+      const checksum = data.slice(0, 20);
+      if (bytesToHex(checksum) !== this.hash.digest("hex")) {
+        throw new Error("pack checksum mismatch");
+      }
+      if (data.length > 20) {
+        throw new Error("unexpected data after the pack checksum");
+      }
+      this.checksum = checksum;
+      this.chunks = [];
+      this.buffered = 0;
+      this.reportProgress(true);
+      return true;
+    }
+
+    return this.readEntry(data, final);
+  }
+
+  private readEntry(data: Uint8Array, final: boolean): boolean {
+    // The pack checksum follows the last entry, so a full header is always
+    // buffered unless the pack is truncated
+    if (data.length < MAX_ENTRY_HEADER_SIZE && !final) return false;
+    const header = readPackEntryHeader(data, 0);
+    if (header.dataOffset > data.length) {
+      throw new Error(`truncated pack entry at offset ${this.offset}`);
+    }
+
+    const bound = header.dataOffset + maxCompressedSize(header.size);
+    let inflated: { data: Uint8Array; consumed: number };
+    try {
+      inflated = inflate(data.subarray(header.dataOffset));
+    } catch (error) {
+      if (final || data.length >= bound) {
+        throw new Error(
+          `invalid pack entry at offset ${this.offset}: ${(error as Error).message}`
+        );
+      }
+      // Retrying each time a chunk arrives would inflate large entries over
+      // and over, so wait for twice as much data
+      this.needed = Math.min(bound, data.length * 2);
+      return false;
+    }
+    if (inflated.data.length !== header.size) {
+      throw new Error(`truncated pack entry at offset ${this.offset}`);
+    }
+
+    const length = header.dataOffset + inflated.consumed;
+    const entry: ScannedEntry = {
+      offset: this.offset,
+      end: this.offset + length,
+      crc: crc32(data.subarray(0, length)),
+    };
+    if (header.type === PackObjectType.ofsDelta) {
+      entry.baseOffset = this.offset + (header.baseOffset ?? 0);
+    } else if (header.type === PackObjectType.refDelta) {
+      entry.baseOid = header.baseOid;
+    } else {
+      const type = typeName(header.type);
+      if (!type) {
+        throw new Error(
+          `invalid object type ${header.type} at offset ${this.offset}`
+        );
+      }
+      entry.oid = hashObject(type, inflated.data);
+    }
+    this.entries.push(entry);
+    this.consume(length);
+    this.needed =
+      this.entries.length === this.count ? 20 : MAX_ENTRY_HEADER_SIZE;
+    this.reportProgress(false);
+    return true;
+  }
+
+  private reportProgress(done: boolean) {
+    if (!this.onProgress) return;
+    const total = this.count ?? 0;
+    const percent = Math.floor(
+      (this.entries.length * 100) / Math.max(total, 1)
+    );
+    if (percent === this.lastPercent && !done) return;
+    this.lastPercent = percent;
+    this.onProgress({
+      phase: "Indexing objects",
+      loaded: this.entries.length,
+      total,
+      done,
+    });
+  }
+}
+
+/**
+ * Reads a stored pack in blocks, keeping the last few. Deltas are resolved
+ * base first rather than in pack order, but mostly within a few blocks.
+ */
+class BlockReader {
+  private readonly readRange: RangeReader;
+  private readonly blocks = new Map<number, Uint8Array>();
+
+  constructor(readRange: RangeReader) {
+    this.readRange = readRange;
+  }
+
+  async read(offset: number, length: number) {
+    const start = offset - (offset % READ_BLOCK_SIZE);
+    if (offset + length > start + READ_BLOCK_SIZE) {
+      return await this.readRange(offset, length);
+    }
+
+    let block = this.blocks.get(start);
+    if (block) {
+      this.blocks.delete(start);
+    } else {
+      block = await this.readRange(start, READ_BLOCK_SIZE);
+      if (this.blocks.size >= READ_BLOCK_CACHE_SIZE) {
+        this.blocks.delete(this.blocks.keys().next().value as number);
+      }
+    }
+    // Most recently used blocks are kept last
+    this.blocks.set(start, block);
+    return block.subarray(offset - start, offset - start + length);
+  }
+}
+
+/**
+ * Resolve the deltas of a scanned pack to get the object id of every entry.
+ *
+ * Each base is inflated once and its deltas are applied depth first, so only
+ * the objects along one delta chain are held at a time. Ref-deltas against
+ * objects that are not in the pack (thin packs) are resolved against `store`.
+ *
+ * @param scan - Result of scanning the pack
+ * @param readRange - Reads a byte range of the stored pack
+ * @param store - Repository objects, for the bases of thin packs
+ * @param onProgress - Receives the number of deltas resolved
+ * @returns Index entries of the pack, and the object ids of the bases taken
+ * from `store`, which must be appended with {@link fixThinPack}
+ * @throws Error if a delta base is missing
+ */
+export async function resolvePackDeltas(
+  scan: PackScan,
+  readRange: RangeReader,
+  store: ObjectStore,
+  onProgress?: (event: ProgressEvent) => void
+): Promise<{ entries: PackIndexEntry[]; externalBases: string[] }> {
+  const reader = new BlockReader(readRange);
+  const byOffset = new Map<number, ScannedEntry[]>();
+  const byOid = new Map<string, ScannedEntry[]>();
+  let deltas = 0;
+  for (const entry of scan.entries) {
+    if (entry.baseOffset !== undefined) {
+      const siblings = byOffset.get(entry.baseOffset) ?? [];
+      siblings.push(entry);
+      byOffset.set(entry.baseOffset, siblings);
+    } else if (entry.baseOid) {
+      const siblings = byOid.get(entry.baseOid) ?? [];
+      siblings.push(entry);
+      byOid.set(entry.baseOid, siblings);
+    } else {
+      continue;
+    }
+    deltas += 1;
+  }
+
+  let resolved = 0;
+  let lastPercent = -1;
+  const reportProgress = (done: boolean) => {
+    const percent = Math.floor((resolved * 100) / Math.max(deltas, 1));
+    if (!onProgress || (percent === lastPercent && !done)) return;
+    lastPercent = percent;
+    onProgress({
+      phase: "Resolving deltas",
+      loaded: resolved,
+      total: deltas,
+      done,
+    });
+  };
+
+  const readEntry = async (entry: ScannedEntry) => {
+    const raw = await reader.read(entry.offset, entry.end - entry.offset);
+    const header = readPackEntryHeader(raw, 0);
+    return {
+      type: typeName(header.type),
+      data: inflate(raw.subarray(header.dataOffset)).data,
+    };
+  };
+
+  // Deltas of an object, taken so each one is only resolved once even if
+  // the pack has duplicate objects
+  const takeDeltas = (offset: number | undefined, oid: string) => {
+    const children = [
+      ...(offset === undefined ? [] : (byOffset.get(offset) ?? [])),
+      ...(byOid.get(oid) ?? []),
+    ];
+    if (offset !== undefined) byOffset.delete(offset);
+    byOid.delete(oid);
+    return children;
+  };
+
+  const resolveDeltas = async (
+    type: GitObjectType,
+    content: Uint8Array,
+    children: ScannedEntry[]
+  ) => {
+    const stack = [{ content, children }];
+    for (let frame = stack.at(-1); frame; frame = stack.at(-1)) {
+      const child = frame.children.pop();
+      if (!child) {
+        stack.pop();
+        continue;
+      }
+      const result = applyDelta((await readEntry(child)).data, frame.content);
+      child.oid = hashObject(type, result);
+      resolved += 1;
+      reportProgress(false);
+
+      const grandchildren = takeDeltas(child.offset, child.oid);
+      if (grandchildren.length > 0) {
+        stack.push({ content: result, children: grandchildren });
+      }
+    }
+  };
+
+  for (const entry of scan.entries) {
+    // Deltas get their ids as they are resolved, from their base
+    if (entry.baseOffset !== undefined || entry.baseOid || !entry.oid) {
+      continue;
+    }
+    const children = takeDeltas(entry.offset, entry.oid);
+    if (children.length === 0) continue;
+    const { type, data } = await readEntry(entry);
+    if (!type) {
+      throw new Error(`invalid object type at offset ${entry.offset}`);
+    }
+    await resolveDeltas(type, data, children);
+  }
+
+  // What is left are ref-deltas against objects the pack doesn't have
+  const externalBases: string[] = [];
+  for (const oid of [...byOid.keys()]) {
+    const children = takeDeltas(undefined, oid);
+    if (children.length === 0) continue;
+    const base = await store.readObject(oid);
+    if (!base) {
+      throw new Error(`missing delta base ${oid}`);
+    }
+    externalBases.push(oid);
+    await resolveDeltas(base.type, base.content, children);
+  }
+
+  const entries: PackIndexEntry[] = [];
+  for (const { oid, offset, crc } of scan.entries) {
+    if (!oid) {
+      throw new Error(`unresolved delta at offset ${offset}`);
+    }
+    entries.push({ oid, offset, crc });
+  }
+  reportProgress(true);
+  return { entries, externalBases };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  isLfsOid,
+  LFS_CONTENT_TYPE,
+  lfsBatchRequestSchema,
+  lfsError,
+  lfsUnauthorized,
+  parseLfsPointer,
+} from "./lfs";
+
+const OID = "4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393";
+
+describe("isLfsOid", () => {
+  it("accepts lowercase hex SHA-256 ids only", () => {
+    expect(isLfsOid(OID)).toBe(true);
+    expect(isLfsOid(OID.toUpperCase())).toBe(false);
+    expect(isLfsOid(OID.slice(0, 40))).toBe(false);
+    expect(isLfsOid(`../${OID.slice(3)}`)).toBe(false);
+  });
+});
+
+describe("lfsBatchRequestSchema", () => {
+  it("accepts batch requests", () => {
+    const request = {
+      operation: "upload",
+      transfers: ["basic"],
+      ref: { name: "refs/heads/main" },
+      objects: [{ oid: OID, size: 12 }],
+      hash_algo: "sha256",
+    };
+
+    expect(lfsBatchRequestSchema.parse(request)).toEqual(request);
+  });
+
+  it.each([
+    ["an unknown operation", { operation: "delete", objects: [] }],
+    [
+      "an invalid object id",
+      { operation: "download", objects: [{ oid: "../etc/passwd", size: 1 }] },
+    ],
+    [
+      "a negative size",
+      { operation: "download", objects: [{ oid: OID, size: -1 }] },
+    ],
+    [
+      "a fractional size",
+      { operation: "download", objects: [{ oid: OID, size: 1.5 }] },
+    ],
+    [
+      "too many objects",
+      {
+        operation: "download",
+        objects: Array.from({ length: 1001 }, () => ({ oid: OID, size: 1 })),
+      },
+    ],
+  ])("rejects %s", (_, request) => {
+    expect(lfsBatchRequestSchema.safeParse(request).success).toBe(false);
+  });
+});
+
+describe("parseLfsPointer", () => {
+  const encoder = new TextEncoder();
+
+  function pointer(...lines: string[]) {
+    return encoder.encode(
+      ["version https://git-lfs.github.com/spec/v1", ...lines, ""].join("\n")
+    );
+  }
+
+  it("reads the object a pointer refers to", () => {
+    expect(parseLfsPointer(pointer(`oid sha256:${OID}`, "size 12345"))).toEqual(
+      { oid: OID, size: 12_345 }
+    );
+  });
+
+  it.each([
+    ["without an object id", pointer("size 1")],
+    ["without a size", pointer(`oid sha256:${OID}`)],
+    ["with an invalid size", pointer(`oid sha256:${OID}`, "size 1e3")],
+    ["with an invalid object id", pointer("oid sha256:abc", "size 1")],
+    [
+      "with another version",
+      encoder.encode(`version 2\noid sha256:${OID}\nsize 1\n`),
+    ],
+    ["that is not UTF-8", new Uint8Array([0xff, 0xfe])],
+    ["larger than a pointer can be", new Uint8Array(2048)],
+  ])("rejects content %s", (_, content) => {
+    expect(parseLfsPointer(content)).toBeNull();
+  });
+});
+
+describe("lfsError and lfsUnauthorized", () => {
+  it("respond in the LFS media type", async () => {
+    const response = lfsError(422, "Invalid batch request");
+
+    expect(response.status).toBe(422);
+    expect(response.headers.get("Content-Type")).toBe(LFS_CONTENT_TYPE);
+    expect(await response.json()).toEqual({
+      message: "Invalid batch request",
+    });
+  });
+
+  it("ask for credentials", () => {
+    const response = lfsUnauthorized();
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("LFS-Authenticate")).toBe(
+      'Basic realm="Git LFS"'
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Git LFS: the batch API types, pointer files and the storage used for
+ * LFS objects.
+ * @see https://github.com/git-lfs/git-lfs/blob/main/docs/api/batch.md
+ * @see https://github.com/git-lfs/git-lfs/blob/main/docs/spec.md
+ */
+
+import * as z from "zod";
+
+export const LFS_CONTENT_TYPE = "application/vnd.git-lfs+json";
+
+/** Pointer files are small text files, larger blobs are never pointers */
+const MAX_POINTER_SIZE = 1024;
+
+const POINTER_VERSION = "https://git-lfs.github.com/spec/v1";
+
+/** How long the hrefs in a batch response are valid, in seconds */
+export const LFS_ACTION_EXPIRES_IN = 60 * 60;
+
+/**
+ * Whether `oid` is an LFS object id: a lowercase hex SHA-256 of the content.
+ */
+export function isLfsOid(oid: string) {
+  return /^[0-9a-f]{64}$/.test(oid);
+}
+
+const lfsObjectSchema = z.object({
+  oid: z.string().refine(isLfsOid, "invalid object id"),
+  size: z.number().int().nonnegative(),
+});
+
+export const lfsBatchRequestSchema = z.object({
+  operation: z.enum(["download", "upload"]),
+  transfers: z.array(z.string()).optional(),
+  ref: z.object({ name: z.string() }).nullish(),
+  objects: z.array(lfsObjectSchema).max(1000),
+  hash_algo: z.string().optional(),
+});
+
+export const lfsVerifyRequestSchema = lfsObjectSchema;
+
+export type LfsObject = z.infer<typeof lfsObjectSchema>;
+
+export type LfsBatchRequest = z.infer<typeof lfsBatchRequestSchema>;
+
+export type LfsAction = {
+  href: string;
+  header?: Record<string, string>;
+  expires_in?: number;
+};
+
+export type LfsBatchResponseObject = LfsObject & {
+  authenticated?: boolean;
+  actions?: {
+    download?: LfsAction;
+    upload?: LfsAction;
+    verify?: LfsAction;
+  };
+  error?: { code: number; message: string };
+};
+
+export type LfsBatchResponse = {
+  transfer: "basic";
+  objects: LfsBatchResponseObject[];
+  hash_algo: "sha256";
+};
+
+/**
+ * Where LFS objects of a repository are kept.
+ */
+export type LfsStorage = {
+  /**
+   * @returns The size of a stored object, or null if it is missing
+   */
+  size(oid: string): Promise<number | null>;
+  /**
+   * @returns The content of a stored object, or null if it is missing
+   */
+  get(
+    oid: string
+  ): Promise<{ body: ReadableStream<Uint8Array>; size: number } | null>;
+  /**
+   * Store an object. The content must hash to `oid` and be `size` bytes long.
+   * @throws If the content doesn't match, in which case nothing is stored
+   */
+  put(args: {
+    oid: string;
+    size: number;
+    body: ReadableStream<Uint8Array>;
+  }): Promise<void>;
+};
+
+/**
+ * A JSON response in the LFS media type.
+ */
+export function lfsResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": LFS_CONTENT_TYPE, ...init.headers },
+  });
+}
+
+/**
+ * An LFS error response. Clients show `message` to the user.
+ */
+export function lfsError(status: number, message: string) {
+  return lfsResponse({ message }, { status });
+}
+
+/**
+ * Ask the client for credentials.
+ */
+export function lfsUnauthorized() {
+  return lfsResponse(
+    { message: "Unauthorized" },
+    {
+      status: 401,
+      headers: { "LFS-Authenticate": 'Basic realm="Git LFS"' },
+    }
+  );
+}
+
+/**
+ * Parse an LFS pointer file.
+ *
+ * @returns The object the pointer refers to, or null if `content` is not a pointer
+ */
+export function parseLfsPointer(content: Uint8Array): LfsObject | null {
+  if (content.length > MAX_POINTER_SIZE) return null;
+
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(content);
+  } catch {
+    return null;
+  }
+
+  const lines = text.split("\n");
+  if (lines[0] !== `version ${POINTER_VERSION}`) return null;
+
+  let oid: string | null = null;
+  let size: number | null = null;
+  for (const line of lines.slice(1)) {
+    if (line.startsWith("oid sha256:")) {
+      oid = line.slice("oid sha256:".length);
+    } else if (line.startsWith("size ")) {
+      const value = line.slice("size ".length);
+      size = /^\d+$/.test(value) ? Number(value) : null;
+    }
+  }
+
+  if (!(oid && isLfsOid(oid)) || size === null) return null;
+  return { oid, size };
+}
+
+/**
+ * Hash a stream with SHA-256 as it passes through.
+ *
+ * @returns The stream to consume, and the hex digest once it has been consumed
+ */
+export function hashStream(body: ReadableStream<Uint8Array>) {
+  const digest = new DigestStream("SHA-256");
+  const writer = digest.getWriter();
+  let size = 0;
+
+  const stream = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        size += chunk.length;
+        await writer.write(chunk);
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        await writer.close();
+      },
+    })
+  );
+
+  const result = async () => ({
+    oid: Buffer.from(await digest.digest).toString("hex"),
+    size,
+  });
+
+  return { stream, result };
+}
@@ -0,0 +1,14 @@
+/**
+ * Git object ids. Repositories use SHA-1, the only object format
+ * isomorphic-git implements.
+ */
+
+/** The all-zero object id, used in ref updates for refs that don't exist */
+export const ZERO_OID = "0".repeat(40);
+
+/**
+ * Whether `oid` is a full lowercase hex SHA-1 object id.
+ */
+export function isObjectId(oid: string) {
+  return /^[0-9a-f]{40}$/.test(oid);
+}
@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  fullEntry,
+  noise,
+  ofsDeltaEntry,
+  packOf,
+  refDeltaEntry,
+} from "@/test/packs";
+import {
+  applyDelta,
+  bytesToHex,
+  concatBytes,
+  crc32,
+  createDelta,
+  deflate,
+  encodeEntryHeader,
+  fixThinPack,
+  hashObject,
+  inflate,
+  type ObjectStore,
+  type PackIndexEntry,
+  PackObjectType,
+  readPackEntries,
+  readPackEntryHeader,
+} from "./pack";
+
+const encoder = new TextEncoder();
+
+describe("createDelta and applyDelta", () => {
+  it("rebuilds edited content from its base", () => {
+    const base = noise(10_000, 1);
+    const target = new Uint8Array([
+      ...base.subarray(0, 4000),
+      ...encoder.encode("inserted"),
+      ...base.subarray(5000),
+    ]);
+
+    const delta = createDelta(base, target);
+
+    expect(delta).not.toBeNull();
+    expect(delta?.length).toBeLessThan(200);
+    expect(applyDelta(delta ?? new Uint8Array(), base)).toEqual(target);
+  });
+
+  it("encodes targets sharing nothing with their base as inserts", () => {
+    const base = noise(1000, 1);
+    const target = noise(300, 2);
+
+    const delta = createDelta(base, target, Number.POSITIVE_INFINITY);
+
+    expect(applyDelta(delta ?? new Uint8Array(), base)).toEqual(target);
+  });
+
+  it("gives up on deltas larger than the limit", () => {
+    expect(createDelta(noise(1000, 1), noise(1000, 2))).toBeNull();
+    expect(createDelta(noise(1000, 1), noise(1000, 1), 2)).toBeNull();
+  });
+
+  it("rejects deltas against the wrong base", () => {
+    const base = noise(1000, 1);
+    const delta = createDelta(base, base) ?? new Uint8Array();
+
+    expect(() => applyDelta(delta, noise(999, 1))).toThrow(
+      "Delta base size mismatch: expected 1000, got 999"
+    );
+  });
+});
+
+describe("readPackEntryHeader", () => {
+  it("reads sizes spanning several bytes", () => {
+    const entry = encodeEntryHeader(PackObjectType.blob, 1_000_000);
+
+    expect(readPackEntryHeader(entry, 0)).toEqual({
+      type: PackObjectType.blob,
+      size: 1_000_000,
+      dataOffset: entry.length,
+    });
+  });
+
+  it.each([1, 127, 128, 16_511, 16_512, 10_000_000])(
+    "reads ofs-delta bases %i bytes back",
+    (distance) => {
+      const delta = new Uint8Array(10);
+      const pack = new Uint8Array(distance + 64);
+      pack.set(ofsDeltaEntry(distance, delta), distance);
+
+      expect(readPackEntryHeader(pack, distance)).toMatchObject({
+        type: PackObjectType.ofsDelta,
+        size: delta.length,
+        baseOffset: 0,
+      });
+    }
+  );
+
+  it("reads ref-delta bases", () => {
+    const entry = refDeltaEntry("ab".repeat(20), new Uint8Array(5));
+
+    expect(readPackEntryHeader(entry, 0)).toMatchObject({
+      type: PackObjectType.refDelta,
+      size: 5,
+      baseOid: "ab".repeat(20),
+    });
+  });
+});
+
+describe("inflate", () => {
+  it("finds where a stream ends when data follows it", () => {
+    const content = encoder.encode("hello world\n".repeat(100));
+    const stream = deflate(content);
+
+    const result = inflate(concatBytes([stream, stream, new Uint8Array(30)]));
+
+    expect(result.data).toEqual(content);
+    expect(result.consumed).toBe(stream.length);
+  });
+
+  it("inflates empty streams", () => {
+    const stream = deflate(new Uint8Array());
+
+    expect(inflate(concatBytes([stream, noise(20, 1)]))).toEqual({
+      data: new Uint8Array(),
+      consumed: stream.length,
+    });
+  });
+
+  it("rejects truncated streams", () => {
+    const stream = deflate(noise(1000, 1));
+
+    expect(() => inflate(stream.subarray(0, stream.length - 1))).toThrow();
+  });
+});
+
+describe("readPackEntries", () => {
+  it("reads each entry and where it starts", () => {
+    const first = fullEntry("blob", encoder.encode("first"));
+    const second = fullEntry("tree", new Uint8Array());
+
+    const entries = [...readPackEntries(packOf([first, second]))];
+
+    expect(
+      entries.map(({ type, offset, data }) => ({ type, offset, data }))
+    ).toEqual([
+      { type: PackObjectType.blob, offset: 12, data: encoder.encode("first") },
+      {
+        type: PackObjectType.tree,
+        offset: 12 + first.length,
+        data: new Uint8Array(),
+      },
+    ]);
+  });
+});
+
+describe("fixThinPack", () => {
+  const base = encoder.encode("hello world\n".repeat(20));
+  const target = encoder.encode(`${"hello world\n".repeat(20)}and more\n`);
+  const baseOid = hashObject("blob", base);
+  const store: ObjectStore = {
+    readObject: async (oid) =>
+      oid === baseOid ? { type: "blob", content: base } : null,
+  };
+
+  function thinPack() {
+    const delta = createDelta(base, target, Number.POSITIVE_INFINITY);
+    if (!delta) throw new Error("no delta");
+    const pack = packOf([refDeltaEntry(baseOid, delta)]);
+    return {
+      size: pack.length,
+      readRange: async (offset: number, length: number) =>
+        pack.slice(offset, offset + length),
+    };
+  }
+
+  it("appends the missing bases as full objects", async () => {
+    const appended: PackIndexEntry[] = [];
+    const thin = thinPack();
+
+    const fixed = new Uint8Array(
+      await new Response(
+        fixThinPack(thin, [baseOid], store, (entry) => appended.push(entry))
+      ).arrayBuffer()
+    );
+
+    const entries = [...readPackEntries(fixed)];
+    expect(entries.map(({ type }) => type)).toEqual([
+      PackObjectType.refDelta,
+      PackObjectType.blob,
+    ]);
+    expect(entries[1]?.data).toEqual(base);
+    expect(appended).toEqual([
+      {
+        oid: baseOid,
+        offset: thin.size - 20,
+        crc: crc32(fixed.subarray(thin.size - 20, fixed.length - 20)),
+      },
+    ]);
+    expect(bytesToHex(fixed.subarray(fixed.length - 20))).toBe(
+      createHash("sha1")
+        .update(fixed.subarray(0, fixed.length - 20))
+        .digest("hex")
+    );
+  });
+
+  it("fails if a base is missing", async () => {
+    const missing = "a".repeat(40);
+
+    await expect(
+      new Response(fixThinPack(thinPack(), [missing], store)).arrayBuffer()
+    ).rejects.toThrow(`missing delta base ${missing}`);
+  });
+});
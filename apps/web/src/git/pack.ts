@@ -0,0 +1,969 @@
+/**
+ * Packfile reading and writing helpers, including delta compression.
+ *
+ * @see https://git-scm.com/docs/gitformat-pack
+ */
+
+// biome-ignore-all lint/suspicious/noBitwiseOperators: binary pack formats are bit-packed
+
+import { createHash } from "node:crypto";
+import { deflateSync, inflateSync } from "node:zlib";
+
+/** Object type codes used in packfile entry headers */
+export const PackObjectType = {
+  commit: 1,
+  tree: 2,
+  blob: 3,
+  tag: 4,
+  ofsDelta: 6,
+  refDelta: 7,
+} as const;
+
+export type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+const TYPE_NAMES: Record<number, GitObjectType> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+
+/** Minimum match length worth encoding as a copy instruction */
+const DELTA_BLOCK_SIZE = 16;
+
+/** Maximum number of literal bytes in a single insert instruction */
+const DELTA_MAX_INSERT = 0x7f;
+
+/** Maximum number of bytes copied by a single copy instruction */
+const DELTA_MAX_COPY = 0xff_ff_ff;
+
+/** Limit on candidate positions kept per block hash, keeps indexing linear */
+const DELTA_MAX_CHAIN = 64;
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function deflate(data: Uint8Array): Uint8Array {
+  return new Uint8Array(deflateSync(data));
+}
+
+/**
+ * Adler-32 checksum of data, which zlib appends to every stream.
+ */
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // Sums are reduced every 5552 bytes, the most that can't overflow (zlib's NMAX)
+  for (let i = 0; i < data.length; ) {
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i += 1) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65_521;
+    b %= 65_521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Two-byte header, the smallest deflate block and the checksum */
+const MIN_ZLIB_STREAM_SIZE = 8;
+
+/**
+ * Inflate a zlib stream that may be followed by unrelated data.
+ *
+ * zlib stops at the end of the stream but doesn't say where that was. A
+ * stream ends with the Adler-32 checksum of its output, so it ends at the
+ * first occurrence of that checksum that inflates on its own.
+ *
+ * @returns The inflated data and the number of compressed bytes consumed
+ * @throws Error if the stream is invalid or truncated
+ */
+export function inflate(data: Uint8Array): {
+  data: Uint8Array;
+  consumed: number;
+} {
+  const inflated = new Uint8Array(inflateSync(data));
+  const checksum = adler32(inflated);
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let end = MIN_ZLIB_STREAM_SIZE; end <= data.length; end += 1) {
+    if (view.getUint32(end - 4) !== checksum) continue;
+    try {
+      inflateSync(data.subarray(0, end));
+      return { data: inflated, consumed: end };
+    } catch {
+      // The checksum bytes also appeared inside the stream
+    }
+  }
+  throw new Error("zlib stream checksum not found");
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xed_b8_83_20 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of data, as stored for each entry in pack indexes (and in zips).
+ */
+export function crc32(data: Uint8Array) {
+  let crc = 0xff_ff_ff_ff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xff_ff_ff_ff) >>> 0;
+}
+
+/**
+ * Compute the object id of a loose object (`<type> <size>\0<content>`).
+ */
+export function hashObject(type: GitObjectType, content: Uint8Array): string {
+  return createHash("sha1")
+    .update(`${type} ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+/**
+ * Encode the variable-length type and size header of a pack entry.
+ */
+export function encodeEntryHeader(type: number, size: number): Uint8Array {
+  const bytes: number[] = [];
+  let byte = (type << 4) | (size % 16);
+  let remaining = Math.floor(size / 16);
+  while (remaining > 0) {
+    bytes.push(byte | 0x80);
+    byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(byte);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode the negative offset of an ofs-delta base.
+ * Uses git's "offset encoding" where each continuation adds one.
+ */
+export function encodeOfsDeltaOffset(distance: number): Uint8Array {
+  const bytes = [distance % 128];
+  let remaining = Math.floor(distance / 128);
+  while (remaining > 0) {
+    remaining -= 1;
+    bytes.unshift(0x80 | (remaining % 128));
+    remaining = Math.floor(remaining / 128);
+  }
+  return new Uint8Array(bytes);
+}
+
+function encodeDeltaSize(size: number, out: number[]) {
+  let remaining = size;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) byte |= 0x80;
+    out.push(byte);
+  } while (remaining > 0);
+}
+
+function hashBlock(data: Uint8Array, start: number) {
+  // FNV-1a over one block
+  let hash = 0x81_1c_9d_c5;
+  for (let i = start; i < start + DELTA_BLOCK_SIZE; i += 1) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01_00_01_93);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Compute a git delta that rebuilds `target` from `source`.
+ *
+ * @param source - Base object content
+ * @param target - Object content to encode
+ * @param maxSize - Give up once the delta grows beyond this many bytes
+ * @returns The delta, or null if it would not be smaller than `maxSize`
+ */
+export function createDelta(
+  source: Uint8Array,
+  target: Uint8Array,
+  maxSize = target.length / 2
+): Uint8Array | null {
+  const out: number[] = [];
+  encodeDeltaSize(source.length, out);
+  encodeDeltaSize(target.length, out);
+
+  // Index the source in non-overlapping blocks
+  const index = new Map<number, number[]>();
+  for (
+    let i = 0;
+    i + DELTA_BLOCK_SIZE <= source.length;
+    i += DELTA_BLOCK_SIZE
+  ) {
+    const hash = hashBlock(source, i);
+    const positions = index.get(hash);
+    if (!positions) {
+      index.set(hash, [i]);
+    } else if (positions.length < DELTA_MAX_CHAIN) {
+      positions.push(i);
+    }
+  }
+
+  const flushInsert = (from: number, to: number) => {
+    for (let start = from; start < to; start += DELTA_MAX_INSERT) {
+      const end = Math.min(start + DELTA_MAX_INSERT, to);
+      out.push(end - start);
+      for (let i = start; i < end; i += 1) {
+        out.push(target[i]);
+      }
+    }
+  };
+
+  const emitCopy = (offset: number, length: number) => {
+    for (let done = 0; done < length; done += DELTA_MAX_COPY) {
+      const copyOffset = offset + done;
+      const copyLength = Math.min(DELTA_MAX_COPY, length - done);
+      const opIndex = out.length;
+      let op = 0x80;
+      out.push(0);
+      for (let byte = 0; byte < 4; byte += 1) {
+        const value = Math.floor(copyOffset / 2 ** (8 * byte)) % 256;
+        if (value !== 0) {
+          op |= 1 << byte;
+          out.push(value);
+        }
+      }
+      for (let byte = 0; byte < 3; byte += 1) {
+        const value = Math.floor(copyLength / 2 ** (8 * byte)) % 256;
+        if (value !== 0) {
+          op |= 1 << (4 + byte);
+          out.push(value);
+        }
+      }
+      out[opIndex] = op;
+    }
+  };
+
+  let insertStart = 0;
+  let i = 0;
+  while (i + DELTA_BLOCK_SIZE <= target.length) {
+    const candidates = index.get(hashBlock(target, i));
+    let bestOffset = -1;
+    let bestLength = 0;
+
+    if (candidates) {
+      for (const candidate of candidates) {
+        let length = 0;
+        while (
+          candidate + length < source.length &&
+          i + length < target.length &&
+          source[candidate + length] === target[i + length]
+        ) {
+          length += 1;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestOffset = candidate;
+        }
+      }
+    }
+
+    if (bestLength < DELTA_BLOCK_SIZE) {
+      i += 1;
+      continue;
+    }
+
+    // Grow the match backwards into the pending literal bytes
+    while (
+      i > insertStart &&
+      bestOffset > 0 &&
+      source[bestOffset - 1] === target[i - 1]
+    ) {
+      i -= 1;
+      bestOffset -= 1;
+      bestLength += 1;
+    }
+
+    flushInsert(insertStart, i);
+    emitCopy(bestOffset, bestLength);
+    i += bestLength;
+    insertStart = i;
+
+    if (out.length > maxSize) return null;
+  }
+
+  flushInsert(insertStart, target.length);
+  if (out.length > maxSize) return null;
+
+  return new Uint8Array(out);
+}
+
+function decodeDeltaSize(delta: Uint8Array, start: number) {
+  let size = 0;
+  let shift = 0;
+  let pos = start;
+  let byte: number;
+  do {
+    byte = delta[pos];
+    pos += 1;
+    size += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return { size, pos };
+}
+
+/**
+ * Apply a git delta to its base object.
+ *
+ * @throws Error if the delta does not match the base
+ */
+export function applyDelta(delta: Uint8Array, base: Uint8Array): Uint8Array {
+  const source = decodeDeltaSize(delta, 0);
+  if (source.size !== base.length) {
+    throw new Error(
+      `Delta base size mismatch: expected ${source.size}, got ${base.length}`
+    );
+  }
+  const target = decodeDeltaSize(delta, source.pos);
+  const out = new Uint8Array(target.size);
+
+  let pos = target.pos;
+  let written = 0;
+  while (pos < delta.length) {
+    const op = delta[pos];
+    pos += 1;
+
+    if (op & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let byte = 0; byte < 4; byte += 1) {
+        if (op & (1 << byte)) {
+          offset += delta[pos] * 2 ** (8 * byte);
+          pos += 1;
+        }
+      }
+      for (let byte = 0; byte < 3; byte += 1) {
+        if (op & (1 << (4 + byte))) {
+          size += delta[pos] * 2 ** (8 * byte);
+          pos += 1;
+        }
+      }
+      if (size === 0) size = 0x1_00_00;
+      out.set(base.subarray(offset, offset + size), written);
+      written += size;
+    } else if (op > 0) {
+      out.set(delta.subarray(pos, pos + op), written);
+      pos += op;
+      written += op;
+    } else {
+      throw new Error("Invalid delta opcode 0");
+    }
+  }
+
+  if (written !== target.size) {
+    throw new Error(
+      `Delta result size mismatch: expected ${target.size}, got ${written}`
+    );
+  }
+  return out;
+}
+
+/**
+ * A parsed v2 pack index (.idx) file.
+ */
+export type PackIndex = {
+  /** Object ids in index order (sorted) */
+  oids: string[];
+  /** Pack offsets, parallel to `oids` */
+  offsets: number[];
+};
+
+/**
+ * Parse a version 2 pack index file.
+ *
+ * @param idx - Raw .idx file contents
+ * @returns Parsed index
+ * @throws Error if the index is not a v2 index
+ */
+export function parsePackIndex(idx: Uint8Array): PackIndex {
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+  if (view.getUint32(0) !== 0xff_74_4f_63 || view.getUint32(4) !== 2) {
+    throw new Error("Unsupported pack index version");
+  }
+
+  const count = view.getUint32(8 + 255 * 4);
+  const namesStart = 8 + 256 * 4;
+  const offsetsStart = namesStart + count * 20 + count * 4;
+  const largeOffsetsStart = offsetsStart + count * 4;
+
+  const oids: string[] = [];
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const start = namesStart + i * 20;
+    oids.push(bytesToHex(idx.subarray(start, start + 20)));
+
+    const offset = view.getUint32(offsetsStart + i * 4);
+    if (offset & 0x80_00_00_00) {
+      const largeIndex = largeOffsetsStart + (offset & 0x7f_ff_ff_ff) * 8;
+      offsets.push(
+        view.getUint32(largeIndex) * 2 ** 32 + view.getUint32(largeIndex + 4)
+      );
+    } else {
+      offsets.push(offset);
+    }
+  }
+
+  return { oids, offsets };
+}
+
+/**
+ * An object of a pack, as listed in its index.
+ */
+export type PackIndexEntry = {
+  oid: string;
+  offset: number;
+  /** CRC-32 of the raw entry (header and compressed data) */
+  crc: number;
+};
+
+/** Offsets from this one on go to the 64-bit offset table */
+const LARGE_OFFSET = 0x80_00_00_00;
+
+/**
+ * Encode a version 2 pack index file, as read by {@link parsePackIndex}.
+ *
+ * @param entries - Objects of the pack, in any order
+ * @param packChecksum - Trailing checksum of the pack
+ * @returns Raw .idx file contents
+ */
+export function encodePackIndex(
+  entries: PackIndexEntry[],
+  packChecksum: Uint8Array
+): Uint8Array {
+  const sorted = [...entries].sort((a, b) => (a.oid < b.oid ? -1 : 1));
+  const count = sorted.length;
+  const largeCount = sorted.filter(
+    ({ offset }) => offset >= LARGE_OFFSET
+  ).length;
+
+  const namesStart = 8 + 256 * 4;
+  const crcsStart = namesStart + count * 20;
+  const offsetsStart = crcsStart + count * 4;
+  const largeOffsetsStart = offsetsStart + count * 4;
+  const checksumStart = largeOffsetsStart + largeCount * 8;
+
+  const idx = new Uint8Array(checksumStart + 40);
+  const view = new DataView(idx.buffer);
+  view.setUint32(0, 0xff_74_4f_63);
+  view.setUint32(4, 2);
+
+  let large = 0;
+  for (let i = 0; i < count; i += 1) {
+    const { oid, offset, crc } = sorted[i];
+    idx.set(hexToBytes(oid), namesStart + i * 20);
+    view.setUint32(crcsStart + i * 4, crc);
+    if (offset >= LARGE_OFFSET) {
+      view.setUint32(offsetsStart + i * 4, (LARGE_OFFSET | large) >>> 0);
+      view.setUint32(
+        largeOffsetsStart + large * 8,
+        Math.floor(offset / 2 ** 32)
+      );
+      view.setUint32(largeOffsetsStart + large * 8 + 4, offset % 2 ** 32);
+      large += 1;
+    } else {
+      view.setUint32(offsetsStart + i * 4, offset);
+    }
+  }
+
+  // Fanout entry n counts the objects whose first byte is at most n
+  let index = 0;
+  for (let byte = 0; byte < 256; byte += 1) {
+    while (index < count && idx[namesStart + index * 20] <= byte) {
+      index += 1;
+    }
+    view.setUint32(8 + byte * 4, index);
+  }
+
+  idx.set(packChecksum, checksumStart);
+  idx.set(
+    createHash("sha1")
+      .update(idx.subarray(0, checksumStart + 20))
+      .digest(),
+    checksumStart + 20
+  );
+  return idx;
+}
+
+/**
+ * Header of a single entry inside a packfile.
+ */
+export type PackEntryHeader = {
+  /** Raw type code (see {@link PackObjectType}) */
+  type: number;
+  /** Inflated size (object size, or delta size for deltas) */
+  size: number;
+  /** Offset of the compressed data */
+  dataOffset: number;
+  /** Pack offset of the base object for ofs-delta entries */
+  baseOffset?: number;
+  /** Object id of the base object for ref-delta entries */
+  baseOid?: string;
+};
+
+/**
+ * Read the header of the pack entry starting at `offset`.
+ */
+export function readPackEntryHeader(
+  pack: Uint8Array,
+  offset: number
+): PackEntryHeader {
+  let pos = offset;
+  let byte = pack[pos];
+  pos += 1;
+  const type = (byte >> 4) & 7;
+  let size = byte & 15;
+  let shift = 4;
+  while (byte & 0x80) {
+    byte = pack[pos];
+    pos += 1;
+    size += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  }
+
+  if (type === PackObjectType.ofsDelta) {
+    byte = pack[pos];
+    pos += 1;
+    let distance = byte & 0x7f;
+    while (byte & 0x80) {
+      byte = pack[pos];
+      pos += 1;
+      distance = (distance + 1) * 128 + (byte & 0x7f);
+    }
+    return { type, size, dataOffset: pos, baseOffset: offset - distance };
+  }
+
+  if (type === PackObjectType.refDelta) {
+    const baseOid = bytesToHex(pack.subarray(pos, pos + 20));
+    return { type, size, dataOffset: pos + 20, baseOid };
+  }
+
+  return { type, size, dataOffset: pos };
+}
+
+/** Upper bound on the size of an entry header, including its delta base */
+const MAX_ENTRY_HEADER_SIZE = 48;
+
+/** Size of the ranges stored packs are read in */
+const READ_BLOCK_SIZE = 512 * 1024;
+
+/**
+ * Reads `length` bytes of a stored file starting at `offset`.
+ */
+export type RangeReader = (
+  offset: number,
+  length: number
+) => Promise<Uint8Array>;
+
+export type StoredPackEntry = {
+  /** Raw type code (see {@link PackObjectType}) */
+  type: number;
+  /** Inflated size (object size, or delta size for deltas) */
+  size: number;
+  /** Object id of the delta base, for delta entries */
+  baseOid?: string;
+  dataOffset: number;
+  dataEnd: number;
+};
+
+/**
+ * A stored pack with its index, used to reuse already compressed entries.
+ * Entries are read on demand so the pack never has to be fully loaded.
+ */
+export class StoredPack {
+  readonly name: string;
+  /** Size of the pack file in bytes */
+  readonly size: number;
+  private readonly readRange: RangeReader;
+  private readonly offsetsByOid = new Map<string, number>();
+  private readonly oidsByOffset = new Map<number, string>();
+  /** End offset of each entry, derived from the next entry's start */
+  private readonly entryEnds = new Map<number, number>();
+  /** Last block read for entry headers, which are usually read in order */
+  private headerBlock: { start: number; data: Uint8Array } | null = null;
+
+  /**
+   * @param size - Size of the pack file in bytes
+   * @param readRange - Reads a byte range of the pack file
+   */
+  constructor(
+    name: string,
+    size: number,
+    index: PackIndex,
+    readRange: RangeReader
+  ) {
+    this.name = name;
+    this.size = size;
+    this.readRange = readRange;
+
+    for (let i = 0; i < index.oids.length; i += 1) {
+      this.offsetsByOid.set(index.oids[i], index.offsets[i]);
+      this.oidsByOffset.set(index.offsets[i], index.oids[i]);
+    }
+
+    const sorted = [...index.offsets].sort((a, b) => a - b);
+    for (let i = 0; i < sorted.length; i += 1) {
+      this.entryEnds.set(sorted[i], sorted[i + 1] ?? size - 20);
+    }
+  }
+
+  get oids() {
+    return this.offsetsByOid.keys();
+  }
+
+  has(oid: string) {
+    return this.offsetsByOid.has(oid);
+  }
+
+  /**
+   * Read the header of a stored entry.
+   *
+   * @returns Entry type and size, the base object id for deltas, and where
+   * its compressed payload lives in the pack
+   */
+  async getEntryInfo(oid: string): Promise<StoredPackEntry | null> {
+    const offset = this.offsetsByOid.get(oid);
+    if (offset === undefined) return null;
+
+    const end = this.entryEnds.get(offset) ?? offset;
+    const window = await this.readHeaderWindow(
+      offset,
+      Math.min(MAX_ENTRY_HEADER_SIZE, end - offset)
+    );
+    const header = readPackEntryHeader(window, 0);
+    const baseOid =
+      header.baseOid ??
+      (header.baseOffset === undefined
+        ? undefined
+        : this.oidsByOffset.get(offset + header.baseOffset));
+
+    return {
+      type: header.type,
+      size: header.size,
+      baseOid,
+      dataOffset: offset + header.dataOffset,
+      dataEnd: end,
+    };
+  }
+
+  /**
+   * Find ref-delta bases that are not part of this pack, i.e. the objects a
+   * thin pack expects the receiver to already have.
+   */
+  async findExternalBases(): Promise<string[]> {
+    const bases = new Set<string>();
+    const byOffset = [...this.oidsByOffset].sort(([a], [b]) => a - b);
+    for (const [, oid] of byOffset) {
+      const entry = await this.getEntryInfo(oid);
+      if (entry?.baseOid && !this.has(entry.baseOid)) {
+        bases.add(entry.baseOid);
+      }
+    }
+    return [...bases];
+  }
+
+  /**
+   * Read the raw (still compressed) payload of an entry.
+   */
+  readEntryData(entry: StoredPackEntry): Promise<Uint8Array> {
+    return this.readRange(entry.dataOffset, entry.dataEnd - entry.dataOffset);
+  }
+
+  private async readHeaderWindow(offset: number, length: number) {
+    let block = this.headerBlock;
+    if (
+      !block ||
+      offset < block.start ||
+      offset + length > block.start + block.data.length
+    ) {
+      const start = offset - (offset % READ_BLOCK_SIZE);
+      // Read a little past the block so headers crossing its end still fit
+      const data = await this.readRange(
+        start,
+        READ_BLOCK_SIZE + MAX_ENTRY_HEADER_SIZE
+      );
+      block = { start, data };
+      this.headerBlock = block;
+    }
+    return block.data.subarray(
+      offset - block.start,
+      offset - block.start + length
+    );
+  }
+}
+
+/**
+ * Incrementally builds a version 2 packfile.
+ * Keeps track of entry offsets so deltas can reference their bases.
+ *
+ * Written bytes are buffered until collected with {@link PackWriter.takeChunks},
+ * so a pack can be streamed out while it is being built.
+ */
+export class PackWriter {
+  private chunks: Uint8Array[] = [];
+  private readonly hash = createHash("sha1");
+  private readonly offsets = new Map<string, number>();
+  private length = 0;
+  private pending = 0;
+  private readonly ofsDelta: boolean;
+
+  /**
+   * @param objectCount - Number of entries that will be written
+   * @param options.ofsDelta - Reference delta bases by offset instead of object id
+   */
+  constructor(objectCount: number, options: { ofsDelta?: boolean } = {}) {
+    this.ofsDelta = options.ofsDelta ?? false;
+
+    const header = new Uint8Array(12);
+    header.set(new TextEncoder().encode("PACK"), 0);
+    const view = new DataView(header.buffer);
+    view.setUint32(4, 2);
+    view.setUint32(8, objectCount);
+    this.push(header);
+  }
+
+  /** Number of bytes written but not yet collected */
+  get pendingBytes() {
+    return this.pending;
+  }
+
+  has(oid: string) {
+    return this.offsets.has(oid);
+  }
+
+  /**
+   * Write a full (non-delta) object.
+   *
+   * @param compressed - Already deflated content, when reusing a stored entry
+   */
+  writeObject(
+    oid: string,
+    type: GitObjectType,
+    content: { data: Uint8Array } | { compressed: Uint8Array; size: number }
+  ) {
+    this.offsets.set(oid, this.length);
+    const size = "data" in content ? content.data.length : content.size;
+    this.push(encodeEntryHeader(PackObjectType[type], size));
+    this.push("data" in content ? deflate(content.data) : content.compressed);
+  }
+
+  /**
+   * Write a delta against an object already written to this pack.
+   *
+   * @param compressed - Already deflated delta, when reusing a stored entry
+   */
+  writeDelta(
+    oid: string,
+    baseOid: string,
+    content: { delta: Uint8Array } | { compressed: Uint8Array; size: number }
+  ) {
+    const baseOffset = this.offsets.get(baseOid);
+    if (baseOffset === undefined) {
+      throw new Error(`Delta base ${baseOid} was not written before ${oid}`);
+    }
+
+    const offset = this.length;
+    this.offsets.set(oid, offset);
+    const size = "delta" in content ? content.delta.length : content.size;
+
+    if (this.ofsDelta) {
+      this.push(encodeEntryHeader(PackObjectType.ofsDelta, size));
+      this.push(encodeOfsDeltaOffset(offset - baseOffset));
+    } else {
+      this.push(encodeEntryHeader(PackObjectType.refDelta, size));
+      this.push(hexToBytes(baseOid));
+    }
+    this.push("delta" in content ? deflate(content.delta) : content.compressed);
+  }
+
+  /**
+   * Append the trailing checksum. Nothing can be written afterwards.
+   */
+  end() {
+    const checksum = new Uint8Array(this.hash.digest());
+    this.chunks.push(checksum);
+    this.length += checksum.length;
+    this.pending += checksum.length;
+  }
+
+  /**
+   * Collect the bytes written since the last call, merged into one chunk.
+   */
+  takeChunks(): Uint8Array {
+    const merged = concatBytes(this.chunks, this.pending);
+    this.chunks = [];
+    this.pending = 0;
+    return merged;
+  }
+
+  private push(chunk: Uint8Array) {
+    this.hash.update(chunk);
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+    this.pending += chunk.length;
+  }
+}
+
+/**
+ * Concatenate byte chunks into a single array.
+ *
+ * @param length - Total length of the chunks, when already known
+ */
+export function concatBytes(
+  chunks: Uint8Array[],
+  length = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+): Uint8Array {
+  const merged = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
+
+export function typeName(type: number): GitObjectType | undefined {
+  return TYPE_NAMES[type];
+}
+
+/**
+ * Walk every entry of a packfile.
+ * Entries are inflated one at a time to find where the next one starts.
+ *
+ * @throws Error if the pack header is invalid or an entry is truncated
+ */
+export function* readPackEntries(
+  pack: Uint8Array
+): Generator<PackEntryHeader & { offset: number; data: Uint8Array }> {
+  if (
+    pack.length < 32 ||
+    new TextDecoder().decode(pack.subarray(0, 4)) !== "PACK"
+  ) {
+    throw new Error("Invalid packfile header");
+  }
+  const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+  const count = view.getUint32(8);
+
+  let offset = 12;
+  for (let i = 0; i < count; i += 1) {
+    const header = readPackEntryHeader(pack, offset);
+    const { data, consumed } = inflate(
+      pack.subarray(header.dataOffset, pack.length - 20)
+    );
+    if (data.length !== header.size) {
+      throw new Error(`Truncated pack entry at offset ${offset}`);
+    }
+    yield { ...header, offset, data };
+    offset = header.dataOffset + consumed;
+  }
+}
+
+export type ObjectStore = {
+  readObject: (
+    oid: string
+  ) => Promise<{ type: GitObjectType; content: Uint8Array } | null>;
+};
+
+/**
+ * Turn a stored thin pack into a self-contained one.
+ *
+ * Thin packs may contain ref-deltas against objects the receiver already has
+ * (see {@link StoredPack.findExternalBases}). Those bases are read from `store`
+ * and appended to the pack as full objects, then the object count and
+ * trailing checksum are rewritten (like `git index-pack --fix-thin`).
+ * The pack is copied in ranges, so it is never fully held in memory.
+ *
+ * @param pack - Size of the thin pack and a reader for its bytes
+ * @param bases - Object ids of the external bases to append
+ * @param onAppend - Receives the index entry of each appended base
+ * @returns The completed pack as a stream, which errors if a base is missing
+ */
+export function fixThinPack(
+  pack: { size: number; readRange: RangeReader },
+  bases: string[],
+  store: ObjectStore,
+  onAppend?: (entry: PackIndexEntry) => void
+): ReadableStream<Uint8Array> {
+  const { size, readRange } = pack;
+
+  async function* generate() {
+    const hash = createHash("sha1");
+    const emit = (chunk: Uint8Array) => {
+      hash.update(chunk);
+      return chunk;
+    };
+
+    const header = (await readRange(0, 12)).slice();
+    const view = new DataView(header.buffer);
+    view.setUint32(8, view.getUint32(8) + bases.length);
+    yield emit(header);
+
+    const bodyEnd = size - 20;
+    for (let offset = 12; offset < bodyEnd; offset += READ_BLOCK_SIZE) {
+      yield emit(
+        await readRange(offset, Math.min(READ_BLOCK_SIZE, bodyEnd - offset))
+      );
+    }
+
+    let offset = bodyEnd;
+    for (const oid of bases) {
+      const object = await store.readObject(oid);
+      if (!object) {
+        throw new Error(`missing delta base ${oid}`);
+      }
+      const entry = concatBytes([
+        encodeEntryHeader(PackObjectType[object.type], object.content.length),
+        deflate(object.content),
+      ]);
+      onAppend?.({ oid, offset, crc: crc32(entry) });
+      offset += entry.length;
+      yield emit(entry);
+    }
+
+    yield new Uint8Array(hash.digest());
+  }
+
+  const chunks = generate();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -70,6 +70,9 @@ export class PktLine {
   /** Maximum side-band payload size (MAX_PKT_SIZE - 4 byte header - 1 byte for channel) */
   static readonly MAX_SIDEBAND_PAYLOAD = 65_515;
 
+  /** Maximum payload size with the original (non-64k) side-band capability */
+  static readonly MAX_SMALL_SIDEBAND_PAYLOAD = 995;
+
   /**
    * Encode data into a pkt-line format.
    * Accepts both Uint8Array and string (auto-converted to UTF-8).
@@ -149,6 +152,27 @@ export class PktLine {
     return PktLine.encode(packet);
   }
 
+  /**
+   * Encode data of any size into as many side-band packets as needed.
+   *
+   * @param channel - Side-band channel (1 = pack data, 2 = progress, 3 = error)
+   * @param data - The data to send
+   * @param maxPayload - Payload size per packet, smaller for plain `side-band`
+   * @returns Encoded side-band packets
+   */
+  static encodeSidebandChunks(
+    channel: 1 | 2 | 3,
+    data: Uint8Array,
+    maxPayload = PktLine.MAX_SIDEBAND_PAYLOAD
+  ): Uint8Array[] {
+    const packets: Uint8Array[] = [];
+    for (let offset = 0; offset < data.length; offset += maxPayload) {
+      const end = Math.min(offset + maxPayload, data.length);
+      packets.push(PktLine.encodeSideband(channel, data.subarray(offset, end)));
+    }
+    return packets;
+  }
+
   /**
    * Helper to encode progress message for side-band channel 2.
    *
@@ -175,6 +199,17 @@ export class PktLine {
     );
   }
 
+  /**
+   * Encode an error packet ("ERR <message>").
+   * Aborts the request; the client shows the message as a remote error.
+   *
+   * @param message - Error message to send
+   * @returns Encoded error packet
+   */
+  static encodeError(message: string): Uint8Array {
+    return PktLine.encode(`${PktLine.ERR_PREFIX}${message}\n`);
+  }
+
   /**
    * Decode a pkt-line from buffer.
    * Automatically detects special packets (flush, delim, response-end) and error packets.
@@ -319,3 +354,95 @@ export class PktLine {
     return length.toString(16).padStart(4, "0");
   }
 }
+
+/**
+ * Reads pkt-lines from a byte stream as the bytes arrive.
+ * Whatever follows the pkt-lines (e.g. a packfile) can be taken over with
+ * {@link PktLineReader.remaining} without buffering it.
+ */
+export class PktLineReader {
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer: Uint8Array = new Uint8Array(0);
+  private ended = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  /**
+   * Read the next packet.
+   *
+   * @returns The decoded packet, or null if the stream ended
+   * @throws Error if the stream ends in the middle of a packet
+   */
+  async read(): Promise<Packet | null> {
+    if (!(await this.fill(4))) return null;
+
+    const lengthHex = PktLine.decodeText(this.buffer.subarray(0, 4));
+    const specialPackets = [PktLine.DELIM, PktLine.FLUSH, PktLine.RESPONSE_END];
+    const length = specialPackets.includes(lengthHex)
+      ? 4
+      : Number.parseInt(lengthHex, 16);
+
+    await this.fill(length);
+
+    const packet = PktLine.decode(this.buffer.subarray(0, length));
+    this.buffer = this.buffer.subarray(length);
+    return packet;
+  }
+
+  /**
+   * Take over the rest of the stream, starting with any already buffered bytes.
+   * The reader must not be used afterwards.
+   */
+  remaining(): ReadableStream<Uint8Array> {
+    let pending: Uint8Array | null =
+      this.buffer.length > 0 ? this.buffer : null;
+    this.buffer = new Uint8Array(0);
+    const { reader } = this;
+    const ended = this.ended;
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (pending) {
+          controller.enqueue(pending);
+          pending = null;
+          return;
+        }
+        const { value, done } = ended
+          ? { value: undefined, done: true }
+          : await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+      },
+    });
+  }
+
+  /**
+   * Buffer at least `length` bytes.
+   *
+   * @returns false if the stream ended first with nothing buffered
+   */
+  private async fill(length: number): Promise<boolean> {
+    while (this.buffer.length < length && !this.ended) {
+      const { value, done } = await this.reader.read();
+      if (done) {
+        this.ended = true;
+        break;
+      }
+      const merged = new Uint8Array(this.buffer.length + value.length);
+      merged.set(this.buffer, 0);
+      merged.set(value, this.buffer.length);
+      this.buffer = merged;
+    }
+    if (this.buffer.length >= length) return true;
+    if (this.buffer.length === 0) return false;
+    throw new Error("Unexpected end of stream inside pkt-line");
+  }
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { streamOf } from "@/test/packs";
+import { PktLine } from "./pkt";
+import {
+  buildFetchResponse,
+  buildLegacyFetchResponse,
+  buildUploadPackError,
+  parseFetchRequest,
+  parseLegacyFetchRequest,
+  parseReceivePackRequest,
+} from "./protocol";
+import type { PackEvent } from "./service";
+
+const WANT = "a".repeat(40);
+const SHALLOW = "b".repeat(40);
+const HAVE = "c".repeat(40);
+
+function legacyRequest(...args: string[]) {
+  return parseLegacyFetchRequest(
+    PktLine.mergeLines([
+      PktLine.encode(`want ${WANT} multi_ack_detailed side-band-64k\n`),
+      ...args.map((arg) => PktLine.encode(`${arg}\n`)),
+      PktLine.encodeFlush(),
+      PktLine.encode(`have ${HAVE}\n`),
+      PktLine.encodeFlush(),
+    ])
+  );
+}
+
+async function responseLines(response: Response) {
+  const body = new Uint8Array(await response.arrayBuffer());
+  const lines: string[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const packet = PktLine.decode(body.subarray(offset));
+    if (packet.type === "data") {
+      lines.push(PktLine.decodeText(packet.data).trimEnd());
+      offset += 4 + packet.data.length;
+    } else {
+      lines.push(packet.type);
+      offset += 4;
+    }
+  }
+  return lines;
+}
+
+async function* packEvents(): AsyncIterable<PackEvent> {
+  yield { type: "data", chunk: new TextEncoder().encode("PACK") };
+}
+
+describe("buildLegacyFetchResponse", () => {
+  it("sends no shallow update to a shallow clone that isn't deepening", async () => {
+    const request = legacyRequest(`shallow ${SHALLOW}`);
+    expect(request.shallowOptions?.shallow).toEqual([SHALLOW]);
+
+    const response = buildLegacyFetchResponse({
+      request,
+      commonCommits: [HAVE],
+      ready: false,
+      pack: null,
+      shallowInfo: { shallow: [], unshallow: [] },
+    });
+
+    expect(await responseLines(response)).toEqual([
+      `ACK ${HAVE} common`,
+      "NAK",
+    ]);
+  });
+
+  it("sends the shallow update before the ACKs when deepening", async () => {
+    const request = legacyRequest(`shallow ${SHALLOW}`, "deepen 2");
+
+    const response = buildLegacyFetchResponse({
+      request,
+      commonCommits: [HAVE],
+      ready: false,
+      pack: null,
+      shallowInfo: { shallow: [HAVE], unshallow: [SHALLOW] },
+    });
+
+    expect(await responseLines(response)).toEqual([
+      `shallow ${HAVE}`,
+      `unshallow ${SHALLOW}`,
+      "flush",
+      `ACK ${HAVE} common`,
+      "NAK",
+    ]);
+  });
+});
+
+describe("parseFetchRequest", () => {
+  it("reads negotiation arguments", () => {
+    const request = parseFetchRequest(new Uint8Array(), [
+      `want ${WANT}`,
+      `have ${HAVE}`,
+      "wait-for-done",
+    ]);
+
+    expect(request.wants).toEqual([WANT]);
+    expect(request.haves).toEqual([HAVE]);
+    expect(request.done).toBe(false);
+    expect(request.capabilities.waitForDone).toBe(true);
+  });
+
+  it("reads want-ref and include-tag", () => {
+    const request = parseFetchRequest(new Uint8Array(), [
+      "want-ref refs/heads/main",
+      "include-tag",
+      "done",
+    ]);
+
+    expect(request.wants).toEqual([]);
+    expect(request.wantRefs).toEqual(["refs/heads/main"]);
+    expect(request.capabilities.includeTag).toBe(true);
+    expect(request.done).toBe(true);
+  });
+});
+
+describe("buildFetchResponse", () => {
+  it("only acknowledges while negotiation goes on", async () => {
+    const response = buildFetchResponse({
+      commonCommits: [HAVE],
+      pack: null,
+      noProgress: true,
+      done: false,
+      ready: false,
+    });
+
+    expect(await responseLines(response)).toEqual([
+      "acknowledgments",
+      `ACK ${HAVE}`,
+      "flush",
+    ]);
+  });
+
+  it("sends the pack after ready when negotiation is over", async () => {
+    const response = buildFetchResponse({
+      commonCommits: [HAVE],
+      pack: packEvents(),
+      noProgress: true,
+      done: false,
+      ready: true,
+    });
+
+    expect(await responseLines(response)).toEqual([
+      "acknowledgments",
+      `ACK ${HAVE}`,
+      "ready",
+      "delim",
+      "packfile",
+      "\u0001PACK",
+      "flush",
+    ]);
+  });
+
+  it("skips acknowledgments once the client is done", async () => {
+    const response = buildFetchResponse({
+      commonCommits: [HAVE],
+      pack: packEvents(),
+      noProgress: true,
+      done: true,
+    });
+
+    expect(await responseLines(response)).toEqual([
+      "packfile",
+      "\u0001PACK",
+      "flush",
+    ]);
+  });
+});
+
+describe("buildFetchResponse wanted-refs", () => {
+  it("tells the client what each want-ref resolved to", async () => {
+    const response = buildFetchResponse({
+      commonCommits: [],
+      pack: packEvents(),
+      noProgress: true,
+      done: true,
+      wantedRefs: [{ ref: "refs/heads/main", oid: WANT }],
+    });
+
+    expect(await responseLines(response)).toEqual([
+      "wanted-refs",
+      `${WANT} refs/heads/main`,
+      "delim",
+      "packfile",
+      "\u0001PACK",
+      "flush",
+    ]);
+  });
+});
+
+describe("buildUploadPackError", () => {
+  it("aborts the request with an ERR packet", async () => {
+    const response = buildUploadPackError("unknown ref refs/heads/x");
+
+    expect(
+      PktLine.decode(new Uint8Array(await response.arrayBuffer()))
+    ).toMatchObject({ type: "error", message: "unknown ref refs/heads/x\n" });
+  });
+});
+
+describe("parseReceivePackRequest", () => {
+  const ZERO = "0".repeat(40);
+
+  async function parse(capabilities: string, ...rest: Uint8Array[]) {
+    const body = PktLine.mergeLines([
+      PktLine.encode(`${ZERO} ${WANT} refs/heads/main\0${capabilities}\n`),
+      PktLine.encodeFlush(),
+      ...rest,
+    ]);
+    const request = await parseReceivePackRequest(streamOf(body, 5));
+    const packfile = new Uint8Array(
+      await new Response(request.packfile).arrayBuffer()
+    );
+    return { ...request, packfile: new TextDecoder().decode(packfile) };
+  }
+
+  it("reads push options between the commands and the packfile", async () => {
+    const request = await parse(
+      "report-status push-options",
+      PktLine.encode("pr.create\n"),
+      PktLine.encode("pr.title=a title\n"),
+      PktLine.encodeFlush(),
+      new TextEncoder().encode("PACK")
+    );
+
+    expect(request.commands).toEqual([
+      { oldOid: ZERO, newOid: WANT, ref: "refs/heads/main" },
+    ]);
+    expect(request.pushOptions).toEqual(["pr.create", "pr.title=a title"]);
+    expect(request.packfile).toBe("PACK");
+  });
+
+  it("reads no push options unless the capability was sent", async () => {
+    const request = await parse(
+      "report-status",
+      new TextEncoder().encode("PACK")
+    );
+
+    expect(request.pushOptions).toEqual([]);
+    expect(request.packfile).toBe("PACK");
+  });
+});
@@ -1,18 +1,47 @@
+import { createLogger } from "@/do/logger";
 import { getRepoDOStub } from "@/do/repo";
-import { PktLine } from "./pkt";
-import type { RefUpdateResult } from "./service";
+import { ZERO_OID } from "./oid";
+import { PktLine, PktLineReader } from "./pkt";
+import type { PackEvent, ProgressEvent, RefUpdateResult } from "./service";
+
+const logger = createLogger("GitProtocol");
+
+export type ProtocolVersion = 0 | 1 | 2;
+
+/**
+ * Get the protocol version requested with the `Git-Protocol` header.
+ * Clients that don't send it (or ask for an unknown version) speak v0.
+ *
+ * @param header - Header value, e.g. `version=2` or `version=2:object-format=sha1`
+ * @see https://git-scm.com/docs/protocol-v2#_http_transport
+ */
+export function getProtocolVersion(header: string | null): ProtocolVersion {
+  let version: ProtocolVersion = 0;
+  for (const param of header?.split(":") ?? []) {
+    if (param === "version=2") version = 2;
+    else if (param === "version=1" && version === 0) version = 1;
+  }
+  return version;
+}
 
 export async function advertiseCapabilities(
   service: "git-upload-pack" | "git-receive-pack",
-  fullRepoName: string
+  fullRepoName: string,
+  version: ProtocolVersion = 2
 ) {
+  if (service === "git-upload-pack" && version < 2) {
+    return advertiseUploadPackRefs(fullRepoName, version);
+  }
+
   if (service === "git-upload-pack") {
     const lines = [
       PktLine.encode("version 2\n"),
       PktLine.encode("agent=gitvex/0.0.1\n"),
 
       PktLine.encode("ls-refs\n"),
-      PktLine.encode("fetch\n"),
+      PktLine.encode(
+        "fetch=shallow filter wait-for-done include-tag ref-in-want\n"
+      ),
       PktLine.encode("side-band-64k\n"),
       PktLine.encode("object-format=sha1\n"),
       PktLine.encodeFlush(),
@@ -32,14 +61,19 @@ export async function advertiseCapabilities(
   if (service === "git-receive-pack") {
     const capabilities = [
       "report-status",
+      "report-status-v2",
       "delete-refs",
+      "side-band-64k",
+      "quiet",
       "atomic",
-      "no-thin",
+      "push-options",
+      "ofs-delta",
       "agent=gitflare/0.0.1",
     ];
 
     const stub = getRepoDOStub(fullRepoName);
     const { refs, symbolicHead } = await stub.listRefs();
+    capabilities.push(`push-cert=${await stub.issuePushCertNonce()}`);
 
     if (symbolicHead) {
       capabilities.push(`symref=HEAD:${symbolicHead}`);
@@ -62,9 +96,8 @@ export async function advertiseCapabilities(
       }
     } else {
       // Empty repository - advertise capabilities with zero OID
-      const zeroOid = "0".repeat(40);
       lines.push(
-        PktLine.encode(`${zeroOid} capabilities^{}\0${capabilitiesStr}\n`)
+        PktLine.encode(`${ZERO_OID} capabilities^{}\0${capabilitiesStr}\n`)
       );
     }
 
@@ -81,29 +114,234 @@ export async function advertiseCapabilities(
   }
 }
 
+/**
+ * `info/refs` for dumb HTTP clients, which request it without `?service=`:
+ * every ref with its object id, like `git update-server-info` writes it.
+ *
+ * @see https://git-scm.com/docs/http-protocol#_dumb_clients
+ */
+export async function advertiseDumbRefs(fullRepoName: string) {
+  const { refs } = await getRepoDOStub(fullRepoName).listRefs({ peel: true });
+
+  const lines: string[] = [];
+  for (const { ref, oid, peeled } of refs
+    .filter(({ ref }) => ref !== "HEAD")
+    .sort((a, b) => (a.ref < b.ref ? -1 : 1))) {
+    lines.push(`${oid}\t${ref}\n`);
+    if (peeled) {
+      lines.push(`${peeled}\t${ref}^{}\n`);
+    }
+  }
+
+  return new Response(lines.join(""), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+/**
+ * Serve a file dumb HTTP clients fetch from the repository directory:
+ * `HEAD`, `objects/info/packs`, packs and loose objects.
+ *
+ * @param path - Path relative to the repository directory
+ */
+export async function serveDumbFile(fullRepoName: string, path: string) {
+  return await getRepoDOStub(fullRepoName).fetch(`https://do/dumb/${path}`);
+}
+
+/**
+ * Upload-pack capabilities for protocol v0/v1, sent with the first ref.
+ */
+const LEGACY_UPLOAD_PACK_CAPABILITIES = [
+  "multi_ack",
+  "multi_ack_detailed",
+  "no-done",
+  "thin-pack",
+  "side-band",
+  "side-band-64k",
+  "ofs-delta",
+  "shallow",
+  "deepen-since",
+  "deepen-not",
+  "deepen-relative",
+  "no-progress",
+  "include-tag",
+  "allow-tip-sha1-in-want",
+  "allow-reachable-sha1-in-want",
+  "filter",
+  "object-format=sha1",
+  "agent=gitvex/0.0.1",
+];
+
+/**
+ * Protocol v0/v1 upload-pack ref advertisement. Unlike v2, refs are sent
+ * right away, with peeled annotated tags and the capabilities on the first ref.
+ *
+ * @see https://git-scm.com/docs/http-protocol#_smart_clients
+ */
+async function advertiseUploadPackRefs(
+  fullRepoName: string,
+  version: ProtocolVersion
+) {
+  const stub = getRepoDOStub(fullRepoName);
+  const { refs, symbolicHead } = await stub.listRefs({ peel: true });
+
+  const capabilities = [...LEGACY_UPLOAD_PACK_CAPABILITIES];
+  if (symbolicHead) {
+    capabilities.push(`symref=HEAD:${symbolicHead}`);
+  }
+  const capabilitiesStr = capabilities.join(" ");
+
+  const lines = [
+    PktLine.encode("# service=git-upload-pack\n"),
+    PktLine.encodeFlush(),
+  ];
+  if (version === 1) {
+    lines.push(PktLine.encode("version 1\n"));
+  }
+
+  if (refs.length > 0) {
+    refs.forEach(({ ref, oid, peeled }, i) => {
+      lines.push(
+        PktLine.encode(
+          i === 0 ? `${oid} ${ref}\0${capabilitiesStr}\n` : `${oid} ${ref}\n`
+        )
+      );
+      if (peeled) {
+        lines.push(PktLine.encode(`${peeled} ${ref}^{}\n`));
+      }
+    });
+  } else {
+    // Empty repository - advertise capabilities with zero OID
+    lines.push(
+      PktLine.encode(`${ZERO_OID} capabilities^{}\0${capabilitiesStr}\n`)
+    );
+  }
+
+  lines.push(PktLine.encodeFlush());
+
+  const response = PktLine.decodeText(PktLine.mergeLines(lines));
+  return new Response(response, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-git-upload-pack-advertisement",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
 export type Command = {
   oldOid: string;
   newOid: string;
   ref: string;
 };
 
-export function parseReceivePackRequest(data: Uint8Array) {
+/**
+ * A push certificate sent by `git push --signed`.
+ * @see https://git-scm.com/docs/pack-protocol#_push_certificate
+ */
+export type PushCertificate = {
+  /** Signed part of the certificate: the header, push options and commands */
+  payload: string;
+  /** Armored GPG or SSH signature over `payload` */
+  signature: string;
+  /** Identity of the signer, e.g. `Jane Doe <jane@example.com> 1700000000 +0000` */
+  pusher: string;
+  /** URL the client pushed to */
+  pushee: string | null;
+  /** Nonce advertised with the `push-cert` capability */
+  nonce: string | null;
+};
+
+function parseCommandLine(line: string): Command | null {
+  const parts = line.split(" ");
+  if (parts.length < 3) return null;
+  return { oldOid: parts[0], newOid: parts[1], ref: parts[2] };
+}
+
+/**
+ * Read a push certificate up to its `push-cert-end` line.
+ * Its commands are the ones to execute; they are only sent inside the certificate.
+ */
+async function readPushCertificate(reader: PktLineReader) {
   const commands: Command[] = [];
-  let capabilities: string[] = [];
+  const header = new Map<string, string>();
+  let payload = "";
+  let signature = "";
+  let inHeader = true;
+
+  while (true) {
+    const packet = await reader.read();
+    if (!packet || packet.type === "flush") {
+      throw new Error("push certificate is incomplete");
+    }
+    if (packet.type !== "data") continue;
 
-  let offset = 0;
-  while (offset < data.length) {
-    const packet = PktLine.decode(data.subarray(offset));
+    const line = PktLine.decodeText(packet.data);
+    if (line === "push-cert-end\n") break;
 
-    const lengthHex = PktLine.decodeText(data.slice(offset, offset + 4));
-    const specialPackets = [PktLine.DELIM, PktLine.FLUSH, PktLine.RESPONSE_END];
-    const packetLength = specialPackets.includes(lengthHex)
-      ? 4
-      : Number.parseInt(lengthHex, 16);
+    if (signature || (!inHeader && line.startsWith("-----BEGIN "))) {
+      signature += line;
+      continue;
+    }
+    payload += line;
 
-    offset += packetLength;
+    const text = line.replace(/\n$/, "");
+    if (inHeader) {
+      if (text === "") {
+        inHeader = false;
+        continue;
+      }
+      const space = text.indexOf(" ");
+      if (space > 0 && text.slice(0, space) !== "push-option") {
+        header.set(text.slice(0, space), text.slice(space + 1));
+      }
+    } else {
+      const command = parseCommandLine(text);
+      if (command) commands.push(command);
+    }
+  }
+
+  if (header.get("certificate") !== "version 0.1") {
+    throw new Error("unsupported push certificate version");
+  }
+
+  const certificate: PushCertificate = {
+    payload,
+    signature,
+    pusher: header.get("pusher") ?? "",
+    pushee: header.get("pushee") ?? null,
+    nonce: header.get("nonce") ?? null,
+  };
+  return { certificate, commands };
+}
 
-    if (packet.type === "flush") {
+/**
+ * Parse a receive-pack request as it arrives.
+ * The command list is read up to its flush packet; the packfile that follows
+ * is handed back as a stream so it never has to be buffered.
+ *
+ * Signed pushes send their commands inside a push certificate, which is
+ * returned as well; it still has to be verified.
+ *
+ * @param body - Request body stream
+ * @returns Ref update commands, client capabilities, push options, the push certificate and the packfile stream
+ */
+export async function parseReceivePackRequest(
+  body: ReadableStream<Uint8Array>
+) {
+  const commands: Command[] = [];
+  let capabilities: string[] = [];
+  let certificate: PushCertificate | undefined;
+  const reader = new PktLineReader(body);
+
+  while (true) {
+    const packet = await reader.read();
+
+    if (!packet || packet.type === "flush") {
       // End of commands, packfile follows
       break;
     }
@@ -112,17 +350,18 @@ export function parseReceivePackRequest(data: Uint8Array) {
       const line = PktLine.decodeText(packet.data).trim();
 
       // Parse: <old-oid> <new-oid> <ref>\0<capabilities>
+      // or, for signed pushes: push-cert\0<capabilities>
       const nullIdx = line.indexOf("\0");
       const refLine = nullIdx >= 0 ? line.substring(0, nullIdx) : line;
       const caps = nullIdx >= 0 ? line.substring(nullIdx + 1).split(" ") : [];
 
-      const parts = refLine.split(" ");
-      if (parts.length >= 3) {
-        commands.push({
-          oldOid: parts[0],
-          newOid: parts[1],
-          ref: parts[2],
-        });
+      if (refLine === "push-cert") {
+        const signed = await readPushCertificate(reader);
+        certificate = signed.certificate;
+        commands.push(...signed.commands);
+      } else {
+        const command = parseCommandLine(refLine);
+        if (command) commands.push(command);
       }
 
       if (caps.length > 0 && capabilities.length === 0) {
@@ -131,15 +370,29 @@ export function parseReceivePackRequest(data: Uint8Array) {
     }
   }
 
-  const packfile = data.subarray(offset);
+  // With push-options, the options follow the commands as a flush-terminated list
+  const pushOptions: string[] = [];
+  if (capabilities.includes("push-options") && commands.length > 0) {
+    while (true) {
+      const packet = await reader.read();
+      if (!packet || packet.type === "flush") break;
+      if (packet.type === "data") {
+        pushOptions.push(PktLine.decodeText(packet.data).replace(/\n$/, ""));
+      }
+    }
+  }
+
+  const packfile = reader.remaining();
 
-  return { commands, capabilities, packfile };
+  return { commands, capabilities, pushOptions, certificate, packfile };
 }
 
-export async function buildReportStatus(
-  results: RefUpdateResult[],
-  unpackOk: boolean
-) {
+/**
+ * Encode a report-status (or report-status-v2) section.
+ * Both versions are identical as long as refs are not rewritten, which would
+ * need v2 `option` lines.
+ */
+function encodeReportStatus(results: RefUpdateResult[], unpackOk: boolean) {
   const lines: Uint8Array[] = [];
 
   if (unpackOk) {
@@ -161,12 +414,101 @@ export async function buildReportStatus(
 
   lines.push(PktLine.encodeFlush());
 
-  return new Response(PktLine.decodeText(PktLine.mergeLines(lines)), {
-    status: 200,
-    headers: {
-      "Content-Type": "application/x-git-receive-pack-result",
-      "Cache-Control": "no-cache",
+  return PktLine.mergeLines(lines);
+}
+
+const RECEIVE_PACK_RESULT_HEADERS = {
+  "Content-Type": "application/x-git-receive-pack-result",
+  "Cache-Control": "no-cache",
+};
+
+export async function buildReportStatus(
+  results: RefUpdateResult[],
+  unpackOk: boolean
+) {
+  return new Response(
+    PktLine.decodeText(encodeReportStatus(results, unpackOk)),
+    {
+      status: 200,
+      headers: RECEIVE_PACK_RESULT_HEADERS,
+    }
+  );
+}
+
+/**
+ * Sends feedback to a pushing client while its push is processed.
+ */
+export type ReceivePackReporter = {
+  /** Progress meter update, suppressed when the client asked for `quiet` */
+  progress: (event: ProgressEvent) => void;
+  /** Human-readable message, shown by the client as `remote: <text>` */
+  message: (text: string) => void;
+};
+
+/**
+ * Build the response to a receive-pack request.
+ *
+ * With `side-band-64k` the response starts streaming right away: progress and
+ * messages go out on channel 2 while `processPush` runs, and the report-status
+ * follows on channel 1. Without it, feedback is dropped and the report-status
+ * is sent once the push has been processed.
+ *
+ * @param capabilities - Capabilities requested by the client
+ * @param processPush - Handles the push and resolves with its report-status
+ */
+export async function buildReceivePackResponse(
+  capabilities: string[],
+  processPush: (
+    reporter: ReceivePackReporter
+  ) => Promise<{ results: RefUpdateResult[]; unpackOk: boolean }>
+) {
+  if (!capabilities.includes("side-band-64k")) {
+    const { results, unpackOk } = await processPush({
+      progress: () => undefined,
+      message: () => undefined,
+    });
+    return buildReportStatus(results, unpackOk);
+  }
+
+  const quiet = capabilities.includes("quiet");
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const send = (chunk: Uint8Array) => {
+    // A client that went away only stops the feedback, not the push
+    writer.write(chunk).catch(() => undefined);
+  };
+
+  const reporter: ReceivePackReporter = {
+    progress: (event) => {
+      if (!quiet) send(PktLine.encodeProgress(formatProgress(event)));
     },
+    message: (text) => send(PktLine.encodeProgress(`${text}\n`)),
+  };
+
+  const run = async () => {
+    try {
+      const { results, unpackOk } = await processPush(reporter);
+      for (const result of results) {
+        if (result.message) reporter.message(result.message);
+      }
+      for (const line of PktLine.encodeSidebandChunks(
+        PktLine.SIDEBAND_CHANNEL_PACKFILE,
+        encodeReportStatus(results, unpackOk)
+      )) {
+        send(line);
+      }
+    } catch (error) {
+      logger.error("(receive-pack-response) Failed to process push: ", error);
+      send(PktLine.encodeSidebandError(`${(error as Error).message}\n`));
+    }
+    send(PktLine.encodeFlush());
+    await writer.close().catch(() => undefined);
+  };
+  run();
+
+  return new Response(readable, {
+    status: 200,
+    headers: RECEIVE_PACK_RESULT_HEADERS,
   });
 }
 
@@ -221,6 +563,8 @@ export function parseCommand(data: Uint8Array) {
 
 export type FetchRequest = {
   wants: string[];
+  /** Refs requested with `want-ref`, resolved by the server */
+  wantRefs: string[];
   haves: string[];
   done: boolean;
   capabilities: {
@@ -229,6 +573,8 @@ export type FetchRequest = {
     includeTag: boolean;
     ofsDelta: boolean;
     sidebandAll: boolean;
+    /** Client wants to decide when negotiation ends, even if we are ready */
+    waitForDone: boolean;
   };
   shallowOptions?: {
     shallow: string[];
@@ -245,6 +591,7 @@ export function parseFetchRequest(
   args: string[]
 ): FetchRequest {
   const wants: string[] = [];
+  const wantRefs: string[] = [];
   const haves: string[] = [];
   let done = false;
   const capabilities = {
@@ -253,6 +600,7 @@ export function parseFetchRequest(
     includeTag: false,
     ofsDelta: false,
     sidebandAll: false,
+    waitForDone: false,
   };
   const shallow: string[] = [];
   let deepen: number | undefined;
@@ -265,6 +613,8 @@ export function parseFetchRequest(
   for (const arg of args) {
     if (arg.startsWith("want ")) {
       wants.push(arg.slice("want ".length));
+    } else if (arg.startsWith("want-ref ")) {
+      wantRefs.push(arg.slice("want-ref ".length));
     } else if (arg.startsWith("have ")) {
       haves.push(arg.slice("have ".length));
     } else if (arg === "done") {
@@ -279,6 +629,8 @@ export function parseFetchRequest(
       capabilities.ofsDelta = true;
     } else if (arg === "sideband-all") {
       capabilities.sidebandAll = true;
+    } else if (arg === "wait-for-done") {
+      capabilities.waitForDone = true;
     } else if (arg.startsWith("shallow ")) {
       shallow.push(arg.slice("shallow ".length));
     } else if (arg.startsWith("deepen ")) {
@@ -311,6 +663,7 @@ export function parseFetchRequest(
 
   return {
     wants,
+    wantRefs,
     haves,
     done,
     capabilities,
@@ -392,48 +745,153 @@ export async function buildLsRefsResponse(
   });
 }
 
+export type FetchResponseOptions = {
+  commonCommits: string[];
+  /** Pack being built, streamed into the packfile section as it is produced */
+  pack: AsyncIterable<PackEvent> | null | undefined;
+  noProgress: boolean;
+  done: boolean;
+  /**
+   * Whether negotiation is over without the client sending "done".
+   * Requires `pack`; without it the response ends after the acknowledgments.
+   */
+  ready?: boolean;
+  shallowInfo?: {
+    shallow: string[];
+    unshallow: string[];
+  };
+  /** Refs requested with `want-ref` and the object ids they resolved to */
+  wantedRefs?: Array<{ ref: string; oid: string }>;
+};
+
 /**
- * Parse packfile header to extract object count.
- * Packfile format: 'PACK' + version (4 bytes) + object count (4 bytes)
- *
- * @param packfile - The packfile data
- * @returns Object count, or null if header is invalid
+ * Format a pack event as a git-style progress line, e.g.
+ * `Compressing objects:  50% (5/10)\r` or `Counting objects: 10, done.\n`.
  */
-function parsePackfileObjectCount(packfile: Uint8Array): number | null {
-  // Check minimum size: 'PACK' (4) + version (4) + count (4) = 12 bytes
-  if (packfile.length < 12) {
-    return null;
-  }
+function formatProgress(event: ProgressEvent) {
+  const counter =
+    event.total === undefined
+      ? `${event.loaded}`
+      : `${String(Math.floor((event.loaded * 100) / Math.max(event.total, 1))).padStart(3)}% (${event.loaded}/${event.total})`;
+  return `${event.phase}: ${counter}${event.done ? ", done.\n" : "\r"}`;
+}
 
-  // Verify 'PACK' signature
-  const signature = new TextDecoder().decode(packfile.slice(0, 4));
-  if (signature !== "PACK") {
-    return null;
+/**
+ * Encode one pack event as side-band pkt-lines.
+ * Pack data is split into as many channel 1 packets as needed.
+ */
+function encodePackEvent(
+  event: PackEvent,
+  noProgress: boolean,
+  maxPayload = PktLine.MAX_SIDEBAND_PAYLOAD
+): Uint8Array[] {
+  if (event.type === "data") {
+    return PktLine.encodeSidebandChunks(
+      PktLine.SIDEBAND_CHANNEL_PACKFILE,
+      event.chunk,
+      maxPayload
+    );
   }
 
-  // Read object count (big-endian 32-bit integer at offset 8)
-  // Using DataView for cleaner binary parsing
-  const view = new DataView(
-    packfile.buffer,
-    packfile.byteOffset,
-    packfile.byteLength
-  );
-  const count = view.getUint32(8, false); // false = big-endian
+  if (noProgress) return [];
 
-  return count;
+  if (event.type === "progress") {
+    return [PktLine.encodeProgress(formatProgress(event))];
+  }
+
+  const { stats } = event;
+  return [
+    PktLine.encodeProgress(
+      `Total ${stats.total} (delta ${stats.deltas}), reused ${stats.reused} (delta ${stats.reusedDeltas}), pack-reused 0\n`
+    ),
+  ];
 }
 
-export type FetchResponseOptions = {
-  commonCommits: string[];
-  packfileData: Uint8Array | null | undefined;
-  noProgress: boolean;
-  done: boolean;
-  objectCount?: number;
+const UPLOAD_PACK_RESULT_HEADERS = {
+  "Content-Type": "application/x-git-upload-pack-result",
+  "Cache-Control": "no-cache",
 };
 
-export async function buildFetchResponse(options: FetchResponseOptions) {
+/**
+ * Stream a response made of `lines` followed by the pack as it is built.
+ *
+ * @param lines - Packets sent before the pack
+ * @param pack - Pack being built
+ * @param encoding - How pack events, the end of the pack and errors are sent
+ */
+function streamPackResponse(
+  lines: Uint8Array[],
+  pack: AsyncIterable<PackEvent>,
+  encoding: {
+    event: (event: PackEvent) => Uint8Array[];
+    end: Uint8Array[];
+    error: (message: string) => Uint8Array[];
+  }
+) {
+  const events = pack[Symbol.asyncIterator]();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(PktLine.mergeLines(lines));
+    },
+    async pull(controller) {
+      try {
+        // Keep going until something is enqueued, otherwise the stream stalls
+        while (true) {
+          const next = await events.next();
+          if (next.done) {
+            if (encoding.end.length > 0) {
+              controller.enqueue(PktLine.mergeLines(encoding.end));
+            }
+            controller.close();
+            return;
+          }
+          const encoded = encoding.event(next.value);
+          if (encoded.length > 0) {
+            controller.enqueue(PktLine.mergeLines(encoded));
+            return;
+          }
+        }
+      } catch (error) {
+        // Headers are already sent, so report the failure in the stream
+        logger.error("(fetch-response) Failed to stream packfile: ", error);
+        const encoded = encoding.error(
+          `pack-objects failed: ${(error as Error).message}\n`
+        );
+        if (encoded.length > 0) {
+          controller.enqueue(PktLine.mergeLines(encoded));
+        }
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return?.();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: UPLOAD_PACK_RESULT_HEADERS,
+  });
+}
+
+/**
+ * Build the response to a protocol v2 `fetch` command.
+ *
+ * The packfile section is streamed: pack data and progress messages are
+ * multiplexed onto the side-band as the pack is built, so neither the pack nor
+ * the response is ever fully held in memory.
+ */
+export function buildFetchResponse(options: FetchResponseOptions) {
   const lines: Uint8Array[] = [];
-  const { commonCommits, packfileData, noProgress, done } = options;
+  const {
+    commonCommits,
+    pack,
+    noProgress,
+    done,
+    ready,
+    shallowInfo,
+    wantedRefs,
+  } = options;
 
   // Protocol v2 spec: If client sent "done", acknowledgments section MUST be omitted
   if (!done) {
@@ -448,74 +906,228 @@ export async function buildFetchResponse(options: FetchResponseOptions) {
       }
     }
 
-    // Send "ready" to indicate server is ready to send packfile
-    lines.push(PktLine.encode("ready\n"));
+    if (ready) {
+      // "ready" means the packfile section follows, without waiting for "done"
+      lines.push(PktLine.encode("ready\n"));
+      // Delimiter separates acknowledgments section from packfile section
+      lines.push(PktLine.encodeDelim());
+    }
+  }
 
-    // Delimiter separates acknowledgments section from packfile section
+  if (!pack) {
+    lines.push(PktLine.encodeFlush());
+    // @ts-expect-error ts is complaining that Uint8Array is not assignable to BodyInit
+    return new Response(PktLine.mergeLines(lines), {
+      status: 200,
+      headers: UPLOAD_PACK_RESULT_HEADERS,
+    });
+  }
+
+  // Shallow-info section is only sent together with the packfile section
+  if (shallowInfo) {
+    lines.push(PktLine.encode("shallow-info\n"));
+    for (const oid of shallowInfo.shallow) {
+      lines.push(PktLine.encode(`shallow ${oid}\n`));
+    }
+    for (const oid of shallowInfo.unshallow) {
+      lines.push(PktLine.encode(`unshallow ${oid}\n`));
+    }
     lines.push(PktLine.encodeDelim());
   }
 
-  // Packfile section
-  if (packfileData && packfileData.length > 0) {
-    // Packfile section header - required by protocol v2
-    lines.push(PktLine.encode("packfile\n"));
+  // Wanted-refs section tells the client what each `want-ref` resolved to
+  if (wantedRefs && wantedRefs.length > 0) {
+    lines.push(PktLine.encode("wanted-refs\n"));
+    for (const { ref, oid } of wantedRefs) {
+      lines.push(PktLine.encode(`${oid} ${ref}\n`));
+    }
+    lines.push(PktLine.encodeDelim());
+  }
 
-    // Parse object count from packfile header
-    const objectCount =
-      options.objectCount ?? parsePackfileObjectCount(packfileData);
+  // Packfile section header - required by protocol v2
+  lines.push(PktLine.encode("packfile\n"));
 
-    // Send progress messages if not suppressed
-    if (!noProgress && objectCount !== null) {
-      lines.push(
-        PktLine.encodeProgress(
-          `remote: Counting objects: ${objectCount}, done.\r\n`
-        )
-      );
-      lines.push(
-        PktLine.encodeProgress(
-          `remote: Compressing objects: 100% (${objectCount}/${objectCount}), done.\r\n`
-        )
-      );
-    }
+  return streamPackResponse(lines, pack, {
+    event: (event) => encodePackEvent(event, noProgress),
+    end: [PktLine.encodeFlush()],
+    error: (message) => [PktLine.encodeSidebandError(message)],
+  });
+}
 
-    // Split packfile into chunks and multiplex with side-band
-    // Side-band format: pkt-line(stream-code + data)
-    // Stream code: 1 = pack data, 2 = progress, 3 = error
-    for (
-      let offset = 0;
-      offset < packfileData.length;
-      offset += PktLine.MAX_SIDEBAND_PAYLOAD
-    ) {
-      const end = Math.min(
-        offset + PktLine.MAX_SIDEBAND_PAYLOAD,
-        packfileData.length
-      );
-      const chunk = packfileData.subarray(offset, end);
+export type LegacyFetchRequest = FetchRequest & {
+  /** ACK mode: plain, `multi_ack` or `multi_ack_detailed` */
+  multiAck: "none" | "multi_ack" | "multi_ack_detailed";
+  sideBand: "none" | "side-band" | "side-band-64k";
+  /** Pack may follow "ACK <oid> ready" without the client sending "done" */
+  noDone: boolean;
+};
 
-      lines.push(
-        PktLine.encodeSideband(PktLine.SIDEBAND_CHANNEL_PACKFILE, chunk)
-      );
+/**
+ * Parse a protocol v0/v1 upload-pack request. With the stateless HTTP
+ * transport, every request repeats the wants, shallow lines and all haves
+ * sent so far, and ends with a flush (more negotiation) or "done".
+ *
+ * @see https://git-scm.com/docs/pack-protocol#_packfile_negotiation
+ */
+export function parseLegacyFetchRequest(data: Uint8Array): LegacyFetchRequest {
+  const args: string[] = [];
+  let capabilities: string[] = [];
+
+  let offset = 0;
+  while (offset + 4 <= data.length) {
+    const packet = PktLine.decode(data.subarray(offset));
+    if (packet.type !== "data") {
+      // Flush packets separate wants from haves
+      offset += 4;
+      continue;
     }
+    offset += Number.parseInt(
+      PktLine.decodeText(data.subarray(offset, offset + 4)),
+      16
+    );
 
-    // Send final progress message if not suppressed
-    if (!noProgress && objectCount !== null) {
-      lines.push(
-        PktLine.encodeProgress(
-          `remote: Total ${objectCount} (delta 0), reused ${objectCount} (delta 0), pack-reused 0        \r\n`
-        )
-      );
+    const line = PktLine.decodeText(packet.data).replace(/\r?\n$/, "");
+    // Capabilities are sent once, after the first want
+    if (line.startsWith("want ") && args.length === 0) {
+      const [want, oid, ...rest] = line.split(" ");
+      capabilities = rest;
+      args.push(`${want} ${oid}`);
+    } else {
+      args.push(line);
     }
+  }
+
+  const request = parseFetchRequest(data, [...args, ...capabilities]);
+  const has = (capability: string) => capabilities.includes(capability);
+
+  let multiAck: LegacyFetchRequest["multiAck"] = "none";
+  if (has("multi_ack_detailed")) multiAck = "multi_ack_detailed";
+  else if (has("multi_ack")) multiAck = "multi_ack";
+
+  let sideBand: LegacyFetchRequest["sideBand"] = "none";
+  if (has("side-band-64k")) sideBand = "side-band-64k";
+  else if (has("side-band")) sideBand = "side-band";
+
+  return { ...request, multiAck, sideBand, noDone: has("no-done") };
+}
+
+/**
+ * Whether a fetch asks to change the client's depth (`deepen`,
+ * `deepen-since` or `deepen-not`), rather than only listing its shallow
+ * commits.
+ */
+function isDeepening(options: FetchRequest["shallowOptions"]) {
+  return (
+    options?.deepen !== undefined ||
+    options?.deepenSince !== undefined ||
+    (options?.deepenNot?.length ?? 0) > 0
+  );
+}
+
+export type LegacyFetchResponseOptions = {
+  request: LegacyFetchRequest;
+  commonCommits: string[];
+  /** Whether the common commits cover the wants (multi_ack_detailed only) */
+  ready: boolean;
+  /** Pack to send, once negotiation is over */
+  pack: AsyncIterable<PackEvent> | null;
+  /**
+   * Sent in every round while the client deepens; clients only read the
+   * shallow update after sending a deepen argument
+   */
+  shallowInfo?: {
+    shallow: string[];
+    unshallow: string[];
+  };
+};
 
+/**
+ * Build the response to a protocol v0/v1 upload-pack request: the shallow
+ * update, ACK/NAK lines for the negotiation round, then the pack, either raw
+ * or multiplexed onto the side-band.
+ */
+export function buildLegacyFetchResponse(options: LegacyFetchResponseOptions) {
+  const { request, commonCommits, ready, pack, shallowInfo } = options;
+  const lines: Uint8Array[] = [];
+
+  // A shallow clone fetching without deepening sends its shallow lines but
+  // expects the ACK/NAK lines right away, a flush here would end negotiation
+  if (shallowInfo && isDeepening(request.shallowOptions)) {
+    for (const oid of shallowInfo.shallow) {
+      lines.push(PktLine.encode(`shallow ${oid}\n`));
+    }
+    for (const oid of shallowInfo.unshallow) {
+      lines.push(PktLine.encode(`unshallow ${oid}\n`));
+    }
     lines.push(PktLine.encodeFlush());
   }
 
+  const last = commonCommits.at(-1);
+  if (request.multiAck === "none") {
+    // Only the first common commit is ever acknowledged
+    lines.push(
+      PktLine.encode(
+        commonCommits.length > 0 ? `ACK ${commonCommits[0]}\n` : "NAK\n"
+      )
+    );
+  } else {
+    const status = request.multiAck === "multi_ack" ? "continue" : "common";
+    for (const oid of commonCommits) {
+      lines.push(PktLine.encode(`ACK ${oid} ${status}\n`));
+    }
+
+    if (request.done) {
+      lines.push(PktLine.encode(last ? `ACK ${last}\n` : "NAK\n"));
+    } else {
+      if (ready && last) {
+        lines.push(PktLine.encode(`ACK ${last} ready\n`));
+      }
+      lines.push(PktLine.encode("NAK\n"));
+      // With no-done, the final ACK replaces the client's "done"
+      if (pack && last) {
+        lines.push(PktLine.encode(`ACK ${last}\n`));
+      }
+    }
+  }
+
+  if (!pack) {
+    // @ts-expect-error ts is complaining that Uint8Array is not assignable to BodyInit
+    return new Response(PktLine.mergeLines(lines), {
+      status: 200,
+      headers: UPLOAD_PACK_RESULT_HEADERS,
+    });
+  }
+
+  if (request.sideBand === "none") {
+    // Raw pack data; progress can't be sent and errors just cut the pack short
+    return streamPackResponse(lines, pack, {
+      event: (event) => (event.type === "data" ? [event.chunk] : []),
+      end: [],
+      error: () => [],
+    });
+  }
+
+  const maxPayload =
+    request.sideBand === "side-band-64k"
+      ? PktLine.MAX_SIDEBAND_PAYLOAD
+      : PktLine.MAX_SMALL_SIDEBAND_PAYLOAD;
+  return streamPackResponse(lines, pack, {
+    event: (event) =>
+      encodePackEvent(event, request.capabilities.noProgress, maxPayload),
+    end: [PktLine.encodeFlush()],
+    error: (message) => [PktLine.encodeSidebandError(message)],
+  });
+}
+
+/**
+ * Build an upload-pack response that aborts the request with an ERR packet,
+ * for errors the client should show (e.g. an unknown `want-ref`).
+ */
+export function buildUploadPackError(message: string) {
   // @ts-expect-error ts is complaining that Uint8Array is not assignable to BodyInit
-  return new Response(PktLine.mergeLines(lines), {
+  return new Response(PktLine.encodeError(message), {
     status: 200,
-    headers: {
-      "Content-Type": "application/x-git-upload-pack-result",
-      "Cache-Control": "no-cache",
-    },
+    headers: UPLOAD_PACK_RESULT_HEADERS,
   });
 }
 
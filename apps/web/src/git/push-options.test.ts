@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parsePushOptions } from "./push-options";
+
+describe("parsePushOptions", () => {
+  it("reads pull request options", () => {
+    expect(
+      parsePushOptions([
+        "pr.create",
+        "pr.target=main",
+        "pr.title=Fix: handle a=b",
+        "pr.description=",
+      ])
+    ).toEqual({
+      createPullRequest: true,
+      pullRequestTarget: "main",
+      pullRequestTitle: "Fix: handle a=b",
+      pullRequestDescription: undefined,
+      skipCi: false,
+      raw: {
+        "pr.create": "",
+        "pr.target": "main",
+        "pr.title": "Fix: handle a=b",
+        "pr.description": "",
+      },
+    });
+  });
+
+  it.each([
+    ["ci.skip", true],
+    ["ci.skip=true", true],
+    ["ci.skip=yes", true],
+    ["ci.skip=false", false],
+    ["ci.skip=NO", false],
+    ["ci.skip=off", false],
+    ["ci.skip=0", false],
+  ])("reads %s as %s", (option, skipCi) => {
+    expect(parsePushOptions([option]).skipCi).toBe(skipCi);
+  });
+
+  it("keeps unknown options and the last value of repeated ones", () => {
+    const options = parsePushOptions(["merge_request.create", "x=1", "x=2"]);
+
+    expect(options.createPullRequest).toBe(false);
+    expect(options.raw).toEqual({ "merge_request.create": "", x: "2" });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Push options sent with `git push -o <option>`.
+ *
+ * @see https://git-scm.com/docs/git-push#Documentation/git-push.txt--oltoptiongt
+ */
+
+export type PushOptions = {
+  /** `pr.create`: open a pull request for each pushed branch */
+  createPullRequest: boolean;
+  /** `pr.target=<branch>`: branch to merge into, the default branch if unset */
+  pullRequestTarget?: string;
+  /** `pr.title=<title>`: defaults to the subject of the pushed commit */
+  pullRequestTitle?: string;
+  /** `pr.description=<text>` */
+  pullRequestDescription?: string;
+  /** `ci.skip`: don't run CI for this push */
+  skipCi: boolean;
+  /** Every option as sent, `key=value` options split at the first "=" */
+  raw: Record<string, string>;
+};
+
+/**
+ * Flags are enabled by being sent alone, or with a truthy value as in
+ * `git config` (e.g. `ci.skip=true`).
+ */
+function isEnabled(value: string | undefined) {
+  if (value === undefined) return false;
+  return !["false", "no", "off", "0"].includes(value.toLowerCase());
+}
+
+/**
+ * Parse the options sent in the push-options section of a push.
+ *
+ * @param options - Option lines, e.g. `pr.create` or `pr.target=main`
+ */
+export function parsePushOptions(options: string[]): PushOptions {
+  const raw: Record<string, string> = {};
+  for (const option of options) {
+    const separator = option.indexOf("=");
+    if (separator === -1) {
+      raw[option] = "";
+    } else {
+      raw[option.slice(0, separator)] = option.slice(separator + 1);
+    }
+  }
+
+  return {
+    createPullRequest: isEnabled(raw["pr.create"]),
+    pullRequestTarget: raw["pr.target"] || undefined,
+    pullRequestTitle: raw["pr.title"] || undefined,
+    pullRequestDescription: raw["pr.description"] || undefined,
+    skipCi: isEnabled(raw["ci.skip"]),
+    raw,
+  };
+}
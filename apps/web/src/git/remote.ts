@@ -0,0 +1,465 @@
+/**
+ * Client side of the smart HTTP protocol, for talking to repositories hosted
+ * elsewhere. Fetches use protocol v2, pushes use v0 since receive-pack has no
+ * v2 equivalent.
+ * @see https://git-scm.com/docs/protocol-v2
+ * @see https://git-scm.com/docs/pack-protocol#_pushing_data_to_a_server
+ * @see https://git-scm.com/docs/http-protocol
+ */
+
+import { PktLine, PktLineReader } from "./pkt";
+import type { Command } from "./protocol";
+import type { RefUpdateResult } from "./service";
+
+const USER_AGENT = "git/gitvex-0.0.1";
+
+export type RemoteCredentials = {
+  username: string;
+  password: string;
+};
+
+export type RemoteRef = {
+  ref: string;
+  oid: string;
+  /** Object an annotated tag points to */
+  peeled?: string;
+  /** Ref a symbolic ref (HEAD) points to */
+  symrefTarget?: string;
+};
+
+/**
+ * Check a remote URL can be used, and normalize it.
+ *
+ * @returns The URL without a trailing slash
+ * @throws If it is not an http(s) URL
+ */
+export function parseRemoteUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`invalid remote URL '${url}'`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error("only http(s) remotes are supported");
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error("pass credentials separately, not in the remote URL");
+  }
+  return parsed.toString().replace(/\/+$/, "");
+}
+
+function decodeLine(data: Uint8Array) {
+  return PktLine.decodeText(data).replace(/\n$/, "");
+}
+
+/**
+ * Stream `bytes` followed by the contents of `stream`.
+ */
+function prependBytes(bytes: Uint8Array, stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+    },
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Read a report-status section, sent in reply to a push.
+ *
+ * @throws If the remote failed to unpack the packfile
+ */
+async function readReportStatus(
+  reader: PktLineReader
+): Promise<RefUpdateResult[]> {
+  const results: RefUpdateResult[] = [];
+  for (
+    let packet = await reader.read();
+    packet?.type === "data";
+    packet = await reader.read()
+  ) {
+    const line = decodeLine(packet.data);
+    if (line.startsWith("unpack ")) {
+      const status = line.slice("unpack ".length);
+      if (status !== "ok") {
+        throw new Error(`remote failed to unpack: ${status}`);
+      }
+    } else if (line.startsWith("ok ")) {
+      results.push({ ref: line.slice("ok ".length), ok: true });
+    } else if (line.startsWith("ng ")) {
+      const [ref, ...reason] = line.slice("ng ".length).split(" ");
+      results.push({ ref, ok: false, error: reason.join(" ") });
+    }
+  }
+  return results;
+}
+
+/**
+ * A repository served over smart HTTP.
+ */
+export class GitRemote {
+  readonly url: string;
+  private readonly credentials: RemoteCredentials | null;
+  private capabilities: Map<string, string> | null = null;
+  private receivePackCapabilities: string[] | null = null;
+
+  /**
+   * @param url - Repository URL, as given to `git clone`
+   * @param credentials - Sent with Basic auth, e.g. a username and token
+   */
+  constructor(url: string, credentials: RemoteCredentials | null = null) {
+    this.url = parseRemoteUrl(url);
+    this.credentials = credentials;
+  }
+
+  private async request(path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    headers.set("User-Agent", USER_AGENT);
+    if (this.credentials) {
+      const { username, password } = this.credentials;
+      headers.set(
+        "Authorization",
+        `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`
+      );
+    }
+
+    const res = await fetch(`${this.url}/${path}`, { ...init, headers });
+    if (res.status === 401 || res.status === 403) {
+      throw new Error(`authentication failed for ${this.url}`);
+    }
+    if (!(res.ok && res.body)) {
+      throw new Error(`${this.url} returned ${res.status} ${res.statusText}`);
+    }
+    return res;
+  }
+
+  /**
+   * Read the capability advertisement, making sure the remote speaks v2.
+   */
+  private async handshake() {
+    if (this.capabilities) return this.capabilities;
+
+    const res = await this.request("info/refs?service=git-upload-pack", {
+      headers: { "Git-Protocol": "version=2" },
+    });
+    if (res.body === null) {
+      throw new Error(`${this.url} sent an empty advertisement`);
+    }
+    const reader = new PktLineReader(res.body);
+
+    let packet = await reader.read();
+    // Some servers start with the v0 service line, even for v2
+    if (
+      packet?.type === "data" &&
+      decodeLine(packet.data).startsWith("# service=")
+    ) {
+      await reader.read();
+      packet = await reader.read();
+    }
+    if (!(packet?.type === "data" && decodeLine(packet.data) === "version 2")) {
+      throw new Error(`${this.url} does not support Git protocol v2`);
+    }
+
+    const capabilities = new Map<string, string>();
+    for (
+      packet = await reader.read();
+      packet?.type === "data";
+      packet = await reader.read()
+    ) {
+      const [key, value = ""] = decodeLine(packet.data).split("=", 2);
+      capabilities.set(key, value);
+    }
+    this.capabilities = capabilities;
+    return capabilities;
+  }
+
+  /**
+   * Send a v2 command.
+   *
+   * @returns The response, as pkt-lines
+   */
+  private async command(name: string, args: string[]) {
+    const capabilities = await this.handshake();
+    const lines = [
+      PktLine.encode(`command=${name}\n`),
+      PktLine.encode(`agent=${USER_AGENT.slice("git/".length)}\n`),
+    ];
+    const objectFormat = capabilities.get("object-format");
+    if (objectFormat) {
+      lines.push(PktLine.encode(`object-format=${objectFormat}\n`));
+    }
+    lines.push(PktLine.encodeDelim());
+    for (const arg of args) {
+      lines.push(PktLine.encode(`${arg}\n`));
+    }
+    lines.push(PktLine.encodeFlush());
+
+    const res = await this.request("git-upload-pack", {
+      method: "POST",
+      body: PktLine.mergeLines(lines) as Uint8Array<ArrayBuffer>,
+      headers: {
+        "Content-Type": "application/x-git-upload-pack-request",
+        Accept: "application/x-git-upload-pack-result",
+        "Git-Protocol": "version=2",
+      },
+    });
+    return new PktLineReader(res.body ?? new ReadableStream());
+  }
+
+  /**
+   * Check that the remote repository uses SHA-1 object ids, as ours do.
+   *
+   * @throws Error if it uses another object format
+   */
+  async checkObjectFormat() {
+    const name = (await this.handshake()).get("object-format") ?? "sha1";
+    if (name !== "sha1") {
+      throw new Error(`${this.url} uses ${name} object ids, not sha1`);
+    }
+  }
+
+  /**
+   * List the remote's branches and tags, and HEAD.
+   */
+  async lsRefs(): Promise<RemoteRef[]> {
+    const reader = await this.command("ls-refs", [
+      "peel",
+      "symrefs",
+      "ref-prefix HEAD",
+      "ref-prefix refs/heads/",
+      "ref-prefix refs/tags/",
+    ]);
+
+    const refs: RemoteRef[] = [];
+    for (
+      let packet = await reader.read();
+      packet && packet.type !== "flush";
+      packet = await reader.read()
+    ) {
+      if (packet.type === "error") {
+        throw new Error(`${this.url}: ${packet.message.trim()}`);
+      }
+      if (packet.type !== "data") continue;
+
+      const [oid, ref, ...attributes] = decodeLine(packet.data).split(" ");
+      const remoteRef: RemoteRef = { ref, oid };
+      for (const attribute of attributes) {
+        if (attribute.startsWith("peeled:")) {
+          remoteRef.peeled = attribute.slice("peeled:".length);
+        } else if (attribute.startsWith("symref-target:")) {
+          remoteRef.symrefTarget = attribute.slice("symref-target:".length);
+        }
+      }
+      refs.push(remoteRef);
+    }
+    return refs;
+  }
+
+  /**
+   * Fetch a packfile with the objects reachable from `wants` that are not
+   * reachable from `haves`.
+   *
+   * @param args.onProgress - Receives progress messages from the remote
+   * @returns The packfile, streamed as it arrives
+   */
+  async fetchPack(args: {
+    wants: string[];
+    haves?: string[];
+    onProgress?: (message: string) => void;
+  }): Promise<ReadableStream<Uint8Array>> {
+    const reader = await this.command("fetch", [
+      "ofs-delta",
+      ...args.wants.map((oid) => `want ${oid}`),
+      ...(args.haves ?? []).map((oid) => `have ${oid}`),
+      "done",
+    ]);
+
+    // With `done`, the server skips negotiation and sends the pack right away
+    for (;;) {
+      const packet = await reader.read();
+      if (!packet) {
+        throw new Error(`${this.url} ended the response before the packfile`);
+      }
+      if (packet.type === "error") {
+        throw new Error(`${this.url}: ${packet.message.trim()}`);
+      }
+      if (packet.type === "data" && decodeLine(packet.data) === "packfile") {
+        break;
+      }
+    }
+
+    const url = this.url;
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        for (;;) {
+          const packet = await reader.read();
+          if (!packet || packet.type !== "data") {
+            controller.close();
+            return;
+          }
+
+          const channel = packet.data[0];
+          const payload = packet.data.subarray(1);
+          if (channel === PktLine.SIDEBAND_CHANNEL_PACKFILE) {
+            controller.enqueue(payload);
+            return;
+          }
+          if (channel === PktLine.SIDEBAND_CHANNEL_PROGRESS) {
+            args.onProgress?.(PktLine.decodeText(payload));
+          } else if (channel === PktLine.SIDEBAND_CHANNEL_ERROR) {
+            controller.error(
+              new Error(`${url}: ${PktLine.decodeText(payload).trim()}`)
+            );
+            return;
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * List the remote's refs as advertised to pushers. Only branches and tags
+   * are returned.
+   */
+  async listPushRefs(): Promise<RemoteRef[]> {
+    const res = await this.request("info/refs?service=git-receive-pack");
+    const reader = new PktLineReader(res.body ?? new ReadableStream());
+
+    const refs: RemoteRef[] = [];
+    let capabilities: string[] = [];
+    for (
+      let packet = await reader.read();
+      packet;
+      packet = await reader.read()
+    ) {
+      if (packet.type === "error") {
+        throw new Error(`${this.url}: ${packet.message.trim()}`);
+      }
+      if (packet.type !== "data") continue;
+
+      const line = decodeLine(packet.data);
+      if (line.startsWith("# service=")) continue;
+
+      const [refLine, capabilityList] = line.split("\0", 2);
+      if (capabilityList !== undefined) {
+        capabilities = capabilityList.split(" ").filter(Boolean);
+      }
+      // Empty repositories advertise `capabilities^{}` instead of a ref
+      const [oid, ref] = refLine.split(" ", 2);
+      if (/^refs\/(heads|tags)\/.+/.test(ref) && !ref.endsWith("^{}")) {
+        refs.push({ ref, oid });
+      }
+    }
+
+    this.receivePackCapabilities = capabilities;
+    return refs;
+  }
+
+  /**
+   * Check that the remote repository uses SHA-1 object ids, as advertised to
+   * pushers. Must be called after {@link GitRemote.listPushRefs}.
+   *
+   * @throws Error if it uses another object format
+   */
+  checkPushObjectFormat() {
+    // Remotes that don't advertise a format only support SHA-1
+    const name =
+      this.receivePackCapabilities
+        ?.find((capability) => capability.startsWith("object-format="))
+        ?.slice("object-format=".length) ?? "sha1";
+    if (name !== "sha1") {
+      throw new Error(`${this.url} uses ${name} object ids, not sha1`);
+    }
+  }
+
+  /**
+   * Whether the remote accepts ofs-delta entries in pushed packs. Must be
+   * called after {@link GitRemote.listPushRefs}.
+   */
+  acceptsOfsDelta() {
+    return this.receivePackCapabilities?.includes("ofs-delta") ?? false;
+  }
+
+  /**
+   * Update the remote's refs. Old object ids must match the remote's refs,
+   * so refs updated elsewhere in the meantime are rejected.
+   *
+   * @param args.packfile - Objects the remote needs, null for deletions only
+   * @returns The result of each ref update
+   */
+  async push(args: {
+    commands: Command[];
+    packfile: ReadableStream<Uint8Array> | null;
+  }): Promise<RefUpdateResult[]> {
+    if (!this.receivePackCapabilities) {
+      await this.listPushRefs();
+    }
+    const advertised = this.receivePackCapabilities ?? [];
+    const sideBand = advertised.includes("side-band-64k");
+    const capabilities = [
+      "report-status",
+      `agent=${USER_AGENT.slice("git/".length)}`,
+      ...advertised.filter(
+        (capability) =>
+          capability === "quiet" ||
+          capability === "side-band-64k" ||
+          capability.startsWith("object-format=")
+      ),
+    ];
+
+    const lines = args.commands.map(({ oldOid, newOid, ref }, i) =>
+      PktLine.encode(
+        i === 0
+          ? `${oldOid} ${newOid} ${ref}\0${capabilities.join(" ")}\n`
+          : `${oldOid} ${newOid} ${ref}\n`
+      )
+    );
+    lines.push(PktLine.encodeFlush());
+    const header = PktLine.mergeLines(lines) as Uint8Array<ArrayBuffer>;
+
+    const res = await this.request("git-receive-pack", {
+      method: "POST",
+      body: args.packfile ? prependBytes(header, args.packfile) : header,
+      headers: {
+        "Content-Type": "application/x-git-receive-pack-request",
+        Accept: "application/x-git-receive-pack-result",
+      },
+    });
+
+    const reader = new PktLineReader(res.body ?? new ReadableStream());
+    if (!sideBand) {
+      return await readReportStatus(reader);
+    }
+
+    // The report-status is sent on the packfile channel
+    const report: Uint8Array[] = [];
+    for (
+      let packet = await reader.read();
+      packet?.type === "data";
+      packet = await reader.read()
+    ) {
+      const channel = packet.data[0];
+      const payload = packet.data.subarray(1);
+      if (channel === PktLine.SIDEBAND_CHANNEL_PACKFILE) {
+        report.push(payload);
+      } else if (channel === PktLine.SIDEBAND_CHANNEL_ERROR) {
+        throw new Error(`${this.url}: ${PktLine.decodeText(payload).trim()}`);
+      }
+    }
+    return await readReportStatus(
+      new PktLineReader(new Blob(report as Uint8Array<ArrayBuffer>[]).stream())
+    );
+  }
+}
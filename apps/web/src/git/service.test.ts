@@ -0,0 +1,731 @@
+import git from "isomorphic-git";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  fullEntry,
+  ofsDeltaEntry,
+  packOf,
+  refDeltaEntry,
+  streamOf,
+} from "@/test/packs";
+import {
+  createTestRepository,
+  type TestRepository,
+  writeCommit,
+} from "@/test/storage";
+import type { BranchProtectionRule, PushPolicy } from "./branch-protection";
+import { readBundle } from "./bundle";
+import { PackScanner } from "./index-pack";
+import { createDelta, hashObject, parsePackIndex } from "./pack";
+
+const encoder = new TextEncoder();
+const ZERO = "0".repeat(40);
+const MAIN = "refs/heads/main";
+
+async function readMain(repo: TestRepository) {
+  return await git.resolveRef({
+    fs: repo.fs,
+    gitdir: repo.gitdir,
+    ref: MAIN,
+  });
+}
+
+/**
+ * Policy of a pusher named alice, protecting main with the given options
+ * (nothing allowed by default), or nothing if unset.
+ */
+function policy(main?: Partial<BranchProtectionRule>): PushPolicy {
+  const rules = main
+    ? [
+        {
+          pattern: "main",
+          allowDeletion: false,
+          allowForcePush: false,
+          requireLinearHistory: false,
+          requireSignedPush: false,
+          ...main,
+        },
+      ]
+    : [];
+  return { pusher: "alice", token: null, signingKeys: [], rules };
+}
+
+describe("GitService.applyRefUpdates", () => {
+  let repo: TestRepository;
+  let base: string;
+  let head: string;
+  let rewritten: string;
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    head = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+      time: 1_700_000_100,
+    });
+    // A rewrite of `head`, not descending from it
+    rewritten = await writeCommit(repo, {
+      files: { "a.txt": "c" },
+      parents: [base],
+      time: 1_700_000_200,
+    });
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: ZERO, newOid: base }]);
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: base, newOid: head }]);
+  });
+
+  it("accepts force-pushes to unprotected branches", async () => {
+    const [result] = await repo.git.applyRefUpdates([
+      { ref: MAIN, oldOid: head, newOid: rewritten },
+    ]);
+
+    expect(result).toMatchObject({ ref: MAIN, ok: true });
+    expect(await readMain(repo)).toBe(rewritten);
+  });
+
+  it("rejects force-pushes to protected branches", async () => {
+    const [result] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: rewritten }],
+      { policy: policy({}) }
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: "protected branch: force-push not allowed",
+    });
+    expect(await readMain(repo)).toBe(head);
+  });
+
+  it("accepts fast-forwards and allowed force-pushes to protected branches", async () => {
+    const next = await writeCommit(repo, {
+      files: { "a.txt": "d" },
+      parents: [head],
+      time: 1_700_000_300,
+    });
+    const [fastForward] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: next }],
+      { policy: policy({}) }
+    );
+    const [forcePush] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: next, newOid: rewritten }],
+      { policy: policy({ allowForcePush: true }) }
+    );
+
+    expect(fastForward?.ok).toBe(true);
+    expect(forcePush?.ok).toBe(true);
+    expect(await readMain(repo)).toBe(rewritten);
+  });
+
+  it("rejects deleting protected branches unless allowed", async () => {
+    const [rejected] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: ZERO }],
+      { policy: policy({}) }
+    );
+    expect(rejected?.ok).toBe(false);
+    expect(await readMain(repo)).toBe(head);
+
+    const [deleted] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: ZERO }],
+      { policy: policy({ allowDeletion: true }) }
+    );
+    expect(deleted?.ok).toBe(true);
+    await expect(readMain(repo)).rejects.toThrow();
+  });
+
+  it("rejects merge commits on branches requiring linear history", async () => {
+    const merge = await writeCommit(repo, {
+      files: { "a.txt": "d" },
+      parents: [head, rewritten],
+      time: 1_700_000_300,
+    });
+    await repo.git.updateCommitGraph([merge]);
+
+    const [result] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: merge }],
+      { policy: policy({ requireLinearHistory: true }) }
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: "protected branch: merge commits not allowed",
+    });
+  });
+
+  it("rejects unsigned pushes to branches requiring signed pushes", async () => {
+    const [result] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: rewritten }],
+      { policy: policy({ allowForcePush: true, requireSignedPush: true }) }
+    );
+
+    expect(result?.ok).toBe(false);
+    expect(await readMain(repo)).toBe(head);
+  });
+
+  it("rejects every update of an atomic push if one is rejected", async () => {
+    const results = await repo.git.applyRefUpdates(
+      [
+        { ref: "refs/heads/dev", oldOid: ZERO, newOid: rewritten },
+        { ref: MAIN, oldOid: head, newOid: ZERO },
+      ],
+      { atomic: true, policy: policy({}) }
+    );
+
+    expect(results.map(({ ok }) => ok)).toEqual([false, false]);
+    expect(await repo.git.resolveRef("refs/heads/dev")).toBeNull();
+  });
+
+  it("follows an upstream rewrite on protected branches when forced", async () => {
+    const [result] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: head, newOid: rewritten }],
+      { policy: policy({}), source: "import", force: true }
+    );
+
+    expect(result).toMatchObject({ ref: MAIN, ok: true });
+    expect(await readMain(repo)).toBe(rewritten);
+  });
+
+  it("rejects stale old ids even when forced", async () => {
+    const [result] = await repo.git.applyRefUpdates(
+      [{ ref: MAIN, oldOid: base, newOid: rewritten }],
+      { force: true }
+    );
+
+    expect(result?.ok).toBe(false);
+    expect(await readMain(repo)).toBe(head);
+  });
+});
+
+describe("GitService.restoreReflogEntry", () => {
+  let repo: TestRepository;
+  let base: string;
+  let head: string;
+
+  function lastEntryId() {
+    const [entry] = repo.git.reflog.list({ ref: MAIN, limit: 1 });
+    if (!entry) throw new Error("no reflog entry");
+    return entry.id;
+  }
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    head = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+      time: 1_700_000_100,
+    });
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: ZERO, newOid: base }]);
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: base, newOid: head }]);
+  });
+
+  it("undoes a push by rewinding the branch", async () => {
+    const result = await repo.git.restoreReflogEntry(lastEntryId(), policy());
+
+    expect(result).toMatchObject({ ref: MAIN, ok: true });
+    expect(await readMain(repo)).toBe(base);
+    expect(repo.git.reflog.list({ ref: MAIN, limit: 1 })[0]).toMatchObject({
+      oldOid: head,
+      newOid: base,
+      pusher: "alice",
+      source: "web",
+    });
+  });
+
+  it("rewinds protected branches that allow force-pushes", async () => {
+    const result = await repo.git.restoreReflogEntry(
+      lastEntryId(),
+      policy({ allowForcePush: true })
+    );
+
+    expect(result.ok).toBe(true);
+    expect(await readMain(repo)).toBe(base);
+  });
+
+  it("does not rewind branches protected against force-push", async () => {
+    const result = await repo.git.restoreReflogEntry(lastEntryId(), policy({}));
+
+    expect(result.ok).toBe(false);
+    expect(await readMain(repo)).toBe(head);
+  });
+
+  it("brings back a deleted branch", async () => {
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: head, newOid: ZERO }]);
+
+    const result = await repo.git.restoreReflogEntry(lastEntryId(), policy());
+
+    expect(result.ok).toBe(true);
+    expect(await readMain(repo)).toBe(head);
+  });
+
+  it("refuses to restore a ref that did not exist", async () => {
+    const [created] = repo.git.reflog.list({ ref: MAIN }).slice(-1);
+
+    await expect(
+      repo.git.restoreReflogEntry(created?.id ?? 0, policy())
+    ).rejects.toThrow("did not exist before this change");
+  });
+});
+
+describe("GitService.receivePackfile", () => {
+  const PACK_PATH = "/repo/objects/pack/pack-test.pack";
+  const base = encoder.encode("hello world\n".repeat(20));
+  const target = encoder.encode(`${"hello world\n".repeat(20)}and more\n`);
+  const delta = createDelta(base, target, Number.POSITIVE_INFINITY);
+  if (!delta) throw new Error("no delta");
+
+  let repo: TestRepository;
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+  });
+
+  async function readBlob(oid: string) {
+    const { blob } = await git.readBlob({
+      fs: repo.fs,
+      gitdir: repo.gitdir,
+      oid,
+    });
+    return new TextDecoder().decode(blob);
+  }
+
+  async function readIndex() {
+    const idx = await repo.fs.promises.readFile(
+      PACK_PATH.replace(/\.pack$/, ".idx"),
+      {}
+    );
+    return parsePackIndex(new Uint8Array(idx as Uint8Array));
+  }
+
+  it("indexes packs as they stream in", async () => {
+    const baseEntry = fullEntry("blob", base);
+    const pack = packOf([baseEntry, ofsDeltaEntry(baseEntry.length, delta)]);
+
+    expect(await repo.git.receivePackfile(PACK_PATH, streamOf(pack, 10))).toBe(
+      true
+    );
+
+    expect(await readBlob(hashObject("blob", target))).toBe(
+      new TextDecoder().decode(target)
+    );
+  });
+
+  it("appends the missing bases of thin packs", async () => {
+    const baseOid = await git.writeBlob({
+      fs: repo.fs,
+      gitdir: repo.gitdir,
+      blob: base,
+    });
+    const pack = packOf([refDeltaEntry(baseOid, delta)]);
+
+    await repo.git.receivePackfile(PACK_PATH, streamOf(pack, 10));
+
+    expect((await readIndex()).oids.sort()).toEqual(
+      [baseOid, hashObject("blob", target)].sort()
+    );
+    expect(await readBlob(hashObject("blob", target))).toBe(
+      new TextDecoder().decode(target)
+    );
+  });
+
+  it("stores nothing for empty packs", async () => {
+    expect(
+      await repo.git.receivePackfile(PACK_PATH, streamOf(packOf([]), 10))
+    ).toBe(false);
+    expect(
+      await repo.git.receivePackfile(PACK_PATH, streamOf(new Uint8Array(), 10))
+    ).toBe(false);
+    expect(await repo.fs.promises.readdir("/repo/objects/pack")).toEqual([]);
+  });
+
+  it("removes invalid packs", async () => {
+    const pack = packOf([refDeltaEntry("a".repeat(40), delta)]);
+
+    await expect(
+      repo.git.receivePackfile(PACK_PATH, streamOf(pack, 10))
+    ).rejects.toThrow("missing delta base");
+    expect(await repo.fs.promises.readdir("/repo/objects/pack")).toEqual([]);
+  });
+});
+
+describe("GitService.createPackfile", () => {
+  /** Types of the pack's entries, in pack order */
+  async function entryTypes(packfile: ReadableStream<Uint8Array>) {
+    const pack = new Uint8Array(await new Response(packfile).arrayBuffer());
+    const scanner = new PackScanner();
+    await streamOf(pack, pack.length)
+      .pipeThrough(scanner.stream)
+      .pipeTo(new WritableStream());
+    return scanner
+      .result()
+      .entries.map(({ offset }) => Math.floor((pack[offset] ?? 0) / 16) % 8);
+  }
+
+  it("uses ofs-deltas only for receivers that understand them", async () => {
+    const repo = await createTestRepository();
+    const text = "hello world\n".repeat(50);
+    const base = await writeCommit(repo, { files: { "a.txt": text } });
+    const head = await writeCommit(repo, {
+      files: { "a.txt": `${text}and more\n` },
+      parents: [base],
+    });
+
+    const refDeltaTypes = await entryTypes(
+      await repo.git.createPackfile([head], [])
+    );
+    const ofsDeltaTypes = await entryTypes(
+      await repo.git.createPackfile([head], [], { ofsDelta: true })
+    );
+
+    // 6 is OBJ_OFS_DELTA, 7 is OBJ_REF_DELTA
+    expect(refDeltaTypes).toContain(7);
+    expect(refDeltaTypes).not.toContain(6);
+    expect(ofsDeltaTypes).toContain(6);
+    expect(ofsDeltaTypes).not.toContain(7);
+  });
+});
+
+describe("GitService.repack", () => {
+  const PACK_DIR = "/repo/objects/pack";
+  let repo: TestRepository;
+  let base: string;
+  let head: string;
+  let dangling: string;
+  let received: string;
+
+  async function looseDirs() {
+    return (await repo.fs.promises.readdir("/repo/objects")).filter((name) =>
+      /^[0-9a-f]{2}$/.test(name)
+    );
+  }
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    head = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+      time: 1_700_000_100,
+    });
+    dangling = await writeCommit(repo, {
+      files: { "a.txt": "c" },
+      time: 1_700_000_200,
+    });
+    const content = encoder.encode("received");
+    received = hashObject("blob", content);
+    await repo.git.receivePackfile(
+      `${PACK_DIR}/pack-old.pack`,
+      streamOf(packOf([fullEntry("blob", content)]), 64)
+    );
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: ZERO, newOid: head }]);
+  });
+
+  it("packs reachable objects and prunes the rest", async () => {
+    const result = await repo.git.repack(`${PACK_DIR}/pack-new.pack`);
+
+    expect(result).toEqual({
+      // Two commits, two trees and two blobs
+      objects: 6,
+      packsRemoved: 1,
+      looseObjectsRemoved: 9,
+      pruned: true,
+    });
+    expect((await repo.fs.promises.readdir(PACK_DIR)).sort()).toEqual([
+      "pack-new.idx",
+      "pack-new.pack",
+    ]);
+    expect(await looseDirs()).toEqual([]);
+    expect(await repo.git.hasObject(base)).toBe(true);
+    expect(await repo.git.hasObject(head)).toBe(true);
+    expect(await repo.git.hasObject(dangling)).toBe(false);
+    expect(await repo.git.hasObject(received)).toBe(false);
+  });
+
+  it("keeps objects that reflog entries can restore", async () => {
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: head, newOid: ZERO }]);
+
+    await repo.git.repack(`${PACK_DIR}/pack-new.pack`);
+
+    expect(await repo.git.hasObject(head)).toBe(true);
+    expect(await repo.git.hasObject(dangling)).toBe(false);
+  });
+
+  it("prunes nothing if refs change while repacking", async () => {
+    const listRefs = repo.git.listRefs.bind(repo.git);
+    vi.spyOn(repo.git, "listRefs")
+      .mockImplementationOnce(listRefs)
+      .mockImplementationOnce(async () => ({
+        ...(await listRefs()),
+        refs: [],
+      }));
+
+    const result = await repo.git.repack(`${PACK_DIR}/pack-new.pack`);
+
+    expect(result.pruned).toBe(false);
+    expect(await repo.fs.promises.readdir(PACK_DIR)).toHaveLength(4);
+    expect(await repo.git.hasObject(dangling)).toBe(true);
+    expect(await repo.git.hasObject(received)).toBe(true);
+  });
+
+  it("aborts without pruning if a reachable object is unreadable", async () => {
+    const blob = hashObject("blob", encoder.encode("a"));
+    await repo.fs.promises.unlink(
+      `/repo/objects/${blob.slice(0, 2)}/${blob.slice(2)}`
+    );
+
+    await expect(
+      repo.git.repack(`${PACK_DIR}/pack-new.pack`)
+    ).rejects.toThrow();
+    expect(await repo.git.hasObject(dangling)).toBe(true);
+    expect(await repo.git.hasObject(received)).toBe(true);
+  });
+});
+
+describe("GitService.computeShallowInfo", () => {
+  let repo: TestRepository;
+  /** Linear history, oldest first, committed a day apart */
+  let commits: string[];
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    commits = [];
+    for (let i = 1; i <= 4; i += 1) {
+      commits.push(
+        await writeCommit(repo, {
+          files: { "a.txt": `${i}` },
+          parents: commits.slice(-1),
+          time: i * 86_400,
+        })
+      );
+    }
+  });
+
+  it("cuts history at the requested depth", async () => {
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [],
+      deepen: 2,
+    });
+
+    expect(info).toEqual({
+      shallow: [commits[2]],
+      unshallow: [],
+      boundary: [commits[2]],
+    });
+  });
+
+  it("sends the whole history when it is shorter than the depth", async () => {
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [],
+      deepen: 10,
+    });
+
+    expect(info).toEqual({ shallow: [], unshallow: [], boundary: [] });
+  });
+
+  it("keeps the client's boundary when it isn't deepening", async () => {
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [commits[2] ?? ""],
+    });
+
+    expect(info).toEqual({
+      shallow: [],
+      unshallow: [],
+      boundary: [commits[2]],
+    });
+  });
+
+  it("counts deepen-relative from the client's boundary", async () => {
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [commits[2] ?? ""],
+      deepen: 1,
+      deepenRelative: true,
+    });
+
+    expect(info).toEqual({
+      shallow: [commits[1]],
+      unshallow: [commits[2]],
+      boundary: [commits[1]],
+    });
+  });
+
+  it("stops at commits older than deepen-since", async () => {
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [],
+      deepenSince: 2.5 * 86_400,
+    });
+
+    expect(info.shallow).toEqual([commits[2]]);
+  });
+
+  it("stops at commits reachable from deepen-not", async () => {
+    await repo.git.applyRefUpdates([
+      { ref: "refs/tags/v1", oldOid: ZERO, newOid: commits[1] ?? "" },
+    ]);
+
+    const info = await repo.git.computeShallowInfo([commits[3] ?? ""], {
+      shallow: [],
+      deepenNot: ["refs/tags/v1"],
+    });
+
+    expect(info.shallow).toEqual([commits[2]]);
+  });
+});
+
+describe("GitService.isReadyToSend", () => {
+  let repo: TestRepository;
+  let base: string;
+  let main: string;
+  let side: string;
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    main = await writeCommit(repo, {
+      files: { "a.txt": "main" },
+      parents: [base],
+    });
+    side = await writeCommit(repo, { files: { "b.txt": "unrelated" } });
+  });
+
+  it("is ready once every want has a common commit in its history", async () => {
+    expect(await repo.git.isReadyToSend([main], [base])).toBe(true);
+    expect(await repo.git.isReadyToSend([main, side], [base, side])).toBe(true);
+  });
+
+  it("keeps negotiating while a want shares nothing with the client", async () => {
+    expect(await repo.git.isReadyToSend([main, side], [base])).toBe(false);
+    expect(await repo.git.isReadyToSend([main], [])).toBe(false);
+  });
+
+  it("finds the haves we also have", async () => {
+    const unknown = "d".repeat(40);
+
+    expect(await repo.git.findCommonCommits([unknown, base])).toEqual([base]);
+  });
+});
+
+describe("GitService.collectObjectsForPack with include-tag", () => {
+  let repo: TestRepository;
+  let base: string;
+  let head: string;
+  let tag: string;
+
+  async function writeTag(
+    name: string,
+    object: string,
+    type: "commit" | "tag" = "commit"
+  ) {
+    const oid = await git.writeTag({
+      fs: repo.fs,
+      gitdir: repo.gitdir,
+      tag: {
+        object,
+        type,
+        tag: name,
+        tagger: {
+          name: "Test",
+          email: "test@example.com",
+          timestamp: 1_700_000_000,
+          timezoneOffset: 0,
+        },
+        message: `${name}\n`,
+      },
+    });
+    await repo.git.applyRefUpdates([
+      { ref: `refs/tags/${name}`, oldOid: ZERO, newOid: oid },
+    ]);
+    return oid;
+  }
+
+  async function collect(haves: string[], includeTag: boolean) {
+    const objects = await repo.git.collectObjectsForPack([head], haves, {
+      includeTag,
+    });
+    return objects.map(({ oid }) => oid);
+  }
+
+  beforeEach(async () => {
+    repo = await createTestRepository();
+    base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    head = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+    });
+    tag = await writeTag("v1", base);
+  });
+
+  it("sends annotated tags pointing at sent objects", async () => {
+    expect(await collect([], true)).toContain(tag);
+    expect(await collect([], false)).not.toContain(tag);
+  });
+
+  it("leaves out tags of objects the client has", async () => {
+    expect(await collect([base], true)).not.toContain(tag);
+  });
+
+  it("sends every tag on the way to a sent object", async () => {
+    const outer = await writeTag("v1-signed", tag, "tag");
+
+    expect(await collect([], true)).toEqual(
+      expect.arrayContaining([tag, outer])
+    );
+  });
+});
+
+describe("GitService.resolveWantedRefs", () => {
+  it("resolves advertised refs, in request order", async () => {
+    const repo = await createTestRepository();
+    const base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    const next = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+    });
+    await repo.git.applyRefUpdates([
+      { ref: MAIN, oldOid: ZERO, newOid: next },
+      { ref: "refs/heads/old", oldOid: ZERO, newOid: base },
+    ]);
+
+    expect(await repo.git.resolveWantedRefs(["refs/heads/old", MAIN])).toEqual([
+      { ref: "refs/heads/old", oid: base },
+      { ref: MAIN, oid: next },
+    ]);
+    await expect(repo.git.resolveWantedRefs(["refs/heads/x"])).rejects.toThrow(
+      "unknown ref refs/heads/x"
+    );
+  });
+});
+
+describe("GitService.createBundle", () => {
+  it("bundles refs with every object they reach", async () => {
+    const repo = await createTestRepository();
+    const base = await writeCommit(repo, { files: { "a.txt": "a" } });
+    const head = await writeCommit(repo, {
+      files: { "a.txt": "b" },
+      parents: [base],
+    });
+    await repo.git.applyRefUpdates([{ ref: MAIN, oldOid: ZERO, newOid: head }]);
+
+    const { header, packfile } = await readBundle(
+      await repo.git.createBundle({ refs: ["main"], version: 3 })
+    );
+    const clone = await createTestRepository();
+    await clone.git.receivePackfile(
+      "/repo/objects/pack/pack-bundle.pack",
+      packfile
+    );
+
+    expect(header).toEqual({
+      version: 3,
+      prerequisites: [],
+      refs: [{ ref: MAIN, oid: head }],
+    });
+    expect(await clone.git.hasObject(base)).toBe(true);
+    expect(await clone.git.hasObject(head)).toBe(true);
+  });
+
+  it("refuses unknown refs", async () => {
+    const repo = await createTestRepository();
+
+    await expect(
+      repo.git.createBundle({ refs: ["missing"], version: 2 })
+    ).rejects.toThrow("ref 'missing' does not exist");
+  });
+});
@@ -1,6 +1,43 @@
 import * as git from "isomorphic-git";
+import { CommitGraph } from "@/do/commit-graph";
 import type { IsoGitFs } from "@/do/fs";
 import { createLogger } from "@/do/logger";
+import { Reflog, type ReflogSource } from "@/do/reflog";
+import {
+  type ArchiveEntry,
+  type ArchiveFormat,
+  createArchiveStream,
+  ExportIgnore,
+} from "./archive";
+import {
+  type BranchProtectionRule,
+  findBranchProtection,
+  type PushPolicy,
+} from "./branch-protection";
+import { type BundleVersion, encodeBundleHeader } from "./bundle";
+import {
+  createObjectFilter,
+  type ObjectFilter,
+  parseFilterSpec,
+  SparsePatterns,
+} from "./filter";
+import { PackScanner, resolvePackDeltas } from "./index-pack";
+import { isObjectId, ZERO_OID } from "./oid";
+import {
+  bytesToHex,
+  concatBytes,
+  createDelta,
+  encodePackIndex,
+  fixThinPack,
+  type GitObjectType,
+  type ObjectStore,
+  PackWriter,
+  parsePackIndex,
+  type RangeReader,
+  StoredPack,
+  type StoredPackEntry,
+  typeName,
+} from "./pack";
 
 const logger = createLogger("GitService");
 
@@ -8,17 +45,139 @@ export type RefUpdateResult = {
   ref: string;
   ok: boolean;
   error?: string;
+  /** Human-readable explanation shown to the pusher as a `remote:` message */
+  message?: string;
+};
+
+/**
+ * Progress of a long running operation, mirroring git's progress meters
+ * (e.g. "Compressing objects: 50% (5/10)").
+ */
+export type ProgressEvent = {
+  phase: string;
+  loaded: number;
+  total?: number;
+  done?: boolean;
+};
+
+export type ObjectToPack = {
+  oid: string;
+  /** Path of the object in its tree ("" for commits and tags) */
+  path: string;
+};
+
+export type PackStats = {
+  total: number;
+  deltas: number;
+  reused: number;
+  reusedDeltas: number;
+};
+
+/**
+ * Events emitted while a pack is being built.
+ */
+export type PackEvent =
+  | { type: "data"; chunk: Uint8Array }
+  | ({ type: "progress" } & ProgressEvent)
+  | { type: "stats"; stats: PackStats };
+
+/** Number of preceding objects tried as delta bases (git's pack.window) */
+const DELTA_WINDOW = 10;
+
+/** Maximum delta chain length (git's pack.depth) */
+const DELTA_MAX_DEPTH = 50;
+
+/** Objects outside this size range are not worth a delta search */
+const DELTA_MIN_SIZE = 64;
+const DELTA_MAX_SIZE = 4 * 1024 * 1024;
+
+/** Size of a pack with no objects: 12-byte header plus 20-byte checksum */
+const EMPTY_PACK_SIZE = 32;
+
+/** Pack data is handed out once at least this many bytes are written */
+const PACK_CHUNK_SIZE = 64 * 1024;
+
+export type RepackResult = {
+  /** Objects written to the new pack */
+  objects: number;
+  packsRemoved: number;
+  looseObjectsRemoved: number;
+  /** False if refs changed while repacking, in which case nothing was removed */
+  pruned: boolean;
+};
+
+export type ShallowOptions = {
+  /** Commits the client already has as shallow */
+  shallow: string[];
+  deepen?: number;
+  deepenRelative?: boolean;
+  deepenSince?: number;
+  deepenNot?: string[];
+};
+
+export type ShallowInfo = {
+  /** New shallow commits to report to the client */
+  shallow: string[];
+  /** Client shallow commits whose history will now be sent */
+  unshallow: string[];
+  /** Commits whose parents must not be traversed when packing */
+  boundary: string[];
 };
 
 export class GitService {
   private readonly fs: ReturnType<IsoGitFs["getPromiseFsClient"]>;
   private readonly gitdir: string;
 
-  private readonly cache: object = {};
+  private cache: object = {};
+
+  private readonly commitGraph: CommitGraph;
+
+  /** History of every ref update made with {@link applyRefUpdates} */
+  readonly reflog: Reflog;
 
-  constructor(fs: ReturnType<IsoGitFs["getPromiseFsClient"]>, gitdir: string) {
+  /**
+   * @param sql - Storage for the commit-graph and the reflog
+   */
+  constructor(
+    fs: ReturnType<IsoGitFs["getPromiseFsClient"]>,
+    gitdir: string,
+    sql: SqlStorage
+  ) {
     this.fs = fs;
     this.gitdir = gitdir;
+    this.reflog = new Reflog(sql);
+    this.commitGraph = new CommitGraph(sql, async (oid) => {
+      try {
+        const { commit } = await git.readCommit({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+        return {
+          tree: commit.tree,
+          parents: commit.parent,
+          committedAt: commit.committer.timestamp,
+        };
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Add the commits behind the given objects, and their history, to the
+   * commit-graph. Called after refs are updated.
+   *
+   * @param oids - Commit or tag object ids
+   */
+  async updateCommitGraph(oids: string[]) {
+    const commits: string[] = [];
+    for (const oid of oids) {
+      const commit = await this.peelToCommit(oid);
+      if (commit) commits.push(commit);
+    }
+    await this.commitGraph.add(commits);
   }
 
   async initRepo() {
@@ -71,6 +230,22 @@ export class GitService {
     return { refs, symbolicHead };
   }
 
+  /**
+   * Point HEAD at a branch, making it the default branch.
+   *
+   * @param ref - Full branch ref, e.g. `refs/heads/main`
+   */
+  async setHead(ref: string) {
+    await git.writeRef({
+      fs: this.fs,
+      gitdir: this.gitdir,
+      ref: "HEAD",
+      value: ref,
+      symbolic: true,
+      force: true,
+    });
+  }
+
   async listBranchesWithOid(): Promise<Array<{ ref: string; oid: string }>> {
     try {
       const branchRefs = await git.listBranches({
@@ -201,110 +376,1266 @@ export class GitService {
     }
   }
 
-  async indexPack(filePath: string) {
-    await git.indexPack({
-      fs: this.fs,
-      dir: this.gitdir,
-      gitdir: this.gitdir,
-      filepath: filePath,
-      cache: this.cache,
+  /**
+   * Peel an object id to the commit it points to, following annotated tags.
+   *
+   * @param oid - Object id of a commit or tag
+   * @returns The commit oid, or null if the object is not (or does not point to) a commit
+   */
+  async peelToCommit(oid: string): Promise<string | null> {
+    let current = oid;
+    // Tags can point to tags, but never infinitely deep in practice
+    for (let i = 0; i < 10; i += 1) {
+      const obj = await this.readObject(current);
+      if (!obj) return null;
+      if (obj.type === "commit") return current;
+      if (obj.type !== "tag") return null;
+
+      const tag = await git.readTag({
+        fs: this.fs,
+        gitdir: this.gitdir,
+        oid: current,
+        cache: this.cache,
+      });
+      current = tag.tag.object;
+    }
+    return null;
+  }
+
+  /**
+   * Peel an annotated tag to the object it finally points to.
+   *
+   * @param oid - Object id of a tag (or any other object)
+   * @returns The peeled object id, or null if `oid` is not an annotated tag
+   */
+  async peelTag(oid: string): Promise<string | null> {
+    const chain = await this.readTagChain(oid);
+    return chain.tags.length > 0 ? chain.target : null;
+  }
+
+  /**
+   * Follow nested annotated tags starting at `oid`.
+   *
+   * @returns Tags on the way, outermost first, and the object they point to
+   */
+  private async readTagChain(oid: string) {
+    const tags: string[] = [];
+    let target = oid;
+    // Tags can point to tags, but never infinitely deep in practice
+    for (let i = 0; i < 10; i += 1) {
+      const obj = await this.readObject(target);
+      if (obj?.type !== "tag") break;
+      tags.push(target);
+      target = (obj.object as git.TagObject).object;
+    }
+    return { tags, target };
+  }
+
+  /**
+   * Collect every commit reachable from the given refs (used for `deepen-not`).
+   */
+  private async collectReachableCommits(refs: string[]) {
+    const reachable = new Set<string>();
+    const queue: string[] = [];
+
+    for (const ref of refs) {
+      const oid = (await this.resolveRef(ref)) ?? ref;
+      const commitOid = await this.peelToCommit(oid);
+      if (commitOid) queue.push(commitOid);
+    }
+
+    // Array iterators pick up entries pushed during iteration
+    for (const oid of queue) {
+      if (reachable.has(oid)) continue;
+      reachable.add(oid);
+
+      try {
+        const { commit } = await git.readCommit({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+        queue.push(...commit.parent);
+      } catch (error) {
+        logger.warn(
+          `(collect-reachable-commits) Failed to read commit ${oid}: ${error}`
+        );
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Compute the shallow boundary for a fetch request.
+   *
+   * Walks the commit graph from the wanted commits and stops at the requested
+   * depth (`deepen`), at commits older than `deepen-since`, or at commits
+   * reachable from a `deepen-not` ref. With `deepen-relative` the depth is
+   * counted from the client's current shallow boundary instead of the tips.
+   *
+   * @see https://git-scm.com/docs/protocol-v2#_fetch
+   */
+  async computeShallowInfo(
+    wants: string[],
+    options: ShallowOptions
+  ): Promise<ShallowInfo> {
+    const clientShallow = new Set(options.shallow);
+    const isDeepening =
+      options.deepen !== undefined ||
+      options.deepenSince !== undefined ||
+      (options.deepenNot?.length ?? 0) > 0;
+
+    // Client is shallow but not asking to deepen: keep its boundary as is
+    if (!isDeepening) {
+      return { shallow: [], unshallow: [], boundary: [...clientShallow] };
+    }
+
+    const relative = options.deepenRelative === true;
+    // With deepen-relative the client's shallow commits are at depth 1
+    let limit: number | undefined;
+    if (options.deepen !== undefined) {
+      limit = relative ? options.deepen + 1 : options.deepen;
+    }
+
+    const excluded =
+      options.deepenNot && options.deepenNot.length > 0
+        ? await this.collectReachableCommits(options.deepenNot)
+        : new Set<string>();
+
+    const isExcluded = async (oid: string) => {
+      if (excluded.has(oid)) return true;
+      if (options.deepenSince === undefined) return false;
+      try {
+        const { commit } = await git.readCommit({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+        return commit.committer.timestamp < options.deepenSince;
+      } catch {
+        return true;
+      }
+    };
+
+    // Depth 0 means "not counting yet" (only used with deepen-relative)
+    const isBetterDepth = (next: number, current: number | undefined) => {
+      if (current === undefined) return true;
+      if (current === 0) return false;
+      return next === 0 || next < current;
+    };
+
+    const depths = new Map<string, number>();
+    const shallow = new Set<string>();
+    const queue: Array<{ oid: string; depth: number }> = [];
+
+    for (const want of wants) {
+      const commitOid = await this.peelToCommit(want);
+      if (commitOid) queue.push({ oid: commitOid, depth: relative ? 0 : 1 });
+    }
+
+    for (const item of queue) {
+      const { oid } = item;
+      let { depth } = item;
+
+      if (relative && depth === 0 && clientShallow.has(oid)) {
+        depth = 1;
+      }
+      if (!isBetterDepth(depth, depths.get(oid))) continue;
+      depths.set(oid, depth);
+      shallow.delete(oid);
+
+      let parents: string[];
+      try {
+        const { commit } = await git.readCommit({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+        parents = commit.parent;
+      } catch (error) {
+        logger.warn(
+          `(compute-shallow-info) Failed to read commit ${oid}: ${error}`
+        );
+        continue;
+      }
+
+      if (parents.length === 0) continue;
+
+      if (limit !== undefined && depth >= limit) {
+        shallow.add(oid);
+        continue;
+      }
+
+      let cut = false;
+      for (const parent of parents) {
+        if (await isExcluded(parent)) {
+          cut = true;
+          break;
+        }
+      }
+      if (cut) {
+        shallow.add(oid);
+        continue;
+      }
+
+      const nextDepth = depth === 0 ? 0 : depth + 1;
+      for (const parent of parents) {
+        queue.push({ oid: parent, depth: nextDepth });
+      }
+    }
+
+    const unshallow = [...clientShallow].filter(
+      (oid) => depths.has(oid) && !shallow.has(oid)
+    );
+    const boundary = new Set(shallow);
+    for (const oid of clientShallow) {
+      if (!unshallow.includes(oid)) boundary.add(oid);
+    }
+
+    return {
+      shallow: [...shallow].filter((oid) => !clientShallow.has(oid)),
+      unshallow,
+      boundary: [...boundary],
+    };
+  }
+
+  /**
+   * Parse a fetch `filter` argument and resolve what it references.
+   *
+   * @param spec - Raw filter-spec sent by the client
+   * @returns Object filter to apply while collecting objects
+   * @throws Error if the spec is invalid or the sparse patterns can't be read
+   */
+  async resolveObjectFilter(spec: string): Promise<ObjectFilter> {
+    return createObjectFilter(parseFilterSpec(spec), async (blobish) => {
+      // blob-ish is either a blob oid or "<rev>:<path>"
+      const separator = blobish.indexOf(":");
+      let blob: Uint8Array | undefined;
+      if (separator === -1) {
+        const result = await this.readObject(blobish);
+        if (result?.type === "blob") {
+          blob = result.object as Uint8Array;
+        }
+      } else {
+        const rev = blobish.slice(0, separator) || "HEAD";
+        const oid = (await this.resolveRef(rev)) ?? rev;
+        const result = await this.getBlob(oid, blobish.slice(separator + 1));
+        blob = result?.content;
+      }
+
+      if (!blob) {
+        throw new Error(`unable to access sparse blob in '${blobish}'`);
+      }
+      return new SparsePatterns(new TextDecoder().decode(blob));
     });
   }
 
+  /**
+   * Store a packfile received on push and index it.
+   *
+   * The pack is scanned as it is written to storage, then its deltas are
+   * resolved from the stored pack (see {@link PackScanner}), so it is never
+   * held in memory as a whole. Thin packs reference delta bases we already
+   * have; those are appended so the stored pack is self-contained.
+   *
+   * @param packPath - Where to store the pack (its index is written next to it)
+   * @param packfile - Packfile stream as sent by the client
+   * @param onProgress - Receives indexing progress
+   * @returns false if no objects were received (e.g. a delete-only push)
+   * @throws Error if the pack is invalid or a delta base is missing
+   */
+  async receivePackfile(
+    packPath: string,
+    packfile: ReadableStream<Uint8Array>,
+    onProgress?: (event: ProgressEvent) => void
+  ): Promise<boolean> {
+    const idxPath = packPath.replace(/\.pack$/, ".idx");
+    const tempPath = `${packPath}.tmp`;
+
+    try {
+      const scanner = new PackScanner(onProgress);
+      const size = await this.fs.promises.writeStream(
+        packPath,
+        packfile.pipeThrough(scanner.stream)
+      );
+      // Delete-only pushes send no pack, and some clients send one with no objects
+      if (size <= EMPTY_PACK_SIZE) {
+        await this.fs.promises.unlink(packPath);
+        return false;
+      }
+
+      const store: ObjectStore = {
+        readObject: async (oid) => {
+          try {
+            return await this.readObjectContent(oid);
+          } catch {
+            return null;
+          }
+        },
+      };
+      const readRange: RangeReader = (offset, length) =>
+        this.readRange(packPath, offset, length);
+      const { entries, externalBases } = await resolvePackDeltas(
+        scanner.result(),
+        readRange,
+        store,
+        onProgress
+      );
+
+      let { checksum } = scanner.result();
+      if (externalBases.length > 0) {
+        const completed = fixThinPack(
+          { size, readRange },
+          externalBases,
+          store,
+          (entry) => entries.push(entry)
+        );
+        const completedSize = await this.fs.promises.writeStream(
+          tempPath,
+          completed
+        );
+        await this.fs.promises.rename(tempPath, packPath);
+        checksum = await this.readRange(packPath, completedSize - 20, 20);
+        logger.info(
+          `(receive-packfile) Appended ${externalBases.length} external delta bases`
+        );
+      }
+
+      // Written last, as packs without an index are ignored
+      await this.fs.promises.writeFile(
+        idxPath,
+        encodePackIndex(entries, checksum)
+      );
+      return true;
+    } catch (error) {
+      // Don't leave a partial or unindexed pack behind
+      for (const path of [tempPath, idxPath, packPath]) {
+        await this.fs.promises.unlink(path).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
   async collectObjectsForPack(
     wants: string[],
-    haves: string[]
-  ): Promise<string[]> {
-    const objectsToSend = new Set<string>();
+    haves: string[],
+    options: {
+      shallowInfo?: ShallowInfo;
+      filter?: ObjectFilter;
+      /** Also send annotated tags pointing at sent objects */
+      includeTag?: boolean;
+      /**
+       * Throw if an object can't be read instead of leaving it out, for when
+       * a missing object must not go unnoticed (e.g. repacking)
+       */
+      strict?: boolean;
+    } = {}
+  ): Promise<ObjectToPack[]> {
+    const { shallowInfo, filter, includeTag, strict } = options;
+    // Object id -> path, used as a delta selection hint when packing
+    const objectsToSend = new Map<string, string>();
     const visited = new Set<string>();
     const haveSet = new Set(haves);
+    const boundary = new Set(shallowInfo?.boundary);
+    const unshallow = new Set(shallowInfo?.unshallow);
+
+    // Trees are walked separately so paths and depths are known for filtering
+    const trees: Array<{ oid: string; path: string; depth: number }> = [];
+    const treeDepths = new Map<string, number>();
+
+    // Commits reachable from the haves bound the walk from the wants
+    const wantCommits: string[] = [];
+    for (const oid of wants) {
+      const commit = await this.peelToCommit(oid);
+      if (commit) wantCommits.push(commit);
+    }
+    const excluded = await this.commitGraph.findExcluded(wantCommits, haves);
+    // Excluded commits whose trees the client has, as a baseline for trees
+    const edges = new Set<string>();
 
     // BFS queue to traverse the commit graph
     const queue: string[] = [...wants];
+    // Explicitly requested objects are always sent, regardless of the filter
+    const wanted = new Set(wants);
 
-    while (queue.length > 0) {
-      const oid = queue.shift();
-      if (!oid || visited.has(oid)) continue;
+    for (const oid of queue) {
+      if (visited.has(oid)) continue;
 
       visited.add(oid);
 
-      // If the client already has this object, don't include it or traverse further
-      if (haveSet.has(oid)) continue;
+      // Unshallowed commits are already on the client, but their history is not
+      if (unshallow.has(oid)) {
+        try {
+          const commit = await git.readCommit({
+            fs: this.fs,
+            gitdir: this.gitdir,
+            oid,
+            cache: this.cache,
+          });
+          queue.push(...commit.commit.parent);
+        } catch (error) {
+          logger.error(
+            `(collect-objects) Failed to read unshallowed commit ${oid}: ${error}`
+          );
+          if (strict) throw error;
+        }
+        continue;
+      }
 
-      // Add this object to the set of objects to send
-      objectsToSend.add(oid);
+      // If the client already has this object, don't include it or traverse further
+      if (haveSet.has(oid) || excluded.has(oid)) {
+        edges.add(oid);
+        continue;
+      }
 
       try {
-        const { type } = await git.readObject({
+        const result = await git.readObject({
           fs: this.fs,
           gitdir: this.gitdir,
           oid,
           cache: this.cache,
         });
 
-        if (type === "commit") {
-          // Parse commit to get tree and parent OIDs
-          const commit = await git.readCommit({
-            fs: this.fs,
-            gitdir: this.gitdir,
-            oid,
-            cache: this.cache,
-          });
+        if (result.type === "commit") {
+          const commit = result.object as git.CommitObject;
+          objectsToSend.set(oid, "");
 
-          // Add tree to queue
-          queue.push(commit.commit.tree);
+          // Add tree to the tree walk
+          trees.push({ oid: commit.tree, path: "", depth: 0 });
 
-          // Add parent commits to queue
-          for (const parent of commit.commit.parent) {
-            queue.push(parent);
-          }
-        } else if (type === "tree") {
-          // Parse tree to get all entries (blobs and subtrees)
-          const tree = await git.readTree({
-            fs: this.fs,
-            gitdir: this.gitdir,
-            oid,
-            cache: this.cache,
-          });
+          // Shallow commits are sent without their history
+          if (boundary.has(oid)) continue;
 
-          // Add all tree entries to queue
-          for (const entry of tree.tree) {
-            queue.push(entry.oid);
+          // Add parent commits to queue
+          queue.push(...commit.parent);
+        } else if (result.type === "tag") {
+          const tag = result.object as git.TagObject;
+          objectsToSend.set(oid, "");
+          queue.push(tag.object);
+        } else if (result.type === "tree") {
+          if (wanted.has(oid)) {
+            objectsToSend.set(oid, "");
           }
-        } else if (type === "tag") {
-          // Parse tag to get the object it points to
-          const tag = await git.readTag({
-            fs: this.fs,
-            gitdir: this.gitdir,
-            oid,
-            cache: this.cache,
-          });
-
-          queue.push(tag.tag.object);
+          trees.push({ oid, path: "", depth: 0 });
+        } else if (wanted.has(oid) || !filter) {
+          // Blobs pointed to by tags are filtered like top-level blobs
+          objectsToSend.set(oid, "");
+        } else if (
+          await filter.includeBlob({
+            path: "",
+            depth: 0,
+            size: async () => (result.object as Uint8Array).length,
+          })
+        ) {
+          objectsToSend.set(oid, "");
         }
-        // For blobs, we just add them to the set (no traversal needed)
       } catch (error) {
         logger.error(
           `(collect-objects) Failed to read object ${oid}: ${error}`
         );
+        if (strict) throw error;
         // Continue processing other objects even if one fails
       }
     }
 
-    return Array.from(objectsToSend);
+    const haveObjects = await this.collectTreeContents(
+      [...edges].flatMap((oid) => this.commitGraph.get(oid)?.tree ?? [])
+    );
+
+    for (const { oid, path, depth } of trees) {
+      if (haveSet.has(oid) || haveObjects.has(oid)) continue;
+
+      // A tree already seen at the same or a shallower depth was fully handled
+      const seenDepth = treeDepths.get(oid);
+      if (seenDepth !== undefined && seenDepth <= depth) continue;
+      if (filter && !filter.includeTree(depth)) continue;
+
+      treeDepths.set(oid, depth);
+      objectsToSend.set(oid, path);
+
+      try {
+        const tree = await git.readTree({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+
+        for (const entry of tree.tree) {
+          const entryPath = path ? `${path}/${entry.path}` : entry.path;
+
+          if (entry.type === "tree") {
+            trees.push({ oid: entry.oid, path: entryPath, depth: depth + 1 });
+          } else if (entry.type === "blob") {
+            if (
+              objectsToSend.has(entry.oid) ||
+              haveSet.has(entry.oid) ||
+              haveObjects.has(entry.oid)
+            ) {
+              continue;
+            }
+            const include =
+              !filter ||
+              (await filter.includeBlob({
+                path: entryPath,
+                depth: depth + 1,
+                size: async () => {
+                  const blob = await this.readObject(entry.oid);
+                  return (blob?.object as Uint8Array | undefined)?.length ?? 0;
+                },
+              }));
+            if (include) {
+              objectsToSend.set(entry.oid, entryPath);
+            }
+          }
+          // Submodule entries (type "commit") point to other repositories
+        }
+      } catch (error) {
+        logger.error(`(collect-objects) Failed to read tree ${oid}: ${error}`);
+        if (strict) throw error;
+      }
+    }
+
+    if (includeTag) {
+      for (const oid of await this.findIncludedTags(objectsToSend, haveSet)) {
+        objectsToSend.set(oid, "");
+      }
+    }
+
+    return Array.from(objectsToSend, ([oid, path]) => ({ oid, path }));
   }
 
-  async packObjects(oids: string[]) {
-    const result = await git.packObjects({
+  /**
+   * Find annotated tags to send with `include-tag`: tags under refs/tags
+   * whose target (through any nested tags) is part of the pack.
+   *
+   * @param objects - Object ids being sent
+   * @param haves - Object ids the client has
+   * @returns Tag object ids, nested tags included
+   */
+  private async findIncludedTags(
+    objects: Map<string, string>,
+    haves: Set<string>
+  ) {
+    const included: string[] = [];
+
+    for (const { oid } of await this.listTags()) {
+      if (objects.has(oid) || haves.has(oid)) continue;
+
+      const { tags, target } = await this.readTagChain(oid);
+      if (tags.length > 0 && objects.has(target)) {
+        included.push(...tags.filter((tag) => !objects.has(tag)));
+      }
+    }
+
+    return included;
+  }
+
+  /**
+   * Resolve refs requested with `want-ref` to object ids.
+   * Only advertised refs can be requested, like with ls-refs.
+   *
+   * @param refs - Full ref names, e.g. `refs/heads/main`
+   * @returns The refs with their current object ids, in request order
+   * @throws Error if a ref does not exist
+   */
+  async resolveWantedRefs(
+    refs: string[]
+  ): Promise<Array<{ ref: string; oid: string }>> {
+    if (refs.length === 0) return [];
+
+    const advertised = new Map(
+      (await this.listRefs()).refs.map(({ ref, oid }) => [ref, oid])
+    );
+    return refs.map((ref) => {
+      const oid = advertised.get(ref);
+      if (!oid) throw new Error(`unknown ref ${ref}`);
+      return { ref, oid };
+    });
+  }
+
+  /**
+   * Collect every tree and blob reachable from the given trees.
+   */
+  private async collectTreeContents(treeOids: string[]) {
+    const objects = new Set<string>();
+    const queue = [...treeOids];
+
+    for (const oid of queue) {
+      if (objects.has(oid)) continue;
+      objects.add(oid);
+
+      try {
+        const { tree } = await git.readTree({
+          fs: this.fs,
+          gitdir: this.gitdir,
+          oid,
+          cache: this.cache,
+        });
+        for (const entry of tree) {
+          if (entry.type === "tree") {
+            queue.push(entry.oid);
+          } else if (entry.type === "blob") {
+            objects.add(entry.oid);
+          }
+        }
+      } catch (error) {
+        logger.warn(
+          `(collect-tree-contents) Failed to read tree ${oid}: ${error}`
+        );
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * List stored packs by checksum (the pack's trailing hash), which is how git
+   * names packs. Packs are stored under other names, but dumb HTTP clients
+   * only fetch packs named `pack-<checksum>`.
+   */
+  async listPacks(): Promise<Array<{ checksum: string; path: string }>> {
+    const packDir = `${this.gitdir}/objects/pack`;
+    let files: string[] = [];
+    try {
+      files = await this.fs.promises.readdir(packDir);
+    } catch {
+      return [];
+    }
+
+    const packs: Array<{ checksum: string; path: string }> = [];
+    for (const file of files) {
+      // Packs are complete once they have been indexed
+      if (!file.endsWith(".idx")) continue;
+      const idxPath = `${packDir}/${file}`;
+      const stat = await this.fs.promises.stat(idxPath);
+      // The index ends with the pack checksum, followed by its own checksum
+      const checksum = await this.readRange(
+        idxPath,
+        (stat?.size ?? 0) - 40,
+        20
+      );
+      if (checksum.length !== 20) continue;
+      packs.push({
+        checksum: bytesToHex(checksum),
+        path: `${packDir}/${file.replace(/\.idx$/, ".pack")}`,
+      });
+    }
+    return packs;
+  }
+
+  /**
+   * Load the index of every stored pack so compressed entries can be reused.
+   * Pack contents are read on demand.
+   */
+  private async loadStoredPacks(): Promise<StoredPack[]> {
+    const packDir = `${this.gitdir}/objects/pack`;
+    let files: string[] = [];
+    try {
+      files = await this.fs.promises.readdir(packDir);
+    } catch {
+      return [];
+    }
+
+    const packs: StoredPack[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".idx")) continue;
+      const name = file.replace(/\.idx$/, ".pack");
+      try {
+        packs.push(
+          await this.openStoredPack(`${packDir}/${name}`, `${packDir}/${file}`)
+        );
+      } catch (error) {
+        logger.warn(`(load-stored-packs) Skipping pack ${name}: ${error}`);
+      }
+    }
+    return packs;
+  }
+
+  private async openStoredPack(packPath: string, idxPath: string) {
+    const [idx, stat] = await Promise.all([
+      this.fs.promises.readFile(idxPath, {}),
+      this.fs.promises.stat(packPath),
+    ]);
+    return new StoredPack(
+      packPath.slice(packPath.lastIndexOf("/") + 1),
+      stat?.size ?? 0,
+      parsePackIndex(new Uint8Array(idx as Buffer)),
+      (offset, length) => this.readRange(packPath, offset, length)
+    );
+  }
+
+  private async readRange(path: string, offset: number, length: number) {
+    return (
+      (await this.fs.promises.read(path, { offset, length })) ??
+      new Uint8Array()
+    );
+  }
+
+  private async readObjectContent(oid: string) {
+    const { type, object } = await git.readObject({
       fs: this.fs,
-      dir: this.gitdir,
       gitdir: this.gitdir,
-      oids,
-      write: false,
+      oid,
+      format: "content",
       cache: this.cache,
     });
+    return { type: type as GitObjectType, content: object as Uint8Array };
+  }
+
+  /**
+   * Build a packfile for the given objects, yielding it in chunks as it is
+   * written along with progress events.
+   *
+   * Entries already stored in a pack are copied as-is (deltas included, when
+   * their base is also being sent). Everything else goes through a delta
+   * search: objects are sorted by type, path and size, and each one is tried
+   * against the previous {@link DELTA_WINDOW} objects of the same type.
+   *
+   * @param objects - Objects to pack, with paths as delta hints
+   * @param options.ofsDelta - Whether the client understands ofs-delta entries
+   */
+  async *packObjectsStream(
+    objects: ObjectToPack[],
+    options: { ofsDelta?: boolean } = {}
+  ): AsyncGenerator<PackEvent> {
+    const stats: PackStats = {
+      total: objects.length,
+      deltas: 0,
+      reused: 0,
+      reusedDeltas: 0,
+    };
+    const sending = new Set(objects.map(({ oid }) => oid));
+
+    yield {
+      type: "progress",
+      phase: "Counting objects",
+      loaded: objects.length,
+      done: true,
+    };
+
+    const storedPacks = await this.loadStoredPacks();
+    const findStored = async (oid: string) => {
+      for (const pack of storedPacks) {
+        const entry = await pack.getEntryInfo(oid);
+        if (entry) return { pack, entry };
+      }
+      return null;
+    };
+
+    type Plan =
+      | { kind: "reuse"; pack: StoredPack; entry: StoredPackEntry }
+      | { kind: "full" }
+      | { kind: "delta"; baseOid: string; delta: Uint8Array };
+
+    const plans = new Map<string, Plan>();
+    const candidates: Array<{
+      oid: string;
+      type: string;
+      path: string;
+      size: number;
+    }> = [];
+
+    for (const { oid, path } of objects) {
+      const stored = await findStored(oid);
+      const isReusable =
+        stored &&
+        (typeName(stored.entry.type) !== undefined ||
+          (stored.entry.baseOid !== undefined &&
+            sending.has(stored.entry.baseOid)));
+
+      if (stored && isReusable) {
+        plans.set(oid, { kind: "reuse", ...stored });
+        continue;
+      }
+
+      plans.set(oid, { kind: "full" });
+      const { type, content } = await this.readObjectContent(oid);
+      if (
+        (type === "blob" || type === "tree") &&
+        content.length >= DELTA_MIN_SIZE &&
+        content.length <= DELTA_MAX_SIZE
+      ) {
+        candidates.push({ oid, type, path, size: content.length });
+      }
+    }
+
+    // Sort like git: by type, then by name (filename first), biggest first
+    const nameKey = (path: string) => {
+      const slash = path.lastIndexOf("/");
+      return `${path.slice(slash + 1)}/${path.slice(0, slash + 1)}`;
+    };
+    candidates.sort((a, b) => {
+      if (a.type !== b.type) return a.type < b.type ? -1 : 1;
+      const nameA = nameKey(a.path);
+      const nameB = nameKey(b.path);
+      if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+      return b.size - a.size;
+    });
+
+    // Only the objects inside the delta window are kept in memory
+    const windowContents = new Map<string, Uint8Array>();
+    const depths = new Map<string, number>();
+    let lastPercent = -1;
+
+    for (let i = 0; i < candidates.length; i += 1) {
+      const target = candidates[i];
+      const evicted = candidates[i - DELTA_WINDOW - 1];
+      if (evicted) windowContents.delete(evicted.oid);
+
+      const targetContent = (await this.readObjectContent(target.oid)).content;
+      windowContents.set(target.oid, targetContent);
+      let best: { baseOid: string; delta: Uint8Array } | null = null;
+
+      for (let j = Math.max(0, i - DELTA_WINDOW); j < i; j += 1) {
+        const base = candidates[j];
+        const baseDepth = depths.get(base.oid) ?? 0;
+        if (base.type !== target.type || baseDepth >= DELTA_MAX_DEPTH) {
+          continue;
+        }
+        // A base much smaller than the target can't produce a useful delta
+        if (base.size < target.size / 4) continue;
+
+        const baseContent = windowContents.get(base.oid);
+        if (!baseContent) continue;
+
+        const maxSize = best ? best.delta.length - 1 : target.size / 2;
+        const delta = createDelta(baseContent, targetContent, maxSize);
+        if (delta) {
+          best = { baseOid: base.oid, delta };
+        }
+      }
+
+      if (best) {
+        plans.set(target.oid, { kind: "delta", ...best });
+        depths.set(target.oid, (depths.get(best.baseOid) ?? 0) + 1);
+      }
+
+      const percent = Math.floor(((i + 1) * 100) / candidates.length);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        yield {
+          type: "progress",
+          phase: "Compressing objects",
+          loaded: i + 1,
+          total: candidates.length,
+          done: i + 1 === candidates.length,
+        };
+      }
+    }
+    windowContents.clear();
+    candidates.length = 0;
+
+    const writer = new PackWriter(objects.length, {
+      ofsDelta: options.ofsDelta,
+    });
+    const inProgress = new Set<string>();
+
+    const writeFull = async (oid: string) => {
+      const { type, content } = await this.readObjectContent(oid);
+      writer.writeObject(oid, type, { data: content });
+    };
+
+    // Deltas need their base written first, so write depth-first
+    const write = async (oid: string): Promise<void> => {
+      if (writer.has(oid)) return;
+      const plan = plans.get(oid);
+      if (!plan || plan.kind === "full") {
+        await writeFull(oid);
+        return;
+      }
+
+      const baseOid = plan.kind === "delta" ? plan.baseOid : plan.entry.baseOid;
+      if (baseOid && !writer.has(baseOid)) {
+        if (inProgress.has(baseOid)) {
+          // Bases from different stored packs can point at each other
+          await writeFull(oid);
+          return;
+        }
+        inProgress.add(oid);
+        await write(baseOid);
+        inProgress.delete(oid);
+      }
+
+      if (plan.kind === "delta") {
+        writer.writeDelta(oid, plan.baseOid, { delta: plan.delta });
+        stats.deltas += 1;
+        return;
+      }
+
+      const { pack, entry } = plan;
+      const compressed = await pack.readEntryData(entry);
+      const type = typeName(entry.type);
+      if (type) {
+        writer.writeObject(oid, type, { compressed, size: entry.size });
+      } else if (entry.baseOid) {
+        writer.writeDelta(oid, entry.baseOid, {
+          compressed,
+          size: entry.size,
+        });
+        stats.deltas += 1;
+        stats.reusedDeltas += 1;
+      }
+      stats.reused += 1;
+    };
+
+    for (const { oid } of objects) {
+      await write(oid);
+      plans.delete(oid);
+      if (writer.pendingBytes >= PACK_CHUNK_SIZE) {
+        yield { type: "data", chunk: writer.takeChunks() };
+      }
+    }
+
+    writer.end();
+    yield { type: "data", chunk: writer.takeChunks() };
+    yield { type: "stats", stats };
+  }
+
+  /**
+   * Build a complete packfile for the given objects in memory.
+   * Prefer {@link GitService.packObjectsStream} when the pack is sent over the wire.
+   */
+  async packObjects(
+    objects: ObjectToPack[],
+    options: { ofsDelta?: boolean } = {}
+  ): Promise<{ packfile: Uint8Array; stats: PackStats }> {
+    const chunks: Uint8Array[] = [];
+    let stats: PackStats | undefined;
+    for await (const event of this.packObjectsStream(objects, options)) {
+      if (event.type === "data") chunks.push(event.chunk);
+      if (event.type === "stats") stats = event.stats;
+    }
+    if (!stats) {
+      throw new Error("Pack stream ended without stats");
+    }
+    return { packfile: concatBytes(chunks), stats };
+  }
+
+  /**
+   * Stream a packfile for the given objects, without progress events.
+   */
+  private packfileStream(
+    objects: ObjectToPack[],
+    options: { ofsDelta: boolean }
+  ) {
+    const events = this.packObjectsStream(objects, options);
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          const { value, done } = await events.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          if (value.type === "data") {
+            controller.enqueue(value.chunk);
+            return;
+          }
+        }
+      },
+    });
+  }
 
-    return result.packfile;
+  /**
+   * Stream a packfile with the objects reachable from `wants` and not from
+   * `haves`, e.g. to push to another repository.
+   *
+   * @param options.ofsDelta - Whether the receiver understands ofs-delta entries
+   */
+  async createPackfile(
+    wants: string[],
+    haves: string[],
+    options: { ofsDelta?: boolean } = {}
+  ) {
+    const objects = await this.collectObjectsForPack(wants, haves);
+    return this.packfileStream(objects, {
+      ofsDelta: options.ofsDelta ?? false,
+    });
+  }
+
+  /**
+   * Create a bundle of refs with every object they reach, so it can be
+   * cloned without any other repository.
+   *
+   * @param options.refs - Refs to include (short names are expanded), all
+   *   refs and HEAD if empty
+   * @param options.version - Bundle format version
+   */
+  async createBundle(options: {
+    refs?: string[];
+    version: BundleVersion;
+  }): Promise<ReadableStream<Uint8Array>> {
+    const { refs: allRefs } = await this.listRefs();
+
+    let refs = allRefs;
+    if (options.refs && options.refs.length > 0) {
+      refs = [];
+      for (const name of options.refs) {
+        const ref = await this.expandRef(name);
+        const match = allRefs.find((candidate) => candidate.ref === ref);
+        if (!match) {
+          throw new Error(`ref '${name}' does not exist`);
+        }
+        refs.push(match);
+      }
+    }
+    if (refs.length === 0) {
+      throw new Error("refusing to create an empty bundle");
+    }
+
+    const header = encodeBundleHeader({
+      version: options.version,
+      prerequisites: [],
+      refs,
+    });
+    const objects = await this.collectObjectsForPack(
+      [...new Set(refs.map(({ oid }) => oid))],
+      []
+    );
+    const packfile = this.packfileStream(objects, {
+      ofsDelta: true,
+    }).getReader();
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(header);
+      },
+      async pull(controller) {
+        const { value, done } = await packfile.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+    });
+  }
+
+  /**
+   * Create a source archive of a commit's tree, like `git archive`. Paths
+   * with the `export-ignore` attribute are left out.
+   *
+   * @param options.ref - Ref or object id of a commit or tag
+   * @param options.path - Only archive this directory
+   * @param options.prefix - Prepended to every path in the archive
+   * @returns The archive, or null if the ref or path doesn't exist
+   */
+  async createArchive(options: {
+    ref: string;
+    format: ArchiveFormat;
+    path?: string;
+    prefix?: string;
+  }): Promise<ReadableStream<Uint8Array> | null> {
+    const resolved = await this.resolveRef(options.ref);
+    const commitOid = resolved && (await this.peelToCommit(resolved));
+    if (!commitOid) return null;
+
+    const root = (options.path ?? "").replace(/^\/+|\/+$/g, "");
+    const prefix = options.prefix ?? "";
+    const rootTree = await this.getTree(commitOid, root);
+    if (rootTree.length === 0 && root) return null;
+
+    const exportIgnore = new ExportIgnore();
+    // Attributes of the directories above the archived one still apply
+    const segments = root ? root.split("/") : [];
+    for (let depth = 0; depth < segments.length; depth += 1) {
+      const directory = segments.slice(0, depth).join("/");
+      const attributes = await this.getBlob(
+        commitOid,
+        directory ? `${directory}/.gitattributes` : ".gitattributes"
+      );
+      if (attributes) {
+        exportIgnore.add(
+          directory,
+          new TextDecoder().decode(attributes.content)
+        );
+      }
+    }
+
+    const { commit } = await git.readCommit({
+      fs: this.fs,
+      gitdir: this.gitdir,
+      oid: commitOid,
+      cache: this.cache,
+    });
+
+    const readBlob = async (oid: string) => {
+      const { blob } = await git.readBlob({
+        fs: this.fs,
+        gitdir: this.gitdir,
+        oid,
+        cache: this.cache,
+      });
+      return blob;
+    };
+    const getTree = (path: string) => this.getTree(commitOid, path);
+    const blobTypes: Record<string, ArchiveEntry["type"]> = {
+      "100755": "executable",
+      "120000": "symlink",
+    };
+
+    const walk = async function* (
+      directory: string,
+      tree: git.TreeEntry[]
+    ): AsyncGenerator<ArchiveEntry> {
+      const attributes = tree.find(
+        (entry) => entry.path === ".gitattributes" && entry.type === "blob"
+      );
+      if (attributes) {
+        exportIgnore.add(
+          directory,
+          new TextDecoder().decode(await readBlob(attributes.oid))
+        );
+      }
+
+      for (const entry of tree) {
+        const path = directory ? `${directory}/${entry.path}` : entry.path;
+        const isDirectory = entry.type !== "blob";
+        if (exportIgnore.isIgnored(path, isDirectory)) continue;
+
+        const archivePath =
+          prefix + (root ? path.slice(root.length + 1) : path);
+        if (entry.type === "tree") {
+          yield {
+            path: archivePath,
+            type: "directory",
+            content: new Uint8Array(),
+          };
+          yield* walk(path, await getTree(path));
+        } else if (entry.type === "commit") {
+          // Submodules are archived as empty directories
+          yield {
+            path: archivePath,
+            type: "directory",
+            content: new Uint8Array(),
+          };
+        } else {
+          yield {
+            path: archivePath,
+            type: blobTypes[entry.mode] ?? "file",
+            content: await readBlob(entry.oid),
+          };
+        }
+      }
+    };
+    // The prefix itself is a directory entry, as in `git archive`
+    const entries = async function* (): AsyncGenerator<ArchiveEntry> {
+      if (prefix.endsWith("/")) {
+        yield {
+          path: prefix.slice(0, -1),
+          type: "directory",
+          content: new Uint8Array(),
+        };
+      }
+      yield* walk(root, rootTree);
+    };
+
+    return createArchiveStream(options.format, entries(), {
+      commitOid,
+      mtime: commit.committer.timestamp,
+    });
+  }
+
+  /**
+   * Consolidate every pack and loose object into a single pack, dropping
+   * objects that no ref can reach.
+   *
+   * Old packs and loose objects are only removed if every reachable object
+   * was read and the refs did not change while repacking; otherwise the new
+   * pack is kept alongside them and the next repack cleans up. Only files that
+   * existed before the repack started are removed.
+   *
+   * @param packPath - Where to write the new pack
+   */
+  async repack(packPath: string): Promise<RepackResult> {
+    const objectsDir = `${this.gitdir}/objects`;
+    const packDir = `${objectsDir}/pack`;
+    const oldPackFiles = (
+      await this.fs.promises.readdir(packDir).catch(() => [] as string[])
+    ).filter((file) => file.endsWith(".pack") || file.endsWith(".idx"));
+    const looseDirs = (
+      await this.fs.promises.readdir(objectsDir).catch(() => [] as string[])
+    ).filter((name) => /^[0-9a-f]{2}$/.test(name));
+    const looseFiles: string[] = [];
+    for (const dir of looseDirs) {
+      const files = await this.fs.promises
+        .readdir(`${objectsDir}/${dir}`)
+        .catch(() => [] as string[]);
+      looseFiles.push(...files.map((file) => `${dir}/${file}`));
+    }
+
+    const { refs } = await this.listRefs();
+    const tips = [...new Set(refs.map(({ oid }) => oid))];
+
+    // Objects of past ref values are kept so they can be restored
+    for (const oid of this.reflog.expireAndListOids()) {
+      if (!tips.includes(oid) && (await this.hasObject(oid))) {
+        tips.push(oid);
+      }
+    }
+
+    // A pack missing an unreadable object would lose it for good once the
+    // old packs are removed, so any read failure aborts the repack
+    const objects = await this.collectObjectsForPack(tips, [], {
+      strict: true,
+    });
+    if (objects.length > 0) {
+      // Indexed as it is written, the pack holds the whole repository
+      const scanner = new PackScanner();
+      await this.fs.promises.writeStream(
+        packPath,
+        this.packfileStream(objects, { ofsDelta: true }).pipeThrough(
+          scanner.stream
+        )
+      );
+      const { entries } = await resolvePackDeltas(
+        scanner.result(),
+        (offset, length) => this.readRange(packPath, offset, length),
+        { readObject: async () => null }
+      );
+      await this.fs.promises.writeFile(
+        packPath.replace(/\.pack$/, ".idx"),
+        encodePackIndex(entries, scanner.result().checksum)
+      );
+    }
+
+    const result: RepackResult = {
+      objects: objects.length,
+      packsRemoved: 0,
+      looseObjectsRemoved: 0,
+      pruned: false,
+    };
+
+    const { refs: refsAfter } = await this.listRefs();
+    if (JSON.stringify(refsAfter) !== JSON.stringify(refs)) {
+      logger.warn("(repack) Refs changed while repacking, skipping prune");
+      return result;
+    }
+
+    for (const file of oldPackFiles) {
+      await this.fs.promises.unlink(`${packDir}/${file}`);
+      if (file.endsWith(".pack")) result.packsRemoved += 1;
+    }
+    for (const file of looseFiles) {
+      await this.fs.promises.unlink(`${objectsDir}/${file}`);
+      result.looseObjectsRemoved += 1;
+    }
+    // Directories that got new objects while repacking are not empty and stay
+    for (const dir of looseDirs) {
+      await this.fs.promises
+        .rmdir(`${objectsDir}/${dir}`, { recursive: false })
+        .catch(() => undefined);
+    }
+
+    // Cached pack indexes may point at removed packs
+    this.cache = {};
+    result.pruned = true;
+    return result;
   }
 
   async hasObject(oid: string): Promise<boolean> {
@@ -321,17 +1652,30 @@ export class GitService {
     }
   }
 
+  /**
+   * Find the `have` commits we also have, to be ACKed during negotiation.
+   */
   async findCommonCommits(haves: string[]): Promise<string[]> {
-    const common: string[] = [];
+    await this.commitGraph.add(haves);
+    return haves.filter((oid) => this.commitGraph.get(oid) !== null);
+  }
 
-    for (const oid of haves) {
-      const hasObject = await this.hasObject(oid);
-      if (hasObject) {
-        common.push(oid);
-      }
+  /**
+   * Whether negotiation can stop: every wanted commit has a common commit in
+   * its history, so more haves would not make the pack smaller.
+   *
+   * @param wants - Object ids the client wants
+   * @param common - Commits both sides have
+   */
+  async isReadyToSend(wants: string[], common: string[]): Promise<boolean> {
+    if (common.length === 0) return false;
+
+    const wantCommits: string[] = [];
+    for (const oid of wants) {
+      const commit = await this.peelToCommit(oid);
+      if (commit) wantCommits.push(commit);
     }
-
-    return common;
+    return this.commitGraph.allCanReach(wantCommits, common);
   }
 
   async getLastCommit(
@@ -595,19 +1939,88 @@ export class GitService {
     }
   }
 
+  /**
+   * Accept a ref update unless its branch requires linear history and the
+   * update adds a merge commit, i.e. one not reachable from `bases`.
+   *
+   * @param bases - Commits already on the server the update builds on
+   */
+  private async checkLinearHistory(
+    cmd: { newOid: string; ref: string },
+    protection: BranchProtectionRule | null,
+    bases: string[]
+  ): Promise<RefUpdateResult> {
+    if (!protection?.requireLinearHistory) {
+      return { ref: cmd.ref, ok: true };
+    }
+
+    const excluded = await this.commitGraph.findExcluded([cmd.newOid], bases);
+    const baseSet = new Set(bases);
+    const visited = new Set<string>();
+    const queue = [cmd.newOid];
+
+    for (const oid of queue) {
+      if (visited.has(oid) || excluded.has(oid) || baseSet.has(oid)) continue;
+      visited.add(oid);
+
+      const node = this.commitGraph.get(oid);
+      if (!node) continue;
+      if (node.parents.length > 1) {
+        return {
+          ref: cmd.ref,
+          ok: false,
+          error: "protected branch: merge commits not allowed",
+          message: `error: ${cmd.ref} requires linear history, but ${oid} is a merge commit`,
+        };
+      }
+      queue.push(...node.parents);
+    }
+
+    return { ref: cmd.ref, ok: true };
+  }
+
   // TODO: simplify this and some docs
+  /**
+   * @param options.atomic - Reject every update if one of them is rejected
+   * @param options.policy - Branch protection to apply, none if unset
+   * @param options.source - What made the updates, for the reflog
+   * @param options.force - Accept non-fast-forward updates even on branches
+   *   protected against force-push, e.g. to follow an upstream that rewrote
+   *   history
+   */
   async applyRefUpdates(
     commands: Array<{ oldOid: string; newOid: string; ref: string }>,
-    atomic: boolean
+    options: {
+      atomic?: boolean;
+      policy?: PushPolicy;
+      source?: ReflogSource;
+      force?: boolean;
+    } = {}
   ): Promise<RefUpdateResult[]> {
+    const {
+      atomic = false,
+      policy = { pusher: null, token: null, rules: [], signingKeys: [] },
+      source = "push",
+      force = false,
+    } = options;
     const results: RefUpdateResult[] = [];
-    const ZERO_OID = "0".repeat(40);
+    // Values before the update, for the reflog
+    const currentOids = new Map<string, string>();
 
     // Validate all commands first
     for (const cmd of commands) {
       const isDelete = cmd.newOid === ZERO_OID;
       const isCreate = cmd.oldOid === ZERO_OID;
 
+      if (!(isObjectId(cmd.oldOid) && isObjectId(cmd.newOid))) {
+        results.push({
+          ref: cmd.ref,
+          ok: false,
+          error: "invalid object id",
+        });
+        continue;
+      }
+
       try {
         let currentOid: string | null = null;
         try {
@@ -619,6 +2032,9 @@ export class GitService {
         } catch {
           logger.info(`(apply-ref-updates): Ref ${cmd.ref} does not exist.`);
         }
+        if (currentOid) {
+          currentOids.set(cmd.ref, currentOid);
+        }
 
         // Validate old OID matches current
         if (
@@ -630,13 +2046,32 @@ export class GitService {
             ref: cmd.ref,
             ok: false,
             error: "ref update rejected: old OID mismatch",
+            message: `error: ${cmd.ref} has moved since it was fetched (fetch first)`,
+          });
+          continue;
+        }
+
+        const protection = findBranchProtection(policy.rules, cmd.ref);
+        if (protection?.requireSignedPush && !policy.signer) {
+          results.push({
+            ref: cmd.ref,
+            ok: false,
+            error: "protected branch: signed push required",
+            message: `error: pushes to protected branch ${cmd.ref} must be signed (git push --signed)`,
           });
           continue;
         }
 
         if (isDelete) {
           // Delete ref
-          if (currentOid) {
+          if (protection && !protection.allowDeletion) {
+            results.push({
+              ref: cmd.ref,
+              ok: false,
+              error: "protected branch: deletion not allowed",
+              message: `error: refusing to delete protected branch ${cmd.ref}`,
+            });
+          } else if (currentOid) {
             results.push({ ref: cmd.ref, ok: true });
           } else {
             results.push({
@@ -654,7 +2089,10 @@ export class GitService {
               error: "ref already exists",
             });
           } else {
-            results.push({ ref: cmd.ref, ok: true });
+            const bases = (await this.listBranchesWithOid()).map(
+              ({ oid }) => oid
+            );
+            results.push(await this.checkLinearHistory(cmd, protection, bases));
           }
         } else {
           // Update existing ref - check fast-forward
@@ -667,20 +2105,29 @@ export class GitService {
             continue;
           }
 
-          const isFF = await git.isDescendent({
-            fs: this.fs,
-            gitdir: "/repo",
-            oid: cmd.newOid,
-            ancestor: currentOid,
-          });
-
-          if (isFF) {
-            results.push({ ref: cmd.ref, ok: true });
+          // Like git's receive.denyNonFastForwards, only protected branches
+          // reject force-pushes
+          const allowed =
+            force ||
+            !protection ||
+            protection.allowForcePush ||
+            (await git.isDescendent({
+              fs: this.fs,
+              gitdir: "/repo",
+              oid: cmd.newOid,
+              ancestor: currentOid,
+            }));
+
+          if (allowed) {
+            results.push(
+              await this.checkLinearHistory(cmd, protection, [currentOid])
+            );
           } else {
             results.push({
               ref: cmd.ref,
               ok: false,
-              error: "non-fast-forward update rejected",
+              error: "protected branch: force-push not allowed",
+              message: `error: denying non-fast-forward ${cmd.ref} (force-pushes to this branch are not allowed)`,
             });
           }
         }
@@ -725,6 +2172,13 @@ export class GitService {
             force: true,
           });
         }
+        this.reflog.record({
+          ref: cmd.ref,
+          oldOid: currentOids.get(cmd.ref) ?? ZERO_OID,
+          newOid: cmd.newOid,
+          pusher: policy.pusher,
+          source,
+        });
       } catch (error) {
         results[i] = {
           ref: cmd.ref,
@@ -736,4 +2190,38 @@ export class GitService {
 
     return results;
   }
+
+  /**
+   * Set a ref back to its value before a reflog entry, e.g. to bring back a
+   * deleted branch or undo a bad push. Rewinding a branch is allowed where
+   * force-pushes are, i.e. unless its protection forbids them.
+   *
+   * @param entryId - Reflog entry to undo
+   * @param policy - Policy of the user restoring the ref
+   */
+  async restoreReflogEntry(
+    entryId: number,
+    policy: PushPolicy
+  ): Promise<RefUpdateResult> {
+    const entry = this.reflog.get(entryId);
+    if (!entry) {
+      throw new Error("reflog entry not found");
+    }
+    if (entry.oldOid === ZERO_OID) {
+      throw new Error(`${entry.ref} did not exist before this change`);
+    }
+    if (!(await this.hasObject(entry.oldOid))) {
+      throw new Error(`${entry.oldOid} is no longer in the repository`);
+    }
+
+    const current = await this.resolveRef(entry.ref);
+    if (current === entry.oldOid) {
+      return { ref: entry.ref, ok: true };
+    }
+    const [result] = await this.applyRefUpdates(
+      [{ ref: entry.ref, oldOid: current ?? ZERO_OID, newOid: entry.oldOid }],
+      { policy, source: "web" }
+    );
+    return result;
+  }
 }
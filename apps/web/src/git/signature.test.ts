@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  getKeyFingerprint,
+  type SigningKey,
+  verifySignature,
+} from "./signature";
+
+// Keys and signatures made with `ssh-keygen -Y sign -n git` and
+// `gpg --detach-sign --armor` over PAYLOAD
+
+const PAYLOAD = new TextEncoder().encode(
+  "certificate version 0.1\npusher alice\n\n0000 1111 refs/heads/main\n"
+);
+
+const SSH_ED25519: SigningKey = {
+  type: "ssh",
+  key: "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIOrReHo4PR/9qiAKRof4CsRW5HtyE1ioaUkuSZttemjU alice@example.com",
+};
+const SSH_ECDSA: SigningKey = {
+  type: "ssh",
+  key: "ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBAK7gU9Fb8xMaPsuS80M20ijUmdf+65xjuMutcZqU5UXjkFprRNfcgTWPlumR/8zBlvQ4jm7h9B6ltMMWTrfzVI= alice@example.com",
+};
+const SSH_ED25519_SIGNATURE = [
+  "-----BEGIN SSH SIGNATURE-----",
+  "U1NIU0lHAAAAAQAAADMAAAALc3NoLWVkMjU1MTkAAAAg6tF4ejg9H/2qIApGh/gKxFbke3",
+  "ITWKhpSS5Jm216aNQAAAADZ2l0AAAAAAAAAAZzaGE1MTIAAABTAAAAC3NzaC1lZDI1NTE5",
+  "AAAAQC4T/KFTgiyFVc42aJ0jIk+SnC0AvjFj91wYHNnXN+jPdmyEmExQSkaAK9Ql3cX4Yn",
+  "kTDZeuR/r+GsDiwPGF6ws=",
+  "-----END SSH SIGNATURE-----",
+].join("\n");
+const SSH_ECDSA_SIGNATURE = [
+  "-----BEGIN SSH SIGNATURE-----",
+  "U1NIU0lHAAAAAQAAAGgAAAATZWNkc2Etc2hhMi1uaXN0cDI1NgAAAAhuaXN0cDI1NgAAAE",
+  "EEAruBT0VvzExo+y5LzQzbSKNSZ1/7rnGO4y61xmpTlReOQWmtE19yBNY+W6ZH/zMGW9Di",
+  "ObuH0HqW0wxZOt/NUgAAAANnaXQAAAAAAAAABnNoYTUxMgAAAGQAAAATZWNkc2Etc2hhMi",
+  "1uaXN0cDI1NgAAAEkAAAAhAOI52L3xdCjYir3bEUP1CS4xyHafdP78UdKC7t8vP/GFAAAA",
+  "IAXo+FzRtDfzezWNU0r2kcArzC7Xr1+UrnSJvI26xagm",
+  "-----END SSH SIGNATURE-----",
+].join("\n");
+/** Signed with the ed25519 key for the "file" namespace instead of "git" */
+const SSH_FILE_SIGNATURE = [
+  "-----BEGIN SSH SIGNATURE-----",
+  "U1NIU0lHAAAAAQAAADMAAAALc3NoLWVkMjU1MTkAAAAg6tF4ejg9H/2qIApGh/gKxFbke3",
+  "ITWKhpSS5Jm216aNQAAAAEZmlsZQAAAAAAAAAGc2hhNTEyAAAAUwAAAAtzc2gtZWQyNTUx",
+  "OQAAAEAhAUTaqvS9k3h8u48kJRaYd8ssKp674pJWYHLhufeV/6qWZYW205KAWVo3ipspaE",
+  "k3LKAp7naVA/kQYIPDt+QG",
+  "-----END SSH SIGNATURE-----",
+].join("\n");
+
+const GPG_ED25519: SigningKey = {
+  type: "gpg",
+  key: [
+    "-----BEGIN PGP PUBLIC KEY BLOCK-----",
+    "",
+    "mDMEatZvLBYJKwYBBAHaRw8BAQdAStmjQpPRd9195X3N0bKXSUozsfCcUVcAdcXr",
+    "Kw6QO7C0GUFsaWNlIDxhbGljZUBleGFtcGxlLmNvbT6IkAQTFggAOBYhBByMdQPL",
+    "+1CE2GrmI4thGcLXuhcwBQJq1m8sAhsDBQsJCAcCBhUKCQgLAgQWAgMBAh4BAheA",
+    "AAoJEIthGcLXuhcwDOUA/iPFWVbla3uBgdGIaPrEZCsvk+ENsVCX3KCsc7yD+ehz",
+    "AQCUc4wJPSQm2R8WfxpDVb8CYCBE6SAipPGYgseu/MPJBQ==",
+    "=cGza",
+    "-----END PGP PUBLIC KEY BLOCK-----",
+  ].join("\n"),
+};
+const GPG_RSA: SigningKey = {
+  type: "gpg",
+  key: [
+    "-----BEGIN PGP PUBLIC KEY BLOCK-----",
+    "",
+    "mQENBGrWbywBCADGElTdE8s3O2PkgR0B1mEhE8MvOoJf4zZb7f3SV3/oXpQ8ksxC",
+    "xUvdWFGGxcxqytLzBsdKgPD2SyDaHCzGUsvHuBkzo+35z6bIgl8qC6H49igSwgw9",
+    "UCvSJIvPjjt3P4eZRG6KixiHdvAr3AJEqV3ZHnk6zpaAFbugnggYAoq4j0QfJU43",
+    "fUp2ri1mpqN/XG0ztvLDEOVrF/5/Ece5Eu6Ea27MzJlwR7bo4wH4AwG/rhe/wvSY",
+    "xBWA+ky8CuQh+vMM9QqHcPzQHPpob/5E6jwXRJ9w5QrIIu3QjO2gXkmmM7pU1XJo",
+    "79LiozrcbQfJEMCoRQByG9aTIOtRixwVgXYhABEBAAG0FUJvYiA8Ym9iQGV4YW1w",
+    "bGUuY29tPokBTgQTAQoAOBYhBMJwkf0VmfI9BxQfajbMFBqSi9EoBQJq1m8sAhsD",
+    "BQsJCAcCBhUKCQgLAgQWAgMBAh4BAheAAAoJEDbMFBqSi9Eot1UIALX008pEUP+6",
+    "nLtTCz6zZDR+u8bK3uAaEK9q09vezI+lQUlz4Sok1v6Zh9bSHNIfjXrVfG+IM2xI",
+    "evhIJ0UDvTv7pnDZ3xskMqtUtT85r1zFrL0v2DJ9loGkJW+EYFfir7TcmnYtirc5",
+    "5sGUq/Uqj0759DHTU8ksHqddNje61uA0LtRQKd0tNqHieECxelLh5XuBDtScI2Zt",
+    "i2Kbm1dsV2q0OtJatBj2zST+eNlRfwepZ/ucUzjC/mzZFjJEVK39AY4gaCAch2cA",
+    "SSTnd8Ni8pCoazdg4JPir84u2OcHWI9d6HO8My3NEgmhU1EXg/OhOLpOOdIltUDA",
+    "z0d38zISk9s=",
+    "=1yYr",
+    "-----END PGP PUBLIC KEY BLOCK-----",
+  ].join("\n"),
+};
+const GPG_ED25519_SIGNATURE = [
+  "-----BEGIN PGP SIGNATURE-----",
+  "",
+  "iIgEABYIADAWIQQcjHUDy/tQhNhq5iOLYRnC17oXMAUCatZvLRIcYWxpY2VAZXhh",
+  "bXBsZS5jb20ACgkQi2EZwte6FzA62gEAzRVUtEENkv+N97MTcnwA2NPBMgr3Wlxt",
+  "DNoW2OGtpuAA/2DkhPRDpNmhYBxtKVfLgcKpjfh/pqtkiKfYtAdV7EsH",
+  "=FDFV",
+  "-----END PGP SIGNATURE-----",
+].join("\n");
+const GPG_RSA_SIGNATURE = [
+  "-----BEGIN PGP SIGNATURE-----",
+  "",
+  "iQFEBAABCgAuFiEEwnCR/RWZ8j0HFB9qNswUGpKL0SgFAmrWby0QHGJvYkBleGFt",
+  "cGxlLmNvbQAKCRA2zBQakovRKBVxB/0QCu9pwEkjhZ35/VYWec0WsXDOXdbj/501",
+  "QwnMUWPD1OaBMV9UsOjxKB2mEt+g9R0FNv8miPzPgUsxHnZoGdCPdKG+NW2qHWaR",
+  "0fqDsXwW3++ceRviQmR3ooCS3oP0ddKf27XZ/10Me9y9IDrrqerrn1x/ZGAeaNGx",
+  "dPlEqwOow+/tLfZcRWcIehmAyDQNqESuc6YFQExf2QPvXAtS5ZVUFxMVLa78O/HP",
+  "W33LM3qpifikTn0nnwtdE+y/szNvffw6C7V+KC1iaSAJrd38887y35YFY97W4i6o",
+  "GZILgL4js7A/wDwEZCntxW/ZgPAjZ7uyqgeSu4ctokd/dPok6n5j",
+  "=2Saj",
+  "-----END PGP SIGNATURE-----",
+].join("\n");
+
+describe("verifySignature", () => {
+  it.each([
+    ["SSH ed25519", SSH_ED25519, SSH_ED25519_SIGNATURE],
+    ["SSH ECDSA", SSH_ECDSA, SSH_ECDSA_SIGNATURE],
+    ["OpenPGP EdDSA", GPG_ED25519, GPG_ED25519_SIGNATURE],
+    ["OpenPGP RSA", GPG_RSA, GPG_RSA_SIGNATURE],
+  ])("verifies %s signatures", async (_, key, signature) => {
+    const result = await verifySignature(PAYLOAD, signature, [
+      SSH_ED25519,
+      SSH_ECDSA,
+      GPG_ED25519,
+      GPG_RSA,
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      fingerprint: await getKeyFingerprint(key),
+    });
+  });
+
+  it.each([
+    ["SSH", SSH_ED25519_SIGNATURE],
+    ["OpenPGP", GPG_ED25519_SIGNATURE],
+  ])("rejects %s signatures over other data", async (_, signature) => {
+    const payload = new TextEncoder().encode("something else\n");
+
+    const result = await verifySignature(payload, signature, [
+      SSH_ED25519,
+      GPG_ED25519,
+    ]);
+
+    expect(result.ok).toBe(false);
+  });
+
+  it("rejects signatures made with keys the signer didn't upload", async () => {
+    expect(
+      await verifySignature(PAYLOAD, SSH_ED25519_SIGNATURE, [SSH_ECDSA])
+    ).toEqual({ ok: false, reason: "signed with an unknown SSH key" });
+    expect(
+      (await verifySignature(PAYLOAD, GPG_RSA_SIGNATURE, [GPG_ED25519])).ok
+    ).toBe(false);
+  });
+
+  it("rejects SSH signatures made for another namespace", async () => {
+    expect(
+      await verifySignature(PAYLOAD, SSH_FILE_SIGNATURE, [SSH_ED25519])
+    ).toEqual({ ok: false, reason: 'unexpected namespace "file"' });
+  });
+
+  it("rejects malformed and unknown signatures", async () => {
+    expect(
+      (
+        await verifySignature(
+          PAYLOAD,
+          "-----BEGIN SSH SIGNATURE-----\nU1NI\n-----END SSH SIGNATURE-----",
+          [SSH_ED25519]
+        )
+      ).ok
+    ).toBe(false);
+    expect(await verifySignature(PAYLOAD, "not a signature", [])).toEqual({
+      ok: false,
+      reason: "unsupported signature format",
+    });
+  });
+});
+
+describe("getKeyFingerprint", () => {
+  it("matches ssh-keygen -l", async () => {
+    expect(await getKeyFingerprint(SSH_ED25519)).toBe(
+      "SHA256:2KpC8T6NSCRmHBELUh/7incZgBjt+woKbSJoviZXn4U"
+    );
+  });
+
+  it("matches gpg --fingerprint", async () => {
+    expect(await getKeyFingerprint(GPG_ED25519)).toBe(
+      "1C8C7503CBFB5084D86AE6238B6119C2D7BA1730"
+    );
+  });
+
+  it("rejects keys it can't parse", async () => {
+    await expect(
+      getKeyFingerprint({ type: "gpg", key: "not a key" })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,628 @@
+/**
+ * Detached signature verification for OpenPGP (`gpg`) and SSH (`ssh-keygen
+ * -Y sign`) signatures, as made by git for signed pushes.
+ *
+ * Supported keys: OpenPGP v4 RSA, EdDSA (Ed25519) and ECDSA (P-256/P-384)
+ * keys and subkeys, and SSH ed25519, RSA and ECDSA (nistp256/nistp384) keys.
+ * Key expiry and revocation are not checked.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4880
+ * @see https://github.com/openssh/openssh-portable/blob/master/PROTOCOL.sshsig
+ */
+
+// biome-ignore-all lint/suspicious/noBitwiseOperators: OpenPGP packet headers are bit-packed
+
+/** A public key uploaded by a user to verify their signatures */
+export type SigningKey = {
+  type: "gpg" | "ssh";
+  /** Armored OpenPGP public key block, or an OpenSSH `authorized_keys` line */
+  key: string;
+};
+
+export type SignatureVerification =
+  | {
+      ok: true;
+      /** Fingerprint of the key that made the signature */
+      fingerprint: string;
+    }
+  | { ok: false; reason: string };
+
+/** Bytes backed by a plain `ArrayBuffer`, as WebCrypto expects */
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const encoder = new TextEncoder();
+
+function decodeBase64(text: string) {
+  const binary = atob(text.replace(/\s+/g, ""));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function encodeBase64(bytes: Bytes) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function toHex(bytes: Bytes) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function bytesEqual(a: Bytes, b: Bytes) {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function concat(...parts: Bytes[]) {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Left-pad (or strip leading zeros from) a big-endian integer to `length` bytes.
+ */
+function fixedLength(bytes: Bytes, length: number) {
+  let start = 0;
+  while (bytes.length - start > length && bytes[start] === 0) start += 1;
+  const trimmed = bytes.subarray(start);
+  if (trimmed.length > length) throw new Error("integer too large");
+  const result = new Uint8Array(length);
+  result.set(trimmed, length - trimmed.length);
+  return result;
+}
+
+function base64Url(bytes: Bytes) {
+  return encodeBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function importRsaKey(n: Bytes, e: Bytes, hash: string) {
+  return crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "RSA",
+      n: base64Url(fixedLength(n, n.length - (n[0] === 0 ? 1 : 0))),
+      e: base64Url(fixedLength(e, e.length - (e[0] === 0 ? 1 : 0))),
+    },
+    { name: "RSASSA-PKCS1-v1_5", hash },
+    false,
+    ["verify"]
+  );
+}
+
+const CURVES = {
+  "P-256": { size: 32, hash: "SHA-256" },
+  "P-384": { size: 48, hash: "SHA-384" },
+} as const;
+
+type Curve = keyof typeof CURVES;
+
+/**
+ * Verify a detached signature over `payload` with any of `keys`.
+ *
+ * @param payload - The signed data
+ * @param signature - Armored PGP or SSH signature
+ * @param keys - Keys the signer may have used
+ */
+export async function verifySignature(
+  payload: Bytes,
+  signature: string,
+  keys: SigningKey[]
+): Promise<SignatureVerification> {
+  try {
+    if (signature.includes("-----BEGIN SSH SIGNATURE-----")) {
+      return await verifySshSignature(
+        payload,
+        signature,
+        keys.filter((key) => key.type === "ssh")
+      );
+    }
+    if (signature.includes("-----BEGIN PGP SIGNATURE-----")) {
+      return await verifyPgpSignature(
+        payload,
+        signature,
+        keys.filter((key) => key.type === "gpg")
+      );
+    }
+    return { ok: false, reason: "unsupported signature format" };
+  } catch (error) {
+    return {
+      ok: false,
+      reason: `malformed signature: ${(error as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Fingerprint of a signing key as shown by `ssh-keygen -l` or `gpg
+ * --fingerprint`, used to check uploaded keys.
+ *
+ * @throws Error if the key can't be parsed
+ */
+export async function getKeyFingerprint(key: SigningKey): Promise<string> {
+  if (key.type === "ssh") {
+    return sshFingerprint(parseAuthorizedKey(key.key));
+  }
+  const [primary] = await readPgpKeys(key.key);
+  if (!primary) throw new Error("no public key found");
+  return primary.fingerprint;
+}
+
+// SSH signatures
+
+class SshReader {
+  private offset = 0;
+  private readonly bytes: Bytes;
+
+  constructor(bytes: Bytes) {
+    this.bytes = bytes;
+  }
+
+  uint32() {
+    if (this.offset + 4 > this.bytes.length) throw new Error("truncated");
+    const view = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset + this.offset,
+      4
+    );
+    this.offset += 4;
+    return view.getUint32(0);
+  }
+
+  bytesField() {
+    const length = this.uint32();
+    if (this.offset + length > this.bytes.length) throw new Error("truncated");
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  text() {
+    return new TextDecoder().decode(this.bytesField());
+  }
+
+  raw(length: number) {
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+function sshString(value: Bytes | string) {
+  const bytes = typeof value === "string" ? encoder.encode(value) : value;
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, bytes.length);
+  return concat(length, bytes);
+}
+
+function parseAuthorizedKey(line: string) {
+  const [, blob] = line.trim().split(/\s+/);
+  if (!blob) throw new Error("invalid SSH public key");
+  return decodeBase64(blob);
+}
+
+async function sshFingerprint(publicKey: Bytes) {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", publicKey)
+  );
+  return `SHA256:${encodeBase64(digest).replace(/=+$/, "")}`;
+}
+
+async function verifySshSignature(
+  payload: Bytes,
+  armored: string,
+  keys: SigningKey[]
+): Promise<SignatureVerification> {
+  const body = armored
+    .replace(/-----(BEGIN|END) SSH SIGNATURE-----/g, "")
+    .trim();
+  const reader = new SshReader(decodeBase64(body));
+
+  if (new TextDecoder().decode(reader.raw(6)) !== "SSHSIG") {
+    throw new Error("bad magic");
+  }
+  if (reader.uint32() !== 1) throw new Error("unsupported version");
+  const publicKey = reader.bytesField();
+  const namespace = reader.text();
+  const reserved = reader.bytesField();
+  const hashAlgorithm = reader.text();
+  const signatureBlob = reader.bytesField();
+
+  if (namespace !== "git") {
+    return { ok: false, reason: `unexpected namespace "${namespace}"` };
+  }
+
+  const known = keys.some((key) =>
+    bytesEqual(parseAuthorizedKey(key.key), publicKey)
+  );
+  if (!known) {
+    return { ok: false, reason: "signed with an unknown SSH key" };
+  }
+
+  const hash = { sha256: "SHA-256", sha512: "SHA-512" }[hashAlgorithm];
+  if (!hash) {
+    return { ok: false, reason: `unsupported hash ${hashAlgorithm}` };
+  }
+  const messageHash = new Uint8Array(await crypto.subtle.digest(hash, payload));
+  const signedData = concat(
+    encoder.encode("SSHSIG"),
+    sshString(namespace),
+    sshString(reserved),
+    sshString(hashAlgorithm),
+    sshString(messageHash)
+  );
+
+  const signatureReader = new SshReader(signatureBlob);
+  const signatureType = signatureReader.text();
+  const signatureBytes = signatureReader.bytesField();
+
+  const keyReader = new SshReader(publicKey);
+  const keyType = keyReader.text();
+  let valid: boolean;
+
+  if (keyType === "ssh-ed25519") {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      keyReader.bytesField(),
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+    valid = await crypto.subtle.verify(
+      "Ed25519",
+      key,
+      signatureBytes,
+      signedData
+    );
+  } else if (keyType === "ssh-rsa") {
+    const rsaHash = { "rsa-sha2-256": "SHA-256", "rsa-sha2-512": "SHA-512" }[
+      signatureType
+    ];
+    if (!rsaHash) {
+      return { ok: false, reason: `unsupported signature ${signatureType}` };
+    }
+    const e = keyReader.bytesField();
+    const n = keyReader.bytesField();
+    const key = await importRsaKey(n, e, rsaHash);
+    valid = await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      key,
+      signatureBytes,
+      signedData
+    );
+  } else if (keyType.startsWith("ecdsa-sha2-")) {
+    const curve = (
+      { nistp256: "P-256", nistp384: "P-384" } as Record<string, Curve>
+    )[keyReader.text()];
+    if (!curve) return { ok: false, reason: `unsupported key ${keyType}` };
+    const key = await crypto.subtle.importKey(
+      "raw",
+      keyReader.bytesField(),
+      { name: "ECDSA", namedCurve: curve },
+      false,
+      ["verify"]
+    );
+    // SSH encodes the signature as two mpints, WebCrypto wants r || s
+    const ecReader = new SshReader(signatureBytes);
+    const { size, hash: ecHash } = CURVES[curve];
+    const rawSignature = concat(
+      fixedLength(ecReader.bytesField(), size),
+      fixedLength(ecReader.bytesField(), size)
+    );
+    valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: ecHash },
+      key,
+      rawSignature,
+      signedData
+    );
+  } else {
+    return { ok: false, reason: `unsupported key ${keyType}` };
+  }
+
+  if (!valid) return { ok: false, reason: "bad signature" };
+  return { ok: true, fingerprint: await sshFingerprint(publicKey) };
+}
+
+// OpenPGP signatures
+
+const PGP_HASHES: Record<number, string> = {
+  2: "SHA-1",
+  8: "SHA-256",
+  9: "SHA-384",
+  10: "SHA-512",
+};
+
+/** OIDs of supported curves, hex-encoded as in OpenPGP key packets */
+const PGP_CURVES: Record<string, Curve | "Ed25519"> = {
+  "2b06010401da470f01": "Ed25519",
+  "2a8648ce3d030107": "P-256",
+  "2b81040022": "P-384",
+};
+
+type PgpPacket = { tag: number; body: Bytes };
+
+type PgpPublicKey = {
+  fingerprint: string;
+  keyId: string;
+  algorithm: number;
+  /** Raw key material after the algorithm byte */
+  material: Bytes;
+};
+
+/**
+ * Strip ASCII armor: headers, the CRC24 checksum line and the markers.
+ */
+function dearmor(armored: string) {
+  const lines = armored.replace(/\r/g, "").split("\n");
+  const begin = lines.findIndex((line) => line.startsWith("-----BEGIN PGP"));
+  const end = lines.findIndex((line) => line.startsWith("-----END PGP"));
+  if (begin === -1 || end === -1) throw new Error("missing armor");
+
+  let i = begin + 1;
+  // Armor headers (e.g. "Comment: ...") end with an empty line
+  while (i < end && lines[i].includes(": ")) i += 1;
+  const body = lines
+    .slice(i, end)
+    .filter((line) => line.trim() && !/^=[A-Za-z0-9+/]{4}$/.test(line.trim()));
+  return decodeBase64(body.join(""));
+}
+
+function readPackets(bytes: Bytes): PgpPacket[] {
+  const packets: PgpPacket[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const header = bytes[offset];
+    if ((header & 0x80) === 0) throw new Error("invalid packet header");
+    offset += 1;
+
+    let tag: number;
+    let length: number;
+    if (header & 0x40) {
+      // New format length
+      tag = header & 0x3f;
+      const first = bytes[offset];
+      if (first < 192) {
+        length = first;
+        offset += 1;
+      } else if (first < 224) {
+        length = ((first - 192) << 8) + bytes[offset + 1] + 192;
+        offset += 2;
+      } else if (first === 255) {
+        length = new DataView(
+          bytes.buffer,
+          bytes.byteOffset + offset + 1,
+          4
+        ).getUint32(0);
+        offset += 5;
+      } else {
+        throw new Error("partial body lengths are not supported");
+      }
+    } else {
+      // Old format length
+      tag = (header >> 2) & 0x0f;
+      const lengthType = header & 0x03;
+      if (lengthType === 3) {
+        length = bytes.length - offset;
+      } else {
+        const size = [1, 2, 4][lengthType];
+        length = 0;
+        for (let i = 0; i < size; i += 1) {
+          length = length * 256 + bytes[offset + i];
+        }
+        offset += size;
+      }
+    }
+
+    packets.push({ tag, body: bytes.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return packets;
+}
+
+/**
+ * Read an OpenPGP multiprecision integer.
+ *
+ * @returns The integer bytes and the offset after it
+ */
+function readMpi(bytes: Bytes, offset: number) {
+  const bits = (bytes[offset] << 8) | bytes[offset + 1];
+  const length = Math.ceil(bits / 8);
+  return {
+    value: bytes.subarray(offset + 2, offset + 2 + length),
+    next: offset + 2 + length,
+  };
+}
+
+/**
+ * Read the primary key and subkeys of an armored public key block.
+ */
+async function readPgpKeys(armored: string): Promise<PgpPublicKey[]> {
+  const keys: PgpPublicKey[] = [];
+
+  for (const { tag, body } of readPackets(dearmor(armored))) {
+    // 6 = public key, 14 = public subkey
+    if (tag !== 6 && tag !== 14) continue;
+    if (body[0] !== 4) continue; // Only v4 keys
+
+    const prefix = new Uint8Array([0x99, body.length >> 8, body.length & 0xff]);
+    const fingerprint = new Uint8Array(
+      await crypto.subtle.digest("SHA-1", concat(prefix, body))
+    );
+    keys.push({
+      fingerprint: toHex(fingerprint).toUpperCase(),
+      keyId: toHex(fingerprint.subarray(12)).toUpperCase(),
+      algorithm: body[5],
+      material: body.subarray(6),
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Find the issuer of a signature in its subpackets: the issuer fingerprint
+ * (type 33) if present, otherwise the issuer key id (type 16).
+ */
+function findIssuer(subpackets: Bytes) {
+  let keyId: string | undefined;
+  let fingerprint: string | undefined;
+  let offset = 0;
+
+  while (offset < subpackets.length) {
+    let length = subpackets[offset];
+    if (length < 192) {
+      offset += 1;
+    } else if (length < 255) {
+      length = ((length - 192) << 8) + subpackets[offset + 1] + 192;
+      offset += 2;
+    } else {
+      length = new DataView(
+        subpackets.buffer,
+        subpackets.byteOffset + offset + 1,
+        4
+      ).getUint32(0);
+      offset += 5;
+    }
+
+    const type = subpackets[offset] & 0x7f;
+    const data = subpackets.subarray(offset + 1, offset + length);
+    if (type === 16) keyId = toHex(data).toUpperCase();
+    if (type === 33) fingerprint = toHex(data.subarray(1)).toUpperCase();
+    offset += length;
+  }
+
+  return { keyId, fingerprint };
+}
+
+async function verifyPgpSignature(
+  payload: Bytes,
+  armored: string,
+  signingKeys: SigningKey[]
+): Promise<SignatureVerification> {
+  const packet = readPackets(dearmor(armored)).find((p) => p.tag === 2);
+  if (!packet) throw new Error("no signature packet");
+  const sig = packet.body;
+  if (sig[0] !== 4) {
+    return { ok: false, reason: `unsupported signature version ${sig[0]}` };
+  }
+
+  const signatureType = sig[1];
+  const hash = PGP_HASHES[sig[3]];
+  if (!hash) return { ok: false, reason: `unsupported hash ${sig[3]}` };
+
+  const hashedLength = (sig[4] << 8) | sig[5];
+  const hashedEnd = 6 + hashedLength;
+  const unhashedLength = (sig[hashedEnd] << 8) | sig[hashedEnd + 1];
+  const unhashedEnd = hashedEnd + 2 + unhashedLength;
+  const issuer = {
+    ...findIssuer(sig.subarray(hashedEnd + 2, unhashedEnd)),
+    ...findIssuer(sig.subarray(6, hashedEnd)),
+  };
+
+  // Find the (sub)key that made the signature
+  let signer: { key: PgpPublicKey; primary: PgpPublicKey } | undefined;
+  for (const signingKey of signingKeys) {
+    const keys = await readPgpKeys(signingKey.key);
+    const key = keys.find((k) =>
+      issuer.fingerprint
+        ? k.fingerprint === issuer.fingerprint
+        : k.keyId === issuer.keyId
+    );
+    if (key) {
+      signer = { key, primary: keys[0] };
+      break;
+    }
+  }
+  if (!signer) {
+    return { ok: false, reason: "signed with an unknown GPG key" };
+  }
+
+  // 0x00 signs the data as is, 0x01 as text with CRLF line endings
+  let data = payload;
+  if (signatureType === 0x01) {
+    data = encoder.encode(
+      new TextDecoder().decode(payload).replace(/\r?\n/g, "\r\n")
+    );
+  } else if (signatureType !== 0x00) {
+    return { ok: false, reason: "not a document signature" };
+  }
+
+  const trailer = new Uint8Array(6);
+  trailer[0] = 0x04;
+  trailer[1] = 0xff;
+  new DataView(trailer.buffer).setUint32(2, hashedEnd);
+  const hashInput = concat(data, sig.subarray(0, hashedEnd), trailer);
+
+  // Signature MPIs follow the 2 byte hash prefix
+  const mpiStart = unhashedEnd + 2;
+  const { algorithm, material } = signer.key;
+  let valid: boolean;
+
+  if (algorithm === 1 || algorithm === 3) {
+    // RSA: n, e
+    const n = readMpi(material, 0);
+    const e = readMpi(material, n.next);
+    const key = await importRsaKey(n.value, e.value, hash);
+    const modulusLength = n.value.length - (n.value[0] === 0 ? 1 : 0);
+    valid = await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      key,
+      fixedLength(readMpi(sig, mpiStart).value, modulusLength),
+      hashInput
+    );
+  } else if (algorithm === 19 || algorithm === 22) {
+    // ECDSA and EdDSA: curve OID, public point
+    const oidLength = material[0];
+    const curve = PGP_CURVES[toHex(material.subarray(1, 1 + oidLength))];
+    const point = readMpi(material, 1 + oidLength).value;
+    const r = readMpi(sig, mpiStart);
+    const s = readMpi(sig, r.next);
+
+    if (algorithm === 22 && curve === "Ed25519") {
+      // The point is prefixed with 0x40; EdDSA signs the digest
+      const key = await crypto.subtle.importKey(
+        "raw",
+        point.subarray(1),
+        { name: "Ed25519" },
+        false,
+        ["verify"]
+      );
+      const digest = await crypto.subtle.digest(hash, hashInput);
+      valid = await crypto.subtle.verify(
+        "Ed25519",
+        key,
+        concat(fixedLength(r.value, 32), fixedLength(s.value, 32)),
+        digest
+      );
+    } else if (algorithm === 19 && curve && curve !== "Ed25519") {
+      const key = await crypto.subtle.importKey(
+        "raw",
+        point,
+        { name: "ECDSA", namedCurve: curve },
+        false,
+        ["verify"]
+      );
+      const { size } = CURVES[curve];
+      valid = await crypto.subtle.verify(
+        { name: "ECDSA", hash },
+        key,
+        concat(fixedLength(r.value, size), fixedLength(s.value, size)),
+        hashInput
+      );
+    } else {
+      return { ok: false, reason: "unsupported curve" };
+    }
+  } else {
+    return { ok: false, reason: `unsupported key algorithm ${algorithm}` };
+  }
+
+  if (!valid) return { ok: false, reason: "bad signature" };
+  return { ok: true, fingerprint: signer.primary.fingerprint };
+}
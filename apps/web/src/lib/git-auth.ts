@@ -1,6 +1,7 @@
 import { api } from "@gitvex/backend/convex/_generated/api";
+import type { PushPolicy } from "@/git/branch-protection";
 import { getBasicCredentials } from "@/git/protocol";
-import { fetchMutation } from "./auth-server";
+import { fetchMutation, fetchQuery } from "./auth-server";
 
 type VerifyAuthArgs = {
   owner: string;
@@ -30,3 +31,89 @@ export async function verifyAuth({
     return false;
   }
 }
+
+/**
+ * Verify push access and get the branch protection rules to enforce.
+ *
+ * @returns The push policy, or null if the push is not authorized
+ */
+export async function authorizePush({
+  owner,
+  repo,
+  req,
+}: Omit<VerifyAuthArgs, "service">): Promise<PushPolicy | null> {
+  const basic = getBasicCredentials(req);
+  const token = basic && basic.username === owner ? basic.password : undefined;
+
+  try {
+    const data = await fetchMutation(api.repositories.checkPermissionByPAT, {
+      owner,
+      repo,
+      token,
+      service: "receive-pack",
+    });
+    if (!data.valid) return null;
+
+    return {
+      pusher: data.pusher ?? null,
+      token: token ?? null,
+      rules: data.branchProtection ?? [],
+      signingKeys: data.signingKeys ?? [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the signed-in user owns the repository, for ref updates made from
+ * the web (e.g. importing a bundle) instead of a push.
+ *
+ * @returns The push policy, or null if the user is not the owner
+ */
+export async function authorizeSessionPush({
+  owner,
+  repo,
+}: Omit<VerifyAuthArgs, "req" | "service">): Promise<PushPolicy | null> {
+  try {
+    const [user, repository] = await Promise.all([
+      fetchQuery(api.auth.getCurrentUser, {}),
+      fetchQuery(api.repositories.getByOwnerAndName, { owner, name: repo }),
+    ]);
+    if (!user || repository.ownerId !== user._id) return null;
+
+    const rules = await fetchQuery(api.branchProtection.getByRepo, {
+      owner,
+      name: repo,
+    });
+    return {
+      pusher: user.username ?? null,
+      token: null,
+      rules: rules.map((rule) => ({
+        pattern: rule.pattern,
+        allowDeletion: rule.allowDeletion,
+        allowForcePush: rule.allowForcePush,
+        requireLinearHistory: rule.requireLinearHistory,
+        requireSignedPush: rule.requireSignedPush ?? false,
+      })),
+      signingKeys: [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the signed-in user can read the repository.
+ */
+export async function verifySessionAccess({
+  owner,
+  repo,
+}: Omit<VerifyAuthArgs, "req" | "service">) {
+  try {
+    await fetchQuery(api.repositories.getByOwnerAndName, { owner, name: repo });
+    return true;
+  } catch {
+    return false;
+  }
+}
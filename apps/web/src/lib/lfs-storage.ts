@@ -0,0 +1,91 @@
+import { env } from "cloudflare:workers";
+import { getRepoDOStub } from "@/do/repo";
+import type { LfsStorage } from "@/git/lfs";
+
+/**
+ * LFS objects in the repository's Durable Object.
+ */
+class DurableObjectLfsStorage implements LfsStorage {
+  private readonly fullName: string;
+
+  constructor(fullName: string) {
+    this.fullName = fullName;
+  }
+
+  async size(oid: string) {
+    return await getRepoDOStub(this.fullName).getLfsObjectSize(oid);
+  }
+
+  async get(oid: string) {
+    const res = await getRepoDOStub(this.fullName).fetch(
+      `https://do/lfs/objects/${oid}`
+    );
+    if (!(res.ok && res.body)) return null;
+    return { body: res.body, size: Number(res.headers.get("Content-Length")) };
+  }
+
+  async put(args: {
+    oid: string;
+    size: number;
+    body: ReadableStream<Uint8Array>;
+  }) {
+    const res = await getRepoDOStub(this.fullName).fetch(
+      `https://do/lfs/objects/${args.oid}`,
+      {
+        method: "PUT",
+        headers: { "Content-Length": args.size.toString() },
+        body: args.body.pipeThrough(new FixedLengthStream(args.size)),
+      }
+    );
+    if (!res.ok) {
+      throw new Error(await res.text());
+    }
+  }
+}
+
+/**
+ * LFS objects in an R2 bucket, keyed by `<owner>/<repo>/lfs/<oid>`.
+ */
+class R2LfsStorage implements LfsStorage {
+  private readonly bucket: R2Bucket;
+  private readonly prefix: string;
+
+  constructor(bucket: R2Bucket, fullName: string) {
+    this.bucket = bucket;
+    this.prefix = `${fullName}/lfs`;
+  }
+
+  async size(oid: string) {
+    const object = await this.bucket.head(`${this.prefix}/${oid}`);
+    return object?.size ?? null;
+  }
+
+  async get(oid: string) {
+    const object = await this.bucket.get(`${this.prefix}/${oid}`);
+    if (!object) return null;
+    return { body: object.body, size: object.size };
+  }
+
+  async put(args: {
+    oid: string;
+    size: number;
+    body: ReadableStream<Uint8Array>;
+  }) {
+    // R2 checks the hash and rejects the upload if it doesn't match
+    await this.bucket.put(
+      `${this.prefix}/${args.oid}`,
+      args.body.pipeThrough(new FixedLengthStream(args.size)),
+      { sha256: args.oid }
+    );
+  }
+}
+
+/**
+ * Get the LFS storage of a repository: the R2 bucket bound as `LFS_BUCKET`,
+ * or the repository's Durable Object on deployments without the binding.
+ */
+export function getLfsStorage(fullName: string): LfsStorage {
+  return env.LFS_BUCKET
+    ? new R2LfsStorage(env.LFS_BUCKET, fullName)
+    : new DurableObjectLfsStorage(fullName);
+}
@@ -23,20 +23,30 @@ import { Route as LayoutOwnerRouteImport } from './routes/_layout/$owner'
 import { Route as ApiAuthSplatRouteImport } from './routes/api/auth/$'
 import { Route as OwnerRepoGitUploadPackRouteImport } from './routes/$owner/$repo/git-upload-pack'
 import { Route as OwnerRepoGitReceivePackRouteImport } from './routes/$owner/$repo/git-receive-pack'
+import { Route as OwnerRepoBundleRouteImport } from './routes/$owner/$repo/bundle'
 import { Route as OwnerRepoLayoutRouteImport } from './routes/$owner/$repo/_layout'
+import { Route as OwnerRepoHEADRouteImport } from './routes/$owner/$repo/HEAD'
 import { Route as OwnerRepoLayoutIndexRouteImport } from './routes/$owner/$repo/_layout/index'
 import { Route as OwnerRepoInfoRefsRouteImport } from './routes/$owner/$repo/info/refs'
+import { Route as OwnerRepoArchiveSplatRouteImport } from './routes/$owner/$repo/archive/$'
 import { Route as OwnerRepoLayoutSettingsRouteImport } from './routes/$owner/$repo/_layout/settings'
 import { Route as OwnerRepoLayoutPullsRouteImport } from './routes/$owner/$repo/_layout/pulls'
 import { Route as OwnerRepoLayoutCommitsRouteImport } from './routes/$owner/$repo/_layout/commits'
+import { Route as OwnerRepoLayoutActivityRouteImport } from './routes/$owner/$repo/_layout/activity'
 import { Route as OwnerRepoLayoutViewerRouteImport } from './routes/$owner/$repo/_layout/_viewer'
 import { Route as OwnerRepoLayoutIssuesIndexRouteImport } from './routes/$owner/$repo/_layout/issues/index'
+import { Route as OwnerRepoObjectsPackFileRouteImport } from './routes/$owner/$repo/objects/pack/$file'
+import { Route as OwnerRepoObjectsInfoPacksRouteImport } from './routes/$owner/$repo/objects/info/packs'
+import { Route as OwnerRepoObjectsDirFileRouteImport } from './routes/$owner/$repo/objects/$dir/$file'
+import { Route as OwnerRepoInfoLfsVerifyRouteImport } from './routes/$owner/$repo/info/lfs/verify'
 import { Route as OwnerRepoLayoutIssuesNewRouteImport } from './routes/$owner/$repo/_layout/issues/new'
 import { Route as OwnerRepoLayoutIssuesIssueNumberRouteImport } from './routes/$owner/$repo/_layout/issues/$issueNumber'
 import { Route as OwnerRepoLayoutCommitsCommitIdRouteImport } from './routes/$owner/$repo/_layout/commits_.$commitId'
 import { Route as OwnerRepoLayoutViewerTreeRouteImport } from './routes/$owner/$repo/_layout/_viewer/tree'
 import { Route as OwnerRepoLayoutViewerRawRouteImport } from './routes/$owner/$repo/_layout/_viewer/raw'
 import { Route as OwnerRepoLayoutViewerBlobRouteImport } from './routes/$owner/$repo/_layout/_viewer/blob'
+import { Route as OwnerRepoInfoLfsObjectsBatchRouteImport } from './routes/$owner/$repo/info/lfs/objects/batch'
+import { Route as OwnerRepoInfoLfsObjectsOidRouteImport } from './routes/$owner/$repo/info/lfs/objects/$oid'
 
 const OwnerRepoRouteImport = createFileRoute('/$owner/$repo')()
 
@@ -104,10 +114,20 @@ const OwnerRepoGitReceivePackRoute = OwnerRepoGitReceivePackRouteImport.update({
   path: '/git-receive-pack',
   getParentRoute: () => OwnerRepoRoute,
 } as any)
+const OwnerRepoBundleRoute = OwnerRepoBundleRouteImport.update({
+  id: '/bundle',
+  path: '/bundle',
+  getParentRoute: () => OwnerRepoRoute,
+} as any)
 const OwnerRepoLayoutRoute = OwnerRepoLayoutRouteImport.update({
   id: '/_layout',
   getParentRoute: () => OwnerRepoRoute,
 } as any)
+const OwnerRepoHEADRoute = OwnerRepoHEADRouteImport.update({
+  id: '/$owner/$repo/HEAD',
+  path: '/$owner/$repo/HEAD',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const OwnerRepoLayoutIndexRoute = OwnerRepoLayoutIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -118,6 +138,11 @@ const OwnerRepoInfoRefsRoute = OwnerRepoInfoRefsRouteImport.update({
   path: '/info/refs',
   getParentRoute: () => OwnerRepoRoute,
 } as any)
+const OwnerRepoArchiveSplatRoute = OwnerRepoArchiveSplatRouteImport.update({
+  id: '/archive/$',
+  path: '/archive/$',
+  getParentRoute: () => OwnerRepoRoute,
+} as any)
 const OwnerRepoLayoutSettingsRoute = OwnerRepoLayoutSettingsRouteImport.update({
   id: '/settings',
   path: '/settings',
@@ -133,6 +158,11 @@ const OwnerRepoLayoutCommitsRoute = OwnerRepoLayoutCommitsRouteImport.update({
   path: '/commits',
   getParentRoute: () => OwnerRepoLayoutRoute,
 } as any)
+const OwnerRepoLayoutActivityRoute = OwnerRepoLayoutActivityRouteImport.update({
+  id: '/activity',
+  path: '/activity',
+  getParentRoute: () => OwnerRepoLayoutRoute,
+} as any)
 const OwnerRepoLayoutViewerRoute = OwnerRepoLayoutViewerRouteImport.update({
   id: '/_viewer',
   getParentRoute: () => OwnerRepoLayoutRoute,
@@ -143,6 +173,28 @@ const OwnerRepoLayoutIssuesIndexRoute =
     path: '/issues/',
     getParentRoute: () => OwnerRepoLayoutRoute,
   } as any)
+const OwnerRepoObjectsPackFileRoute =
+  OwnerRepoObjectsPackFileRouteImport.update({
+    id: '/objects/pack/$file',
+    path: '/objects/pack/$file',
+    getParentRoute: () => OwnerRepoRoute,
+  } as any)
+const OwnerRepoObjectsInfoPacksRoute =
+  OwnerRepoObjectsInfoPacksRouteImport.update({
+    id: '/objects/info/packs',
+    path: '/objects/info/packs',
+    getParentRoute: () => OwnerRepoRoute,
+  } as any)
+const OwnerRepoObjectsDirFileRoute = OwnerRepoObjectsDirFileRouteImport.update({
+  id: '/objects/$dir/$file',
+  path: '/objects/$dir/$file',
+  getParentRoute: () => OwnerRepoRoute,
+} as any)
+const OwnerRepoInfoLfsVerifyRoute = OwnerRepoInfoLfsVerifyRouteImport.update({
+  id: '/info/lfs/verify',
+  path: '/info/lfs/verify',
+  getParentRoute: () => OwnerRepoRoute,
+} as any)
 const OwnerRepoLayoutIssuesNewRoute =
   OwnerRepoLayoutIssuesNewRouteImport.update({
     id: '/issues/new',
@@ -179,6 +231,18 @@ const OwnerRepoLayoutViewerBlobRoute =
     path: '/blob',
     getParentRoute: () => OwnerRepoLayoutViewerRoute,
   } as any)
+const OwnerRepoInfoLfsObjectsBatchRoute =
+  OwnerRepoInfoLfsObjectsBatchRouteImport.update({
+    id: '/info/lfs/objects/batch',
+    path: '/info/lfs/objects/batch',
+    getParentRoute: () => OwnerRepoRoute,
+  } as any)
+const OwnerRepoInfoLfsObjectsOidRoute =
+  OwnerRepoInfoLfsObjectsOidRouteImport.update({
+    id: '/info/lfs/objects/$oid',
+    path: '/info/lfs/objects/$oid',
+    getParentRoute: () => OwnerRepoRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -189,13 +253,17 @@ export interface FileRoutesByFullPath {
   '/dashboard': typeof LayoutDashboardRoute
   '/new': typeof LayoutNewRoute
   '/settings': typeof LayoutSettingsRoute
+  '/$owner/$repo/HEAD': typeof OwnerRepoHEADRoute
   '/$owner/$repo': typeof OwnerRepoLayoutViewerRouteWithChildren
+  '/$owner/$repo/bundle': typeof OwnerRepoBundleRoute
   '/$owner/$repo/git-receive-pack': typeof OwnerRepoGitReceivePackRoute
   '/$owner/$repo/git-upload-pack': typeof OwnerRepoGitUploadPackRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/$owner/$repo/activity': typeof OwnerRepoLayoutActivityRoute
   '/$owner/$repo/commits': typeof OwnerRepoLayoutCommitsRoute
   '/$owner/$repo/pulls': typeof OwnerRepoLayoutPullsRoute
   '/$owner/$repo/settings': typeof OwnerRepoLayoutSettingsRoute
+  '/$owner/$repo/archive/$': typeof OwnerRepoArchiveSplatRoute
   '/$owner/$repo/info/refs': typeof OwnerRepoInfoRefsRoute
   '/$owner/$repo/': typeof OwnerRepoLayoutIndexRoute
   '/$owner/$repo/blob': typeof OwnerRepoLayoutViewerBlobRoute
@@ -204,7 +272,13 @@ export interface FileRoutesByFullPath {
   '/$owner/$repo/commits/$commitId': typeof OwnerRepoLayoutCommitsCommitIdRoute
   '/$owner/$repo/issues/$issueNumber': typeof OwnerRepoLayoutIssuesIssueNumberRoute
   '/$owner/$repo/issues/new': typeof OwnerRepoLayoutIssuesNewRoute
+  '/$owner/$repo/info/lfs/verify': typeof OwnerRepoInfoLfsVerifyRoute
+  '/$owner/$repo/objects/$dir/$file': typeof OwnerRepoObjectsDirFileRoute
+  '/$owner/$repo/objects/info/packs': typeof OwnerRepoObjectsInfoPacksRoute
+  '/$owner/$repo/objects/pack/$file': typeof OwnerRepoObjectsPackFileRoute
   '/$owner/$repo/issues': typeof OwnerRepoLayoutIssuesIndexRoute
+  '/$owner/$repo/info/lfs/objects/$oid': typeof OwnerRepoInfoLfsObjectsOidRoute
+  '/$owner/$repo/info/lfs/objects/batch': typeof OwnerRepoInfoLfsObjectsBatchRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -215,13 +289,17 @@ export interface FileRoutesByTo {
   '/dashboard': typeof LayoutDashboardRoute
   '/new': typeof LayoutNewRoute
   '/settings': typeof LayoutSettingsRoute
+  '/$owner/$repo/HEAD': typeof OwnerRepoHEADRoute
   '/$owner/$repo': typeof OwnerRepoLayoutIndexRoute
+  '/$owner/$repo/bundle': typeof OwnerRepoBundleRoute
   '/$owner/$repo/git-receive-pack': typeof OwnerRepoGitReceivePackRoute
   '/$owner/$repo/git-upload-pack': typeof OwnerRepoGitUploadPackRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/$owner/$repo/activity': typeof OwnerRepoLayoutActivityRoute
   '/$owner/$repo/commits': typeof OwnerRepoLayoutCommitsRoute
   '/$owner/$repo/pulls': typeof OwnerRepoLayoutPullsRoute
   '/$owner/$repo/settings': typeof OwnerRepoLayoutSettingsRoute
+  '/$owner/$repo/archive/$': typeof OwnerRepoArchiveSplatRoute
   '/$owner/$repo/info/refs': typeof OwnerRepoInfoRefsRoute
   '/$owner/$repo/blob': typeof OwnerRepoLayoutViewerBlobRoute
   '/$owner/$repo/raw': typeof OwnerRepoLayoutViewerRawRoute
@@ -229,7 +307,13 @@ export interface FileRoutesByTo {
   '/$owner/$repo/commits/$commitId': typeof OwnerRepoLayoutCommitsCommitIdRoute
   '/$owner/$repo/issues/$issueNumber': typeof OwnerRepoLayoutIssuesIssueNumberRoute
   '/$owner/$repo/issues/new': typeof OwnerRepoLayoutIssuesNewRoute
+  '/$owner/$repo/info/lfs/verify': typeof OwnerRepoInfoLfsVerifyRoute
+  '/$owner/$repo/objects/$dir/$file': typeof OwnerRepoObjectsDirFileRoute
+  '/$owner/$repo/objects/info/packs': typeof OwnerRepoObjectsInfoPacksRoute
+  '/$owner/$repo/objects/pack/$file': typeof OwnerRepoObjectsPackFileRoute
   '/$owner/$repo/issues': typeof OwnerRepoLayoutIssuesIndexRoute
+  '/$owner/$repo/info/lfs/objects/$oid': typeof OwnerRepoInfoLfsObjectsOidRoute
+  '/$owner/$repo/info/lfs/objects/batch': typeof OwnerRepoInfoLfsObjectsBatchRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -242,15 +326,19 @@ export interface FileRoutesById {
   '/_layout/dashboard': typeof LayoutDashboardRoute
   '/_layout/new': typeof LayoutNewRoute
   '/_layout/settings': typeof LayoutSettingsRoute
+  '/$owner/$repo/HEAD': typeof OwnerRepoHEADRoute
   '/$owner/$repo': typeof OwnerRepoRouteWithChildren
   '/$owner/$repo/_layout': typeof OwnerRepoLayoutRouteWithChildren
+  '/$owner/$repo/bundle': typeof OwnerRepoBundleRoute
   '/$owner/$repo/git-receive-pack': typeof OwnerRepoGitReceivePackRoute
   '/$owner/$repo/git-upload-pack': typeof OwnerRepoGitUploadPackRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
   '/$owner/$repo/_layout/_viewer': typeof OwnerRepoLayoutViewerRouteWithChildren
+  '/$owner/$repo/_layout/activity': typeof OwnerRepoLayoutActivityRoute
   '/$owner/$repo/_layout/commits': typeof OwnerRepoLayoutCommitsRoute
   '/$owner/$repo/_layout/pulls': typeof OwnerRepoLayoutPullsRoute
   '/$owner/$repo/_layout/settings': typeof OwnerRepoLayoutSettingsRoute
+  '/$owner/$repo/archive/$': typeof OwnerRepoArchiveSplatRoute
   '/$owner/$repo/info/refs': typeof OwnerRepoInfoRefsRoute
   '/$owner/$repo/_layout/': typeof OwnerRepoLayoutIndexRoute
   '/$owner/$repo/_layout/_viewer/blob': typeof OwnerRepoLayoutViewerBlobRoute
@@ -259,7 +347,13 @@ export interface FileRoutesById {
   '/$owner/$repo/_layout/commits_/$commitId': typeof OwnerRepoLayoutCommitsCommitIdRoute
   '/$owner/$repo/_layout/issues/$issueNumber': typeof OwnerRepoLayoutIssuesIssueNumberRoute
   '/$owner/$repo/_layout/issues/new': typeof OwnerRepoLayoutIssuesNewRoute
+  '/$owner/$repo/info/lfs/verify': typeof OwnerRepoInfoLfsVerifyRoute
+  '/$owner/$repo/objects/$dir/$file': typeof OwnerRepoObjectsDirFileRoute
+  '/$owner/$repo/objects/info/packs': typeof OwnerRepoObjectsInfoPacksRoute
+  '/$owner/$repo/objects/pack/$file': typeof OwnerRepoObjectsPackFileRoute
   '/$owner/$repo/_layout/issues/': typeof OwnerRepoLayoutIssuesIndexRoute
+  '/$owner/$repo/info/lfs/objects/$oid': typeof OwnerRepoInfoLfsObjectsOidRoute
+  '/$owner/$repo/info/lfs/objects/batch': typeof OwnerRepoInfoLfsObjectsBatchRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -272,13 +366,17 @@ export interface FileRouteTypes {
     | '/dashboard'
     | '/new'
     | '/settings'
+    | '/$owner/$repo/HEAD'
     | '/$owner/$repo'
+    | '/$owner/$repo/bundle'
     | '/$owner/$repo/git-receive-pack'
     | '/$owner/$repo/git-upload-pack'
     | '/api/auth/$'
+    | '/$owner/$repo/activity'
     | '/$owner/$repo/commits'
     | '/$owner/$repo/pulls'
     | '/$owner/$repo/settings'
+    | '/$owner/$repo/archive/$'
     | '/$owner/$repo/info/refs'
     | '/$owner/$repo/'
     | '/$owner/$repo/blob'
@@ -287,7 +385,13 @@ export interface FileRouteTypes {
     | '/$owner/$repo/commits/$commitId'
     | '/$owner/$repo/issues/$issueNumber'
     | '/$owner/$repo/issues/new'
+    | '/$owner/$repo/info/lfs/verify'
+    | '/$owner/$repo/objects/$dir/$file'
+    | '/$owner/$repo/objects/info/packs'
+    | '/$owner/$repo/objects/pack/$file'
     | '/$owner/$repo/issues'
+    | '/$owner/$repo/info/lfs/objects/$oid'
+    | '/$owner/$repo/info/lfs/objects/batch'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -298,13 +402,17 @@ export interface FileRouteTypes {
     | '/dashboard'
     | '/new'
     | '/settings'
+    | '/$owner/$repo/HEAD'
     | '/$owner/$repo'
+    | '/$owner/$repo/bundle'
     | '/$owner/$repo/git-receive-pack'
     | '/$owner/$repo/git-upload-pack'
     | '/api/auth/$'
+    | '/$owner/$repo/activity'
     | '/$owner/$repo/commits'
     | '/$owner/$repo/pulls'
     | '/$owner/$repo/settings'
+    | '/$owner/$repo/archive/$'
     | '/$owner/$repo/info/refs'
     | '/$owner/$repo/blob'
     | '/$owner/$repo/raw'
@@ -312,7 +420,13 @@ export interface FileRouteTypes {
     | '/$owner/$repo/commits/$commitId'
     | '/$owner/$repo/issues/$issueNumber'
     | '/$owner/$repo/issues/new'
+    | '/$owner/$repo/info/lfs/verify'
+    | '/$owner/$repo/objects/$dir/$file'
+    | '/$owner/$repo/objects/info/packs'
+    | '/$owner/$repo/objects/pack/$file'
     | '/$owner/$repo/issues'
+    | '/$owner/$repo/info/lfs/objects/$oid'
+    | '/$owner/$repo/info/lfs/objects/batch'
   id:
     | '__root__'
     | '/'
@@ -324,15 +438,19 @@ export interface FileRouteTypes {
     | '/_layout/dashboard'
     | '/_layout/new'
     | '/_layout/settings'
+    | '/$owner/$repo/HEAD'
     | '/$owner/$repo'
     | '/$owner/$repo/_layout'
+    | '/$owner/$repo/bundle'
     | '/$owner/$repo/git-receive-pack'
     | '/$owner/$repo/git-upload-pack'
     | '/api/auth/$'
     | '/$owner/$repo/_layout/_viewer'
+    | '/$owner/$repo/_layout/activity'
     | '/$owner/$repo/_layout/commits'
     | '/$owner/$repo/_layout/pulls'
     | '/$owner/$repo/_layout/settings'
+    | '/$owner/$repo/archive/$'
     | '/$owner/$repo/info/refs'
     | '/$owner/$repo/_layout/'
     | '/$owner/$repo/_layout/_viewer/blob'
@@ -341,7 +459,13 @@ export interface FileRouteTypes {
     | '/$owner/$repo/_layout/commits_/$commitId'
     | '/$owner/$repo/_layout/issues/$issueNumber'
     | '/$owner/$repo/_layout/issues/new'
+    | '/$owner/$repo/info/lfs/verify'
+    | '/$owner/$repo/objects/$dir/$file'
+    | '/$owner/$repo/objects/info/packs'
+    | '/$owner/$repo/objects/pack/$file'
     | '/$owner/$repo/_layout/issues/'
+    | '/$owner/$repo/info/lfs/objects/$oid'
+    | '/$owner/$repo/info/lfs/objects/batch'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -350,6 +474,7 @@ export interface RootRouteChildren {
   LoginRoute: typeof LoginRoute
   SignupRoute: typeof SignupRoute
   TodosRoute: typeof TodosRoute
+  OwnerRepoHEADRoute: typeof OwnerRepoHEADRoute
   OwnerRepoRoute: typeof OwnerRepoRouteWithChildren
   ApiAuthSplatRoute: typeof ApiAuthSplatRoute
 }
@@ -447,6 +572,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoGitReceivePackRouteImport
       parentRoute: typeof OwnerRepoRoute
     }
+    '/$owner/$repo/bundle': {
+      id: '/$owner/$repo/bundle'
+      path: '/bundle'
+      fullPath: '/$owner/$repo/bundle'
+      preLoaderRoute: typeof OwnerRepoBundleRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
     '/$owner/$repo/_layout': {
       id: '/$owner/$repo/_layout'
       path: '/$owner/$repo'
@@ -454,6 +586,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoLayoutRouteImport
       parentRoute: typeof OwnerRepoRoute
     }
+    '/$owner/$repo/HEAD': {
+      id: '/$owner/$repo/HEAD'
+      path: '/$owner/$repo/HEAD'
+      fullPath: '/$owner/$repo/HEAD'
+      preLoaderRoute: typeof OwnerRepoHEADRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/$owner/$repo/_layout/': {
       id: '/$owner/$repo/_layout/'
       path: '/'
@@ -468,6 +607,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoInfoRefsRouteImport
       parentRoute: typeof OwnerRepoRoute
     }
+    '/$owner/$repo/archive/$': {
+      id: '/$owner/$repo/archive/$'
+      path: '/archive/$'
+      fullPath: '/$owner/$repo/archive/$'
+      preLoaderRoute: typeof OwnerRepoArchiveSplatRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
     '/$owner/$repo/_layout/settings': {
       id: '/$owner/$repo/_layout/settings'
       path: '/settings'
@@ -489,6 +635,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoLayoutCommitsRouteImport
       parentRoute: typeof OwnerRepoLayoutRoute
     }
+    '/$owner/$repo/_layout/activity': {
+      id: '/$owner/$repo/_layout/activity'
+      path: '/activity'
+      fullPath: '/$owner/$repo/activity'
+      preLoaderRoute: typeof OwnerRepoLayoutActivityRouteImport
+      parentRoute: typeof OwnerRepoLayoutRoute
+    }
     '/$owner/$repo/_layout/_viewer': {
       id: '/$owner/$repo/_layout/_viewer'
       path: ''
@@ -503,6 +656,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoLayoutIssuesIndexRouteImport
       parentRoute: typeof OwnerRepoLayoutRoute
     }
+    '/$owner/$repo/objects/pack/$file': {
+      id: '/$owner/$repo/objects/pack/$file'
+      path: '/objects/pack/$file'
+      fullPath: '/$owner/$repo/objects/pack/$file'
+      preLoaderRoute: typeof OwnerRepoObjectsPackFileRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
+    '/$owner/$repo/objects/info/packs': {
+      id: '/$owner/$repo/objects/info/packs'
+      path: '/objects/info/packs'
+      fullPath: '/$owner/$repo/objects/info/packs'
+      preLoaderRoute: typeof OwnerRepoObjectsInfoPacksRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
+    '/$owner/$repo/objects/$dir/$file': {
+      id: '/$owner/$repo/objects/$dir/$file'
+      path: '/objects/$dir/$file'
+      fullPath: '/$owner/$repo/objects/$dir/$file'
+      preLoaderRoute: typeof OwnerRepoObjectsDirFileRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
+    '/$owner/$repo/info/lfs/verify': {
+      id: '/$owner/$repo/info/lfs/verify'
+      path: '/info/lfs/verify'
+      fullPath: '/$owner/$repo/info/lfs/verify'
+      preLoaderRoute: typeof OwnerRepoInfoLfsVerifyRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
     '/$owner/$repo/_layout/issues/new': {
       id: '/$owner/$repo/_layout/issues/new'
       path: '/issues/new'
@@ -545,6 +726,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OwnerRepoLayoutViewerBlobRouteImport
       parentRoute: typeof OwnerRepoLayoutViewerRoute
     }
+    '/$owner/$repo/info/lfs/objects/batch': {
+      id: '/$owner/$repo/info/lfs/objects/batch'
+      path: '/info/lfs/objects/batch'
+      fullPath: '/$owner/$repo/info/lfs/objects/batch'
+      preLoaderRoute: typeof OwnerRepoInfoLfsObjectsBatchRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
+    '/$owner/$repo/info/lfs/objects/$oid': {
+      id: '/$owner/$repo/info/lfs/objects/$oid'
+      path: '/info/lfs/objects/$oid'
+      fullPath: '/$owner/$repo/info/lfs/objects/$oid'
+      preLoaderRoute: typeof OwnerRepoInfoLfsObjectsOidRouteImport
+      parentRoute: typeof OwnerRepoRoute
+    }
   }
 }
 
@@ -584,6 +779,7 @@ const OwnerRepoLayoutViewerRouteWithChildren =
 
 interface OwnerRepoLayoutRouteChildren {
   OwnerRepoLayoutViewerRoute: typeof OwnerRepoLayoutViewerRouteWithChildren
+  OwnerRepoLayoutActivityRoute: typeof OwnerRepoLayoutActivityRoute
   OwnerRepoLayoutCommitsRoute: typeof OwnerRepoLayoutCommitsRoute
   OwnerRepoLayoutPullsRoute: typeof OwnerRepoLayoutPullsRoute
   OwnerRepoLayoutSettingsRoute: typeof OwnerRepoLayoutSettingsRoute
@@ -596,6 +792,7 @@ interface OwnerRepoLayoutRouteChildren {
 
 const OwnerRepoLayoutRouteChildren: OwnerRepoLayoutRouteChildren = {
   OwnerRepoLayoutViewerRoute: OwnerRepoLayoutViewerRouteWithChildren,
+  OwnerRepoLayoutActivityRoute: OwnerRepoLayoutActivityRoute,
   OwnerRepoLayoutCommitsRoute: OwnerRepoLayoutCommitsRoute,
   OwnerRepoLayoutPullsRoute: OwnerRepoLayoutPullsRoute,
   OwnerRepoLayoutSettingsRoute: OwnerRepoLayoutSettingsRoute,
@@ -612,16 +809,32 @@ const OwnerRepoLayoutRouteWithChildren = OwnerRepoLayoutRoute._addFileChildren(
 
 interface OwnerRepoRouteChildren {
   OwnerRepoLayoutRoute: typeof OwnerRepoLayoutRouteWithChildren
+  OwnerRepoBundleRoute: typeof OwnerRepoBundleRoute
   OwnerRepoGitReceivePackRoute: typeof OwnerRepoGitReceivePackRoute
   OwnerRepoGitUploadPackRoute: typeof OwnerRepoGitUploadPackRoute
+  OwnerRepoArchiveSplatRoute: typeof OwnerRepoArchiveSplatRoute
   OwnerRepoInfoRefsRoute: typeof OwnerRepoInfoRefsRoute
+  OwnerRepoInfoLfsVerifyRoute: typeof OwnerRepoInfoLfsVerifyRoute
+  OwnerRepoObjectsDirFileRoute: typeof OwnerRepoObjectsDirFileRoute
+  OwnerRepoObjectsInfoPacksRoute: typeof OwnerRepoObjectsInfoPacksRoute
+  OwnerRepoObjectsPackFileRoute: typeof OwnerRepoObjectsPackFileRoute
+  OwnerRepoInfoLfsObjectsOidRoute: typeof OwnerRepoInfoLfsObjectsOidRoute
+  OwnerRepoInfoLfsObjectsBatchRoute: typeof OwnerRepoInfoLfsObjectsBatchRoute
 }
 
 const OwnerRepoRouteChildren: OwnerRepoRouteChildren = {
   OwnerRepoLayoutRoute: OwnerRepoLayoutRouteWithChildren,
+  OwnerRepoBundleRoute: OwnerRepoBundleRoute,
   OwnerRepoGitReceivePackRoute: OwnerRepoGitReceivePackRoute,
   OwnerRepoGitUploadPackRoute: OwnerRepoGitUploadPackRoute,
+  OwnerRepoArchiveSplatRoute: OwnerRepoArchiveSplatRoute,
   OwnerRepoInfoRefsRoute: OwnerRepoInfoRefsRoute,
+  OwnerRepoInfoLfsVerifyRoute: OwnerRepoInfoLfsVerifyRoute,
+  OwnerRepoObjectsDirFileRoute: OwnerRepoObjectsDirFileRoute,
+  OwnerRepoObjectsInfoPacksRoute: OwnerRepoObjectsInfoPacksRoute,
+  OwnerRepoObjectsPackFileRoute: OwnerRepoObjectsPackFileRoute,
+  OwnerRepoInfoLfsObjectsOidRoute: OwnerRepoInfoLfsObjectsOidRoute,
+  OwnerRepoInfoLfsObjectsBatchRoute: OwnerRepoInfoLfsObjectsBatchRoute,
 }
 
 const OwnerRepoRouteWithChildren = OwnerRepoRoute._addFileChildren(
@@ -634,6 +847,7 @@ const rootRouteChildren: RootRouteChildren = {
   LoginRoute: LoginRoute,
   SignupRoute: SignupRoute,
   TodosRoute: TodosRoute,
+  OwnerRepoHEADRoute: OwnerRepoHEADRoute,
   OwnerRepoRoute: OwnerRepoRouteWithChildren,
   ApiAuthSplatRoute: ApiAuthSplatRoute,
 }
@@ -20,6 +20,7 @@ import { getBranchesQueryOptions } from "@/api/branches";
 import { getSessionOptions } from "@/api/session";
 import { NotFoundComponent } from "@/components/404-components";
 import { ErrorComponent } from "@/components/error-component";
+import { RepoForks } from "@/components/repo-forks";
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -93,7 +94,10 @@ function RouteComponent() {
     if (relativePath.startsWith("/tree") || relativePath.startsWith("/blob")) {
       return "code";
     }
-    if (relativePath.startsWith("/commits")) {
+    if (
+      relativePath.startsWith("/commits") ||
+      relativePath.startsWith("/activity")
+    ) {
       return "commits";
     }
     if (relativePath.startsWith("/issues")) {
@@ -153,8 +157,30 @@ function RouteComponent() {
                   </BreadcrumbItem>
                 </BreadcrumbList>
               </Breadcrumb>
+              {repository.forkedFrom && (
+                <span className="text-muted-foreground text-xs">
+                  forked from{" "}
+                  <Link
+                    className="text-primary hover:underline"
+                    params={{
+                      owner: repository.forkedFrom.owner,
+                      repo: repository.forkedFrom.name,
+                    }}
+                    to="/$owner/$repo"
+                  >
+                    {repository.forkedFrom.owner}/{repository.forkedFrom.name}
+                  </Link>
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <RepoForks
+                canFork={!!session && !isOwner}
+                owner={owner}
+                repo={repo}
+              />
+              <UserProfileButton />
             </div>
-            <UserProfileButton />
           </div>
           <div>
             <Tabs
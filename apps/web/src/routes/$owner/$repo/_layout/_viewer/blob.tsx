@@ -6,7 +6,7 @@ import ReactMarkdown from "react-markdown";
 import rehypeRaw from "rehype-raw";
 import remarkGfm from "remark-gfm";
 import { z } from "zod";
-import { getBlobQueryOptions } from "@/api/tree";
+import { getBlobQueryOptions, LFS_INLINE_LIMIT } from "@/api/tree";
 import { NotFoundComponent } from "@/components/404-components";
 import { components } from "@/components/md-components";
 import { Button } from "@/components/ui/button";
@@ -148,8 +148,13 @@ function RouteComponent() {
           <div className="text-sm">
             {filename}{" "}
             <span className="text-muted-foreground text-xs">
-              ({formatBytes(blob.size, { decimals: 2 })})
+              ({formatBytes(blob.lfs?.size ?? blob.size, { decimals: 2 })})
             </span>
+            {blob.lfs && (
+              <span className="ml-2 rounded-full border px-2 py-0.5 text-muted-foreground text-xs">
+                Stored with Git LFS
+              </span>
+            )}
           </div>
 
           <ButtonGroup>
@@ -202,6 +207,7 @@ type BlobContentProps = {
     size: number;
     isBinary: boolean;
     highlightedHtml?: string | null;
+    lfs?: { oid: string; size: number; resolved: boolean } | null;
   };
   filename: string;
   content: string;
@@ -213,6 +219,25 @@ function BlobContent({ blob, filename, content }: BlobContentProps) {
     .toLowerCase()
     .match(/\.(png|jpe?g|gif|svg|webp|bmp|ico|avif)$/);
 
+  // Handle LFS objects that can't be shown, the pointer is not useful to display
+  if (blob.lfs && !blob.lfs.resolved) {
+    const isTooLarge = blob.lfs.size > LFS_INLINE_LIMIT;
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <FileIcon className="mb-4 size-12 text-muted-foreground" />
+        <h3 className="mb-2 font-semibold text-lg">Stored with Git LFS</h3>
+        <p className="text-muted-foreground text-sm">
+          {isTooLarge
+            ? "This file is too large to display. Use the raw view to download it."
+            : "The content of this file has not been uploaded to Git LFS."}
+        </p>
+        <p className="mt-2 text-muted-foreground text-xs">
+          Size: {formatBytes(blob.lfs.size, { decimals: 2 })}
+        </p>
+      </div>
+    );
+  }
+
   // Handle binary image files
   if (blob.isBinary && isImage) {
     return (
@@ -1,6 +1,7 @@
 import { createFileRoute } from "@tanstack/react-router";
 import * as z from "zod";
 import { getBlobFn } from "@/api/tree";
+import { getLfsStorage } from "@/lib/lfs-storage";
 import { getMimeType } from "@/lib/utils";
 
 const searchSchema = z.object({
@@ -38,9 +39,6 @@ export const Route = createFileRoute("/$owner/$repo/_layout/_viewer/raw")({
             return new Response("File not found", { status: 404 });
           }
 
-          // Decode base64 content
-          const content = Buffer.from(blob.content, "base64");
-
           // Get filename for MIME type detection
           const pathParts = filepath.split("/");
           const filename = pathParts.at(-1) || filepath;
@@ -48,6 +46,27 @@ export const Route = createFileRoute("/$owner/$repo/_layout/_viewer/raw")({
           // Determine content type
           const contentType = getMimeType(filename);
 
+          // LFS objects too large for the blob viewer are streamed from storage
+          if (blob.lfs && !blob.lfs.resolved) {
+            const object = await getLfsStorage(`${owner}/${repo}`).get(
+              blob.lfs.oid
+            );
+            if (object) {
+              return new Response(object.body, {
+                status: 200,
+                headers: {
+                  "Content-Type": contentType,
+                  "Content-Length": object.size.toString(),
+                  "Content-Disposition": `inline; filename="${filename}"`,
+                  "X-Content-Type-Options": "nosniff",
+                },
+              });
+            }
+          }
+
+          // Decode base64 content
+          const content = Buffer.from(blob.content, "base64");
+
           // Return raw file content with appropriate headers
           return new Response(content, {
             status: 200,
@@ -0,0 +1,271 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@gitvex/backend/convex/_generated/api";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  useSuspenseQuery,
+} from "@tanstack/react-query";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { formatDistanceToNow } from "date-fns";
+import {
+  GitBranchIcon,
+  GitBranchPlusIcon,
+  HistoryIcon,
+  RotateCcwIcon,
+  TrashIcon,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as z from "zod";
+import { getBranchesQueryOptions } from "@/api/branches";
+import { getReflogQueryOptions, restoreRefFn } from "@/api/reflog";
+import { getSessionOptions } from "@/api/session";
+import { NotFoundComponent } from "@/components/404-components";
+import { BranchSelector } from "@/components/branch-selector";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ReflogEntry } from "@/do/reflog";
+import { handleAndThrowConvexError } from "@/lib/convex";
+
+const searchSchema = z.object({
+  branch: z.string().optional(),
+});
+
+export const Route = createFileRoute("/$owner/$repo/_layout/activity")({
+  component: RouteComponent,
+  notFoundComponent: NotFoundComponent,
+  validateSearch: searchSchema,
+  loaderDeps: ({ search }) => ({
+    branch: search.branch,
+  }),
+  loader: async ({ params, context: { queryClient }, deps }) => {
+    await queryClient
+      .ensureQueryData(
+        getReflogQueryOptions({
+          owner: params.owner,
+          repo: params.repo,
+          branch: deps.branch,
+        })
+      )
+      .catch(handleAndThrowConvexError);
+  },
+});
+
+function shortRefName(ref: string) {
+  return ref.replace(/^refs\/(heads|tags)\//, "");
+}
+
+function RouteComponent() {
+  const { owner, repo } = Route.useParams();
+  const { branch } = Route.useSearch();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const reflogQueryOptions = getReflogQueryOptions({ owner, repo, branch });
+  const { data: entries } = useSuspenseQuery(reflogQueryOptions);
+
+  const { data: repository } = useQuery(
+    convexQuery(api.repositories.getByOwnerAndName, { owner, name: repo })
+  );
+  const { data: session } = useQuery(getSessionOptions);
+  const isOwner = !!session && session.user.id === repository?.ownerId;
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entry: ReflogEntry) =>
+      await restoreRefFn({ data: { owner, repo, entryId: entry.id } }),
+    onSuccess: async (result) => {
+      toast.success(`Restored ${shortRefName(result.ref)}`);
+      await queryClient.invalidateQueries({
+        queryKey: ["reflog", owner, repo],
+      });
+      await queryClient.invalidateQueries(
+        getBranchesQueryOptions({ owner, repo })
+      );
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to restore");
+    },
+  });
+
+  return (
+    <div className="py-6">
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div>
+          <h1 className="font-semibold text-2xl">Activity</h1>
+          <p className="text-muted-foreground text-sm">
+            {branch
+              ? `Changes to ${branch}, including deletions`
+              : "Changes to every branch and tag, including deletions"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {branch && (
+            <Button asChild size="sm" variant="ghost">
+              <Link search={{}} to=".">
+                All branches
+              </Link>
+            </Button>
+          )}
+          <BranchSelector
+            onBranchChange={(newBranch) => {
+              navigate({
+                to: ".",
+                search: { branch: newBranch },
+              });
+            }}
+            owner={owner}
+            repo={repo}
+            selectedBranch={branch}
+          />
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-12 text-center">
+          <HistoryIcon className="mb-4 size-12 text-muted-foreground" />
+          <h3 className="mb-2 font-semibold text-lg">No activity yet</h3>
+          <p className="text-muted-foreground text-sm">
+            Pushes, deletions and restores will show up here.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y overflow-hidden rounded-lg border">
+          {entries.map((entry) => (
+            <ReflogEntryItem
+              canRestore={isOwner}
+              entry={entry}
+              isRestoring={
+                restoreMutation.isPending &&
+                restoreMutation.variables?.id === entry.id
+              }
+              key={entry.id}
+              onRestore={() => restoreMutation.mutate(entry)}
+              owner={owner}
+              repo={repo}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Abbreviated object id, linking to the commit. Tags can point to tag
+ * objects, which have no page.
+ */
+function OidLink({
+  owner,
+  repo,
+  oid,
+  isCommit,
+}: {
+  owner: string;
+  repo: string;
+  oid: string;
+  isCommit: boolean;
+}) {
+  if (!isCommit) {
+    return <code className="text-xs">{oid.slice(0, 7)}</code>;
+  }
+  return (
+    <Link
+      className="font-mono text-primary text-xs hover:underline"
+      params={{ owner, repo, commitId: oid }}
+      to="/$owner/$repo/commits/$commitId"
+    >
+      {oid.slice(0, 7)}
+    </Link>
+  );
+}
+
+function ReflogEntryItem({
+  owner,
+  repo,
+  entry,
+  canRestore,
+  isRestoring,
+  onRestore,
+}: {
+  owner: string;
+  repo: string;
+  entry: ReflogEntry;
+  canRestore: boolean;
+  isRestoring: boolean;
+  onRestore: () => void;
+}) {
+  const isCreate = /^0+$/.test(entry.oldOid);
+  const isDelete = /^0+$/.test(entry.newOid);
+  const name = shortRefName(entry.ref);
+  const isBranch = entry.ref.startsWith("refs/heads/");
+
+  let icon = <GitBranchIcon className="size-4 text-muted-foreground" />;
+  let action = "updated";
+  if (isCreate) {
+    icon = <GitBranchPlusIcon className="size-4 text-green-600" />;
+    action = "created";
+  } else if (isDelete) {
+    icon = <TrashIcon className="size-4 text-destructive" />;
+    action = "deleted";
+  }
+
+  return (
+    <li className="flex items-start gap-3 p-4">
+      <div className="mt-1 shrink-0">{icon}</div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex flex-wrap items-center gap-1 text-sm">
+          <span className="font-medium">{entry.pusher ?? "Someone"}</span>
+          <span>{action}</span>
+          {isBranch ? (
+            <Link
+              className="font-mono hover:underline"
+              search={{ branch: name }}
+              to="."
+            >
+              {name}
+            </Link>
+          ) : (
+            <span className="font-mono">{name}</span>
+          )}
+          <Badge variant="outline">{entry.source}</Badge>
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-muted-foreground text-xs">
+          {!isCreate && (
+            <OidLink
+              isCommit={isBranch}
+              oid={entry.oldOid}
+              owner={owner}
+              repo={repo}
+            />
+          )}
+          {!(isCreate || isDelete) && <span>→</span>}
+          {!isDelete && (
+            <OidLink
+              isCommit={isBranch}
+              oid={entry.newOid}
+              owner={owner}
+              repo={repo}
+            />
+          )}
+          <span>
+            {formatDistanceToNow(new Date(entry.createdAt), {
+              addSuffix: true,
+            })}
+          </span>
+        </div>
+      </div>
+      {canRestore && !isCreate && (
+        <Button
+          loading={isRestoring}
+          onClick={onRestore}
+          size="sm"
+          title={`Set ${name} back to ${entry.oldOid.slice(0, 7)}`}
+          variant="outline"
+        >
+          <RotateCcwIcon className="size-4" />
+          Restore
+        </Button>
+      )}
+    </li>
+  );
+}
@@ -1,7 +1,7 @@
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { format, formatDistanceToNow } from "date-fns";
-import { CheckIcon, CopyIcon, GitCommitIcon } from "lucide-react";
+import { CheckIcon, CopyIcon, GitCommitIcon, HistoryIcon } from "lucide-react";
 import { type MouseEventHandler, useState } from "react";
 import * as z from "zod";
 import { getCommitsQueryOptions } from "@/api/commits";
@@ -167,17 +167,29 @@ function RouteComponent() {
       {/* Branch Selector */}
       <div className="mb-6 flex items-center justify-between">
         <h1 className="font-semibold text-2xl">Commits</h1>
-        <BranchSelector
-          onBranchChange={(newBranch) => {
-            navigate({
-              to: ".",
-              search: { ref: newBranch },
-            });
-          }}
-          owner={owner}
-          repo={repo}
-          selectedBranch={ref}
-        />
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline">
+            <Link
+              params={{ owner, repo }}
+              search={{ branch: ref }}
+              to="/$owner/$repo/activity"
+            >
+              <HistoryIcon className="size-4" />
+              Activity
+            </Link>
+          </Button>
+          <BranchSelector
+            onBranchChange={(newBranch) => {
+              navigate({
+                to: ".",
+                search: { ref: newBranch },
+              });
+            }}
+            owner={owner}
+            repo={repo}
+            selectedBranch={ref}
+          />
+        </div>
       </div>
 
       <div className="space-y-8">
@@ -1,6 +1,6 @@
 import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@gitvex/backend/convex/_generated/api";
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -8,8 +8,10 @@ import {
   CheckIcon,
   CodeIcon,
   CopyIcon,
+  DownloadIcon,
   FileIcon,
   FolderIcon,
+  RefreshCwIcon,
   TerminalIcon,
 } from "lucide-react";
 import { useState } from "react";
@@ -18,6 +20,8 @@ import rehypeRaw from "rehype-raw";
 import remarkGfm from "remark-gfm";
 import { toast } from "sonner";
 import { z } from "zod";
+import { getBranchesQueryOptions } from "@/api/branches";
+import { getPullMirrorQueryOptions } from "@/api/mirrors";
 import { getBlobQueryOptions, getTreeQueryOptions } from "@/api/tree";
 import { NotFoundComponent } from "@/components/404-components";
 import { BranchSelector } from "@/components/branch-selector";
@@ -108,11 +112,14 @@ function RouteComponent() {
   // If tree is empty, show instructions
   if (tree.length === 0) {
     return (
-      <EmptyRepositoryInstructions
-        isPrivate={repository.isPrivate}
-        owner={owner}
-        repo={repo}
-      />
+      <div className="space-y-6">
+        <PullMirrorBanner owner={owner} repo={repo} />
+        <EmptyRepositoryInstructions
+          isPrivate={repository.isPrivate}
+          owner={owner}
+          repo={repo}
+        />
+      </div>
     );
   }
 
@@ -135,6 +142,7 @@ function RouteComponent() {
 
   return (
     <div className="space-y-6">
+      <PullMirrorBanner owner={owner} repo={repo} />
       {repository.description && (
         <p className="text-muted-foreground">{repository.description}</p>
       )}
@@ -150,7 +158,7 @@ function RouteComponent() {
           repo={repo}
           selectedBranch={ref}
         />
-        <CloneButton repoUrl={repoUrl} />
+        <CloneButton gitRef={ref} owner={owner} repo={repo} repoUrl={repoUrl} />
       </div>
       <div className="divide-y overflow-hidden rounded-lg border">
         {sortedTree.map((entry) => {
@@ -211,8 +219,26 @@ function RouteComponent() {
   );
 }
 
-function CloneButton({ repoUrl }: { repoUrl: string }) {
+function CloneButton({
+  owner,
+  repo,
+  gitRef,
+  repoUrl,
+}: {
+  owner: string;
+  repo: string;
+  gitRef?: string;
+  repoUrl: string;
+}) {
   const [copied, setCopied] = useState(false);
+  const { data: branches } = useQuery(getBranchesQueryOptions({ owner, repo }));
+
+  // Archives are named after the ref, so prefer the branch name over HEAD
+  const archiveRef = gitRef ?? branches?.currentBranch ?? "HEAD";
+  const archiveUrl = `/${owner}/${repo}/archive/${archiveRef
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/")}.zip`;
 
   const copyToClipboard = async () => {
     await navigator.clipboard.writeText(repoUrl);
@@ -253,6 +279,12 @@ function CloneButton({ repoUrl }: { repoUrl: string }) {
               </Button>
             </div>
           </div>
+          <Button asChild className="w-full" variant="outline">
+            <a download href={archiveUrl}>
+              <DownloadIcon className="size-4" />
+              Download ZIP
+            </a>
+          </Button>
         </div>
       </PopoverContent>
     </Popover>
@@ -421,3 +453,31 @@ function formatDate(timestamp: number): string {
   const date = new Date(timestamp * 1000);
   return formatDistanceToNow(date, { addSuffix: true });
 }
+
+function PullMirrorBanner({ owner, repo }: { owner: string; repo: string }) {
+  const { data: mirror } = useQuery(getPullMirrorQueryOptions({ owner, repo }));
+  if (!mirror) return null;
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border bg-muted/50 px-4 py-3 text-sm">
+      <RefreshCwIcon className="size-4 shrink-0 text-muted-foreground" />
+      <p className="min-w-0">
+        Mirrored from{" "}
+        <a
+          className="break-all font-mono text-primary hover:underline"
+          href={mirror.url}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          {mirror.url}
+        </a>
+        {mirror.lastSyncAt !== null && (
+          <span className="text-muted-foreground">
+            , synced{" "}
+            {formatDistanceToNow(mirror.lastSyncAt, { addSuffix: true })}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+}
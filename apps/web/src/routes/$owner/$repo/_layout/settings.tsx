@@ -2,20 +2,45 @@ import { convexQuery } from "@convex-dev/react-query";
 import { api } from "@gitvex/backend/convex/_generated/api";
 import type { Id } from "@gitvex/backend/convex/_generated/dataModel";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useSuspenseQuery } from "@tanstack/react-query";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  useSuspenseQuery,
+} from "@tanstack/react-query";
 import { createFileRoute, Navigate } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
-import { AlertCircleIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertCircleIcon,
+  DownloadIcon,
+  TrashIcon,
+  UploadIcon,
+} from "lucide-react";
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
+import { getBundleUrl, uploadBundle } from "@/api/bundle";
+import {
+  addPushMirrorFn,
+  getPullMirrorQueryOptions,
+  getPushMirrorsQueryOptions,
+  removePullMirrorFn,
+  removePushMirrorFn,
+  setPullMirrorFn,
+  syncPullMirrorFn,
+} from "@/api/mirrors";
 import { getSessionOptions } from "@/api/session";
 import { NotFoundComponent } from "@/components/404-components";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -58,6 +83,48 @@ const updateRepoServerFn = createServerFn({ method: "POST" })
 
 type FormValues = z.infer<typeof formSchema>;
 
+const ruleFormSchema = z.object({
+  pattern: z.string().trim().min(1, "Branch pattern is required"),
+  allowDeletion: z.boolean(),
+  allowForcePush: z.boolean(),
+  requireLinearHistory: z.boolean(),
+  requireSignedPush: z.boolean(),
+});
+
+const createRuleServerFn = createServerFn({ method: "POST" })
+  .inputValidator(
+    z.object({
+      repoId: z.string(),
+      pattern: z.string(),
+      allowDeletion: z.boolean(),
+      allowForcePush: z.boolean(),
+      requireLinearHistory: z.boolean(),
+      requireSignedPush: z.boolean(),
+    })
+  )
+  .handler(async ({ data }) => {
+    const resp = await fetchMutation(api.branchProtection.create, {
+      repositoryId: data.repoId as Id<"repositories">,
+      pattern: data.pattern,
+      allowDeletion: data.allowDeletion,
+      allowForcePush: data.allowForcePush,
+      requireLinearHistory: data.requireLinearHistory,
+      requireSignedPush: data.requireSignedPush,
+    }).catch(handleAndThrowConvexError);
+    return resp;
+  });
+
+const deleteRuleServerFn = createServerFn({ method: "POST" })
+  .inputValidator(z.object({ ruleId: z.string() }))
+  .handler(async ({ data }) => {
+    const resp = await fetchMutation(api.branchProtection.remove, {
+      id: data.ruleId as Id<"branchProtectionRules">,
+    }).catch(handleAndThrowConvexError);
+    return resp;
+  });
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
 function RouteComponent() {
   const { owner, repo } = Route.useParams();
 
@@ -220,8 +287,674 @@ function RouteComponent() {
               </div>
             </form>
           </Form>
+
+          <Separator />
+
+          <BranchProtectionSettings
+            owner={owner}
+            repo={repo}
+            repoId={repository._id}
+          />
+
+          <Separator />
+
+          <BundleSettings owner={owner} repo={repo} />
+
+          <Separator />
+
+          <PushMirrorSettings owner={owner} repo={repo} />
+
+          <Separator />
+
+          <PullMirrorSettings owner={owner} repo={repo} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BundleSettings({ owner, repo }: { owner: string; repo: string }) {
+  const [refs, setRefs] = useState("");
+  const [legacyFormat, setLegacyFormat] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+
+  const downloadUrl = getBundleUrl({
+    owner,
+    repo,
+    refs: refs
+      .split(",")
+      .map((ref) => ref.trim())
+      .filter(Boolean),
+    version: legacyFormat ? 2 : 3,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (bundle: File) =>
+      await uploadBundle({ owner, repo, file: bundle }),
+    onSuccess: (results) => {
+      setFile(null);
+      const failed = results.filter((result) => !result.ok);
+      if (failed.length > 0) {
+        toast.error(
+          `Rejected ${failed.map((result) => `${result.ref} (${result.error})`).join(", ")}`
+        );
+      }
+      toast.success(
+        `Imported bundle, updated ${results.length - failed.length} refs`
+      );
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to import");
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg">Bundles</h2>
+        <p className="text-muted-foreground text-sm">
+          A bundle is a single file with refs and their history, for offline
+          backups. Clone one with git clone repo.bundle.
+        </p>
+      </div>
+
+      <div className="space-y-4 rounded-lg border p-4">
+        <div className="space-y-2">
+          <Label htmlFor="bundle-refs">Refs to include</Label>
+          <Input
+            id="bundle-refs"
+            onChange={(e) => setRefs(e.target.value)}
+            placeholder="Comma-separated refs like main or v1.0, empty for all"
+            value={refs}
+          />
+        </div>
+        <Label className="flex items-center gap-2">
+          <Checkbox
+            checked={legacyFormat}
+            onCheckedChange={(checked) => setLegacyFormat(checked === true)}
+          />
+          Use the v2 format, for Git older than 2.36
+        </Label>
+        <div className="flex justify-end">
+          <Button asChild variant="outline">
+            <a download href={downloadUrl}>
+              <DownloadIcon className="h-4 w-4" />
+              Download bundle
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4 rounded-lg border p-4">
+        <div className="space-y-2">
+          <Label htmlFor="bundle-file">Import a bundle</Label>
+          <Input
+            accept=".bundle"
+            disabled={importMutation.isPending}
+            id="bundle-file"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            type="file"
+          />
+          <p className="text-muted-foreground text-sm">
+            Refs in the bundle are created or updated. Branch protection rules
+            apply, like for a push.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            disabled={!file || importMutation.isPending}
+            loading={importMutation.isPending}
+            onClick={() => file && importMutation.mutate(file)}
+          >
+            <UploadIcon className="h-4 w-4" />
+            Import
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PushMirrorSettings({ owner, repo }: { owner: string; repo: string }) {
+  const queryClient = useQueryClient();
+  const mirrorsQueryOptions = getPushMirrorsQueryOptions({ owner, repo });
+  const { data: mirrors = [] } = useQuery({
+    ...mirrorsQueryOptions,
+    // Syncs run in the background, so their status changes on its own
+    refetchInterval: 10_000,
+  });
+  const [remote, setRemote] = useState({ url: "", username: "", password: "" });
+
+  const addMirrorMutation = useMutation({
+    mutationFn: async () =>
+      await addPushMirrorFn({
+        data: {
+          owner,
+          repo,
+          url: remote.url.trim(),
+          username: remote.username || undefined,
+          password: remote.password || undefined,
+        },
+      }),
+    onSuccess: async () => {
+      setRemote({ url: "", username: "", password: "" });
+      toast.success("Push mirror added");
+      await queryClient.invalidateQueries(mirrorsQueryOptions);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to add mirror");
+    },
+  });
+
+  const removeMirrorMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await removePushMirrorFn({ data: { owner, repo, id } }),
+    onSuccess: async () => {
+      toast.success("Push mirror removed");
+      await queryClient.invalidateQueries(mirrorsQueryOptions);
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to remove mirror"
+      );
+    },
+  });
+
+  const isSubmitting = addMirrorMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg">Push mirrors</h2>
+        <p className="text-muted-foreground text-sm">
+          Branches and tags are pushed to mirrors after every change. Refs that
+          only exist on a mirror are deleted.
+        </p>
+      </div>
+
+      {mirrors.length === 0 ? (
+        <p className="text-muted-foreground text-sm">No push mirrors.</p>
+      ) : (
+        <ul className="space-y-2">
+          {mirrors.map((mirror) => (
+            <li
+              className="flex items-center justify-between gap-2 rounded-lg border p-3"
+              key={mirror.id}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <code className="truncate font-mono text-sm">
+                    {mirror.url}
+                  </code>
+                  {mirror.lastError ? (
+                    <Badge variant="destructive">Failing</Badge>
+                  ) : (
+                    mirror.lastSyncAt !== null && (
+                      <Badge variant="secondary">Synced</Badge>
+                    )
+                  )}
+                  {mirror.nextSyncAt !== null && !mirror.lastError && (
+                    <Badge variant="outline">Pending</Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {mirror.lastSyncAt === null
+                    ? "Not synced yet"
+                    : `Last sync ${formatDistanceToNow(mirror.lastSyncAt, { addSuffix: true })}`}
+                  {mirror.lastError &&
+                    mirror.nextSyncAt !== null &&
+                    `, retrying ${formatDistanceToNow(mirror.nextSyncAt, { addSuffix: true })}`}
+                </p>
+                {mirror.lastError && (
+                  <p className="break-all text-destructive text-xs">
+                    {mirror.lastError}
+                  </p>
+                )}
+              </div>
+              <Button
+                aria-label={`Remove mirror ${mirror.url}`}
+                disabled={removeMirrorMutation.isPending}
+                onClick={() => removeMirrorMutation.mutate(mirror.id)}
+                size="icon"
+                variant="ghost"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="space-y-4 rounded-lg border p-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addMirrorMutation.mutate();
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="mirror-url">Remote URL</Label>
+          <Input
+            disabled={isSubmitting}
+            id="mirror-url"
+            onChange={(e) => setRemote({ ...remote, url: e.target.value })}
+            placeholder="https://example.com/owner/repo.git"
+            required
+            type="url"
+            value={remote.url}
+          />
         </div>
+        <div className="flex gap-2">
+          <Input
+            aria-label="Username"
+            autoComplete="off"
+            disabled={isSubmitting}
+            onChange={(e) => setRemote({ ...remote, username: e.target.value })}
+            placeholder="Username"
+            value={remote.username}
+          />
+          <Input
+            aria-label="Password or token"
+            autoComplete="new-password"
+            disabled={isSubmitting}
+            onChange={(e) => setRemote({ ...remote, password: e.target.value })}
+            placeholder="Password or token"
+            type="password"
+            value={remote.password}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            disabled={isSubmitting || !remote.url}
+            loading={isSubmitting}
+            type="submit"
+          >
+            Add mirror
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function PullMirrorSettings({ owner, repo }: { owner: string; repo: string }) {
+  const queryClient = useQueryClient();
+  const mirrorQueryOptions = getPullMirrorQueryOptions({ owner, repo });
+  const { data: mirror } = useQuery(mirrorQueryOptions);
+  const [remote, setRemote] = useState({ url: "", username: "", password: "" });
+
+  const onMirrorChanged = async () => {
+    await queryClient.invalidateQueries(mirrorQueryOptions);
+    // Mirroring replaces the refs
+    await queryClient.invalidateQueries({
+      queryKey: ["branches", owner, repo],
+    });
+  };
+
+  const setMirrorMutation = useMutation({
+    mutationFn: async () =>
+      await setPullMirrorFn({
+        data: {
+          owner,
+          repo,
+          url: remote.url.trim(),
+          username: remote.username || undefined,
+          password: remote.password || undefined,
+        },
+      }),
+    onSuccess: async (status) => {
+      setRemote({ url: "", username: "", password: "" });
+      if (status?.lastError) {
+        toast.error(
+          `Mirroring enabled, but the sync failed: ${status.lastError}`
+        );
+      } else {
+        toast.success("Repository is now a mirror");
+      }
+      await onMirrorChanged();
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to enable mirroring"
+      );
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => await syncPullMirrorFn({ data: { owner, repo } }),
+    onSuccess: async (status) => {
+      if (status?.lastError) {
+        toast.error(`Sync failed: ${status.lastError}`);
+      } else {
+        toast.success("Mirror synced");
+      }
+      await onMirrorChanged();
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to sync");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => await removePullMirrorFn({ data: { owner, repo } }),
+    onSuccess: async () => {
+      toast.success("Mirroring stopped, pushes are accepted again");
+      await onMirrorChanged();
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to stop mirroring"
+      );
+    },
+  });
+
+  const isSubmitting = setMirrorMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg">Pull mirroring</h2>
+        <p className="text-muted-foreground text-sm">
+          A mirror fetches every branch and tag from its upstream every 30
+          minutes, replacing local changes. Pushes are rejected while mirroring
+          is on.
+        </p>
       </div>
+
+      {mirror ? (
+        <div className="flex items-center justify-between gap-2 rounded-lg border p-3">
+          <div className="min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="truncate font-mono text-sm">{mirror.url}</code>
+              {mirror.lastError && <Badge variant="destructive">Failing</Badge>}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {mirror.lastSyncAt === null
+                ? "Not synced yet"
+                : `Last sync ${formatDistanceToNow(mirror.lastSyncAt, { addSuffix: true })}`}
+            </p>
+            {mirror.lastError && (
+              <p className="break-all text-destructive text-xs">
+                {mirror.lastError}
+              </p>
+            )}
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button
+              disabled={syncMutation.isPending || removeMutation.isPending}
+              loading={syncMutation.isPending}
+              onClick={() => syncMutation.mutate()}
+              variant="outline"
+            >
+              Sync now
+            </Button>
+            <Button
+              disabled={syncMutation.isPending || removeMutation.isPending}
+              loading={removeMutation.isPending}
+              onClick={() => removeMutation.mutate()}
+              variant="destructive"
+            >
+              Stop mirroring
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <form
+          className="space-y-4 rounded-lg border p-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setMirrorMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="upstream-url">Upstream URL</Label>
+            <Input
+              disabled={isSubmitting}
+              id="upstream-url"
+              onChange={(e) => setRemote({ ...remote, url: e.target.value })}
+              placeholder="https://example.com/owner/repo.git"
+              required
+              type="url"
+              value={remote.url}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Input
+              aria-label="Username"
+              autoComplete="off"
+              disabled={isSubmitting}
+              onChange={(e) =>
+                setRemote({ ...remote, username: e.target.value })
+              }
+              placeholder="Username (optional)"
+              value={remote.username}
+            />
+            <Input
+              aria-label="Password or token"
+              autoComplete="new-password"
+              disabled={isSubmitting}
+              onChange={(e) =>
+                setRemote({ ...remote, password: e.target.value })
+              }
+              placeholder="Password or token (optional)"
+              type="password"
+              value={remote.password}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              disabled={isSubmitting || !remote.url}
+              loading={isSubmitting}
+              type="submit"
+            >
+              Start mirroring
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+const RULE_OPTIONS = [
+  {
+    name: "allowForcePush",
+    label: "Allow force pushes",
+    description: "Non-fast-forward pushes are rejected unless this is checked",
+  },
+  {
+    name: "allowDeletion",
+    label: "Allow deletion",
+    description: "Let matching branches be deleted with a push",
+  },
+  {
+    name: "requireLinearHistory",
+    label: "Require linear history",
+    description: "Reject pushes that add merge commits",
+  },
+  {
+    name: "requireSignedPush",
+    label: "Require signed pushes",
+    description:
+      "Only accept pushes signed (git push --signed) with one of the pusher's signing keys",
+  },
+] as const;
+
+function BranchProtectionSettings({
+  owner,
+  repo,
+  repoId,
+}: {
+  owner: string;
+  repo: string;
+  repoId: Id<"repositories">;
+}) {
+  const { data: rules } = useSuspenseQuery(
+    convexQuery(api.branchProtection.getByRepo, { owner, name: repo })
+  );
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: {
+      pattern: "",
+      allowDeletion: false,
+      allowForcePush: false,
+      requireLinearHistory: false,
+      requireSignedPush: false,
+    },
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (values: RuleFormValues) =>
+      await createRuleServerFn({
+        data: {
+          repoId,
+          pattern: values.pattern,
+          allowDeletion: values.allowDeletion,
+          allowForcePush: values.allowForcePush,
+          requireLinearHistory: values.requireLinearHistory,
+          requireSignedPush: values.requireSignedPush,
+        },
+      }),
+    onSuccess: () => {
+      form.reset();
+      toast.success("Branch protection rule added");
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to add branch protection"
+      );
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) =>
+      await deleteRuleServerFn({ data: { ruleId } }),
+    onSuccess: () => {
+      toast.success("Branch protection rule removed");
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : "Failed to remove branch protection"
+      );
+    },
+  });
+
+  const isSubmitting = createRuleMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="font-semibold text-lg">Branch protection</h2>
+        <p className="text-muted-foreground text-sm">
+          Rules are enforced when pushing. Patterns are globs like main or
+          release/*; an exact branch name wins over a glob.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No branches are protected.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map((rule) => (
+            <li
+              className="flex items-center justify-between gap-2 rounded-lg border p-3"
+              key={rule._id}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <code className="font-mono text-sm">{rule.pattern}</code>
+                {rule.allowForcePush && (
+                  <Badge variant="secondary">Force pushes allowed</Badge>
+                )}
+                {rule.allowDeletion && (
+                  <Badge variant="secondary">Deletion allowed</Badge>
+                )}
+                {rule.requireLinearHistory && (
+                  <Badge variant="secondary">Linear history</Badge>
+                )}
+                {rule.requireSignedPush && (
+                  <Badge variant="secondary">Signed pushes</Badge>
+                )}
+              </div>
+              <Button
+                aria-label={`Delete rule ${rule.pattern}`}
+                disabled={deleteRuleMutation.isPending}
+                onClick={() => deleteRuleMutation.mutate(rule._id)}
+                size="icon"
+                variant="ghost"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Form {...form}>
+        <form
+          className="space-y-4 rounded-lg border p-4"
+          onSubmit={form.handleSubmit((values) =>
+            createRuleMutation.mutate(values)
+          )}
+        >
+          <FormField
+            control={form.control}
+            name="pattern"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Branch name pattern</FormLabel>
+                <FormControl>
+                  <Input
+                    disabled={isSubmitting}
+                    placeholder="main"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {RULE_OPTIONS.map((option) => (
+            <FormField
+              control={form.control}
+              key={option.name}
+              name={option.name}
+              render={({ field }) => (
+                <FormItem className="flex items-start gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked === true)
+                      }
+                    />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel>{option.label}</FormLabel>
+                    <FormDescription>{option.description}</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          ))}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={isSubmitting}
+              loading={isSubmitting}
+              type="submit"
+            >
+              Add rule
+            </Button>
+          </div>
+        </form>
+      </Form>
     </div>
   );
 }
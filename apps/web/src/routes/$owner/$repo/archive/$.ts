@@ -0,0 +1,74 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { getRepoDOStub } from "@/do/repo";
+import type { ArchiveFormat } from "@/git/archive";
+import { verifyAuth, verifySessionAccess } from "@/lib/git-auth";
+
+const EXTENSIONS: ArchiveFormat[] = ["zip", "tar.gz"];
+
+/**
+ * Download the source of a ref as `archive/<ref>.zip` or
+ * `archive/<ref>.tar.gz`, optionally only a directory of it (`?path=`).
+ * Signed-in users and personal access tokens are both accepted.
+ */
+export const Route = createFileRoute("/$owner/$repo/archive/$")({
+  server: {
+    handlers: {
+      GET: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const splat = params._splat ?? "";
+        const format = EXTENSIONS.find((extension) =>
+          splat.endsWith(`.${extension}`)
+        );
+        const ref = format ? splat.slice(0, -(format.length + 1)) : "";
+        if (!(format && ref)) {
+          return new Response("Not Found", { status: 404 });
+        }
+
+        const isAuthorized =
+          (await verifySessionAccess({ owner, repo: repoName })) ||
+          (await verifyAuth({
+            owner,
+            repo: repoName,
+            req: request,
+            service: "upload-pack",
+          }));
+
+        if (!isAuthorized) {
+          return new Response("Unauthorized", {
+            status: 401,
+            headers: {
+              "WWW-Authenticate": 'Basic realm="Git"',
+            },
+          });
+        }
+
+        // Named like GitHub's archives, e.g. `repo-main/` in `repo-main.zip`
+        const name = `${repoName}-${ref.replaceAll("/", "-")}`;
+        const search = new URLSearchParams({
+          ref,
+          format,
+          prefix: `${name}/`,
+        });
+        const path = new URL(request.url).searchParams.get("path");
+        if (path) search.set("path", path);
+
+        const response = await getRepoDOStub(`${owner}/${repoName}`).fetch(
+          `https://do/archive?${search}`
+        );
+        if (!response.ok) return response;
+
+        return new Response(response.body, {
+          headers: {
+            "Content-Type":
+              response.headers.get("Content-Type") ??
+              "application/octet-stream",
+            // Ref names can hold any character, so the name is percent-encoded
+            "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(`${name}.${format}`)}`,
+          },
+        });
+      },
+    },
+  },
+});
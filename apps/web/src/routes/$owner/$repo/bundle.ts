@@ -0,0 +1,83 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { getRepoDOStub } from "@/do/repo";
+import { encodePushPolicy } from "@/git/branch-protection";
+import {
+  authorizePush,
+  authorizeSessionPush,
+  verifyAuth,
+  verifySessionAccess,
+} from "@/lib/git-auth";
+
+/**
+ * Download a bundle of the repository (`?ref=` to pick refs, `?version=2`
+ * for older clients), or update the repository from an uploaded bundle.
+ * Signed-in users and personal access tokens are both accepted.
+ */
+export const Route = createFileRoute("/$owner/$repo/bundle")({
+  server: {
+    handlers: {
+      GET: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const isAuthorized =
+          (await verifySessionAccess({ owner, repo: repoName })) ||
+          (await verifyAuth({
+            owner,
+            repo: repoName,
+            req: request,
+            service: "upload-pack",
+          }));
+
+        if (!isAuthorized) {
+          return new Response("Unauthorized", {
+            status: 401,
+            headers: {
+              "WWW-Authenticate": 'Basic realm="Git"',
+            },
+          });
+        }
+
+        const url = new URL(request.url);
+        const response = await getRepoDOStub(`${owner}/${repoName}`).fetch(
+          `https://do/bundle${url.search}`
+        );
+        if (!response.ok) return response;
+
+        return new Response(response.body, {
+          headers: {
+            "Content-Type": "application/x-git-bundle",
+            "Content-Disposition": `attachment; filename="${repoName}.bundle"`,
+          },
+        });
+      },
+      POST: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const policy =
+          (await authorizeSessionPush({ owner, repo: repoName })) ??
+          (await authorizePush({ owner, repo: repoName, req: request }));
+
+        if (!policy) {
+          return new Response("Unauthorized", {
+            status: 401,
+            headers: {
+              "WWW-Authenticate": 'Basic realm="Git"',
+            },
+          });
+        }
+
+        return getRepoDOStub(`${owner}/${repoName}`).fetch(
+          "https://do/bundle",
+          {
+            method: "POST",
+            body: request.body,
+            signal: request.signal,
+            headers: encodePushPolicy(policy),
+          }
+        );
+      },
+    },
+  },
+});
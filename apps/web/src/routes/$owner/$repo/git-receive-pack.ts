@@ -1,6 +1,7 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { getRepoDOStub } from "@/do/repo";
-import { verifyAuth } from "@/lib/git-auth";
+import { encodePushPolicy } from "@/git/branch-protection";
+import { authorizePush } from "@/lib/git-auth";
 
 export const Route = createFileRoute("/$owner/$repo/git-receive-pack")({
   server: {
@@ -10,14 +11,13 @@ export const Route = createFileRoute("/$owner/$repo/git-receive-pack")({
         const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
 
         // Verify authentication for write access (always requires auth)
-        const isAuthorized = await verifyAuth({
+        const policy = await authorizePush({
           owner,
           repo: repoName,
           req: request,
-          service: "receive-pack",
         });
 
-        if (!isAuthorized) {
+        if (!policy) {
           return new Response("Unauthorized", {
             status: 401,
             headers: {
@@ -37,6 +37,8 @@ export const Route = createFileRoute("/$owner/$repo/git-receive-pack")({
           signal: request.signal,
           headers: {
             "Content-Type": contentType,
+            // Branch protection is enforced by the repository
+            ...encodePushPolicy(policy),
           },
         });
       },
@@ -37,6 +37,8 @@ export const Route = createFileRoute("/$owner/$repo/git-upload-pack")({
           signal: request.signal,
           headers: {
             "Content-Type": contentType,
+            // Selects protocol v2 or the v0/v1 negotiation
+            "Git-Protocol": request.headers.get("Git-Protocol") ?? "",
           },
         });
       },
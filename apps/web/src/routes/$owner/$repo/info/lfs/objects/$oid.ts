@@ -0,0 +1,81 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { createLogger } from "@/do/logger";
+import { isLfsOid, lfsError, lfsUnauthorized } from "@/git/lfs";
+import { verifyAuth } from "@/lib/git-auth";
+import { getLfsStorage } from "@/lib/lfs-storage";
+
+const logger = createLogger("LfsObjects");
+
+export const Route = createFileRoute("/$owner/$repo/info/lfs/objects/$oid")({
+  server: {
+    handlers: {
+      GET: async ({ request, params }) => {
+        const { owner, repo, oid } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const isAuthorized = await verifyAuth({
+          owner,
+          repo: repoName,
+          req: request,
+          service: "upload-pack",
+        });
+
+        if (!isAuthorized) {
+          return lfsUnauthorized();
+        }
+
+        const object = isLfsOid(oid)
+          ? await getLfsStorage(`${owner}/${repoName}`).get(oid)
+          : null;
+        if (!object) {
+          return lfsError(404, "Object does not exist");
+        }
+
+        return new Response(object.body, {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Length": object.size.toString(),
+          },
+        });
+      },
+      PUT: async ({ request, params }) => {
+        const { owner, repo, oid } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const isAuthorized = await verifyAuth({
+          owner,
+          repo: repoName,
+          req: request,
+          service: "receive-pack",
+        });
+
+        if (!isAuthorized) {
+          return lfsUnauthorized();
+        }
+
+        if (!isLfsOid(oid)) {
+          return lfsError(422, "Invalid object id");
+        }
+
+        // The basic transfer adapter always sends the object size
+        const size = Number(request.headers.get("Content-Length"));
+        if (!(request.body && Number.isSafeInteger(size))) {
+          return lfsError(411, "Content-Length required");
+        }
+
+        try {
+          await getLfsStorage(`${owner}/${repoName}`).put({
+            oid,
+            size,
+            body: request.body,
+          });
+        } catch (error) {
+          logger.error(`(upload) Failed to store LFS object ${oid}:`, error);
+          return lfsError(422, `Object ${oid} could not be stored`);
+        }
+
+        return new Response(null, { status: 200 });
+      },
+    },
+  },
+});
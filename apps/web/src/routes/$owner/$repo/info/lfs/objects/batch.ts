@@ -0,0 +1,106 @@
+import { createFileRoute } from "@tanstack/react-router";
+import {
+  LFS_ACTION_EXPIRES_IN,
+  type LfsBatchResponse,
+  type LfsBatchResponseObject,
+  lfsBatchRequestSchema,
+  lfsError,
+  lfsResponse,
+  lfsUnauthorized,
+} from "@/git/lfs";
+import { verifyAuth } from "@/lib/git-auth";
+import { getLfsStorage } from "@/lib/lfs-storage";
+
+export const Route = createFileRoute("/$owner/$repo/info/lfs/objects/batch")({
+  server: {
+    handlers: {
+      POST: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const parsed = lfsBatchRequestSchema.safeParse(
+          await request.json().catch(() => null)
+        );
+        if (!parsed.success) {
+          return lfsError(422, "Invalid batch request");
+        }
+        const batch = parsed.data;
+
+        if (batch.hash_algo && batch.hash_algo !== "sha256") {
+          return lfsError(
+            409,
+            `Unsupported hash algorithm: ${batch.hash_algo}`
+          );
+        }
+        if (batch.transfers && !batch.transfers.includes("basic")) {
+          return lfsError(422, "Only the basic transfer adapter is supported");
+        }
+
+        // Downloads need read access (anonymous for public repos), uploads need push access
+        const isAuthorized = await verifyAuth({
+          owner,
+          repo: repoName,
+          req: request,
+          service:
+            batch.operation === "download" ? "upload-pack" : "receive-pack",
+        });
+
+        if (!isAuthorized) {
+          return lfsUnauthorized();
+        }
+
+        const storage = getLfsStorage(`${owner}/${repoName}`);
+        const baseUrl = `${new URL(request.url).origin}/${owner}/${repo}/info/lfs`;
+        // Transfers are authenticated the same way as the batch request
+        const authorization = request.headers.get("Authorization");
+        const action = (href: string) => ({
+          href,
+          header: authorization ? { Authorization: authorization } : undefined,
+          expires_in: LFS_ACTION_EXPIRES_IN,
+        });
+
+        const objects = await Promise.all(
+          batch.objects.map(async (object): Promise<LfsBatchResponseObject> => {
+            const storedSize = await storage.size(object.oid);
+            const href = `${baseUrl}/objects/${object.oid}`;
+
+            if (batch.operation === "download") {
+              if (storedSize === null) {
+                return {
+                  ...object,
+                  error: { code: 404, message: "Object does not exist" },
+                };
+              }
+              return {
+                oid: object.oid,
+                size: storedSize,
+                authenticated: true,
+                actions: { download: action(href) },
+              };
+            }
+
+            // Objects that are already stored don't need to be uploaded again
+            if (storedSize === object.size) {
+              return object;
+            }
+            return {
+              ...object,
+              authenticated: true,
+              actions: {
+                upload: action(href),
+                verify: action(`${baseUrl}/verify`),
+              },
+            };
+          })
+        );
+
+        const response: LfsBatchResponse = {
+          transfer: "basic",
+          objects,
+          hash_algo: "sha256",
+        };
+        return lfsResponse(response);
+      },
+    },
+  },
+});
@@ -0,0 +1,55 @@
+import { createFileRoute } from "@tanstack/react-router";
+import {
+  lfsError,
+  lfsResponse,
+  lfsUnauthorized,
+  lfsVerifyRequestSchema,
+} from "@/git/lfs";
+import { verifyAuth } from "@/lib/git-auth";
+import { getLfsStorage } from "@/lib/lfs-storage";
+
+export const Route = createFileRoute("/$owner/$repo/info/lfs/verify")({
+  server: {
+    handlers: {
+      POST: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const isAuthorized = await verifyAuth({
+          owner,
+          repo: repoName,
+          req: request,
+          service: "receive-pack",
+        });
+
+        if (!isAuthorized) {
+          return lfsUnauthorized();
+        }
+
+        const parsed = lfsVerifyRequestSchema.safeParse(
+          await request.json().catch(() => null)
+        );
+        if (!parsed.success) {
+          return lfsError(422, "Invalid verify request");
+        }
+
+        // Uploads are hashed as they are stored, so a stored object is intact
+        const { oid, size } = parsed.data;
+        const storedSize = await getLfsStorage(`${owner}/${repoName}`).size(
+          oid
+        );
+        if (storedSize === null) {
+          return lfsError(404, "Object does not exist");
+        }
+        if (storedSize !== size) {
+          return lfsError(
+            422,
+            `Object size is ${storedSize}, expected ${size}`
+          );
+        }
+
+        return lfsResponse({ oid, size });
+      },
+    },
+  },
+});
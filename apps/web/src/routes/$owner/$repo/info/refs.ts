@@ -1,5 +1,9 @@
 import { createFileRoute } from "@tanstack/react-router";
-import { advertiseCapabilities } from "@/git/protocol";
+import {
+  advertiseCapabilities,
+  advertiseDumbRefs,
+  getProtocolVersion,
+} from "@/git/protocol";
 import { verifyAuth } from "@/lib/git-auth";
 
 export const Route = createFileRoute("/$owner/$repo/info/refs")({
@@ -9,8 +13,12 @@ export const Route = createFileRoute("/$owner/$repo/info/refs")({
         const url = new URL(request.url);
         const service = url.searchParams.get("service");
 
-        if (service !== "git-upload-pack" && service !== "git-receive-pack") {
-          return new Response("Missing or invalid service", { status: 400 });
+        if (
+          service !== null &&
+          service !== "git-upload-pack" &&
+          service !== "git-receive-pack"
+        ) {
+          return new Response("Invalid service", { status: 400 });
         }
 
         const { repo, owner } = params;
@@ -21,8 +29,9 @@ export const Route = createFileRoute("/$owner/$repo/info/refs")({
           owner,
           repo: repoName,
           req: request,
+          // Dumb HTTP clients are read-only
           service:
-            service === "git-upload-pack" ? "upload-pack" : "receive-pack",
+            service === "git-receive-pack" ? "receive-pack" : "upload-pack",
         });
 
         if (!isAuthorized) {
@@ -35,7 +44,14 @@ export const Route = createFileRoute("/$owner/$repo/info/refs")({
         }
 
         const fullRepoName = `${owner}/${repoName}`;
-        return advertiseCapabilities(service, fullRepoName);
+        if (service === null) {
+          return advertiseDumbRefs(fullRepoName);
+        }
+        return advertiseCapabilities(
+          service,
+          fullRepoName,
+          getProtocolVersion(request.headers.get("Git-Protocol"))
+        );
       },
     },
   },
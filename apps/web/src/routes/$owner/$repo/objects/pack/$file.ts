@@ -0,0 +1,35 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { serveDumbFile } from "@/git/protocol";
+import { verifyAuth } from "@/lib/git-auth";
+
+export const Route = createFileRoute("/$owner/$repo/objects/pack/$file")({
+  server: {
+    handlers: {
+      GET: async ({ request, params }) => {
+        const { owner, repo } = params;
+        const repoName = repo.endsWith(".git") ? repo.slice(0, -4) : repo;
+
+        const isAuthorized = await verifyAuth({
+          owner,
+          repo: repoName,
+          req: request,
+          service: "upload-pack",
+        });
+
+        if (!isAuthorized) {
+          return new Response("Unauthorized", {
+            status: 401,
+            headers: {
+              "WWW-Authenticate": 'Basic realm="Git"',
+            },
+          });
+        }
+
+        return serveDumbFile(
+          `${owner}/${repoName}`,
+          `objects/pack/${params.file}`
+        );
+      },
+    },
+  },
+});
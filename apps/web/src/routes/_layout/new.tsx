@@ -3,15 +3,19 @@ import { getCookieName } from "@convex-dev/better-auth/react-start";
 import { api } from "@gitvex/backend/convex/_generated/api";
 import { createAuth } from "@gitvex/backend/convex/auth";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
 import { getCookie } from "@tanstack/react-start/server";
 import { ConvexHttpClient } from "convex/browser";
 import { AlertCircleIcon } from "lucide-react";
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
+import { uploadBundle } from "@/api/bundle";
+import { getImportStatusQueryOptions, importRepoFn } from "@/api/import";
+import { setPullMirrorFn } from "@/api/mirrors";
 import { NotFoundComponent } from "@/components/404-components";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -22,6 +26,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
@@ -34,8 +39,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
-import { getRepoDOStub } from "@/do/repo";
+import { getRepoDOStub, type ImportStatus } from "@/do/repo";
 import { handleAndThrowConvexError } from "@/lib/convex";
+import { formatBytes } from "@/lib/utils";
 
 export const Route = createFileRoute("/_layout/new")({
   component: RouteComponent,
@@ -90,14 +96,41 @@ const createRepoServerFn = createServerFn({ method: "POST" })
       .catch(handleAndThrowConvexError);
 
     const stub = getRepoDOStub(resp.fullName);
-    await stub.ensureRepoInitialized();
+    await stub.initRepo();
     return resp;
   });
 
 type FormValues = z.infer<typeof formSchema>;
 
+function formatImportProgress(status: ImportStatus) {
+  const { progress } = status;
+  if (!progress) return "Connecting…";
+  if (progress.total) {
+    return `${progress.phase}: ${Math.floor((progress.loaded / progress.total) * 100)}% (${progress.loaded}/${progress.total})`;
+  }
+  return progress.phase === "Receiving objects"
+    ? `${progress.phase}: ${formatBytes(progress.loaded, { decimals: 1 })}`
+    : `${progress.phase}: ${progress.loaded}`;
+}
+
 function RouteComponent() {
   const navigate = useNavigate();
+  const [bundle, setBundle] = useState<File | null>(null);
+  const [remote, setRemote] = useState({
+    url: "",
+    username: "",
+    password: "",
+    mirror: false,
+  });
+  const [importing, setImporting] = useState<{
+    owner: string;
+    repo: string;
+  } | null>(null);
+  const { data: importStatus } = useQuery({
+    ...getImportStatusQueryOptions(importing ?? { owner: "", repo: "" }),
+    enabled: importing !== null,
+    refetchInterval: 1000,
+  });
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -109,10 +142,54 @@ function RouteComponent() {
   });
 
   const createRepoMutation = useMutation({
-    mutationFn: async (values: FormValues) =>
-      await createRepoServerFn({
+    mutationFn: async (values: FormValues) => {
+      const repo = await createRepoServerFn({
         data: values,
-      }),
+      });
+      if (remote.url) {
+        const source = {
+          owner: repo.owner,
+          repo: repo.name,
+          url: remote.url.trim(),
+          username: remote.username || undefined,
+          password: remote.password || undefined,
+        };
+        setImporting({ owner: repo.owner, repo: repo.name });
+        // Like bundles, a failed import leaves the empty repository in place
+        await importRepoFn({ data: source })
+          .then(async (status) => {
+            if (status.state === "failed") {
+              toast.error(`Import failed: ${status.error}`);
+            } else if (remote.mirror) {
+              // Already up to date, so turning on mirroring only fetches refs
+              await setPullMirrorFn({ data: source });
+            }
+          })
+          .catch((err) => {
+            toast.error(
+              err instanceof Error ? err.message : "Failed to import repository"
+            );
+          })
+          .finally(() => setImporting(null));
+      } else if (bundle) {
+        // The repository exists at this point, so a rejected bundle is only reported
+        await uploadBundle({ owner: repo.owner, repo: repo.name, file: bundle })
+          .then((results) => {
+            const failed = results.filter((result) => !result.ok);
+            if (failed.length > 0) {
+              toast.error(
+                `Some refs were not imported: ${failed.map((result) => result.ref).join(", ")}`
+              );
+            }
+          })
+          .catch((err) => {
+            toast.error(
+              err instanceof Error ? err.message : "Failed to import bundle"
+            );
+          });
+      }
+      return repo;
+    },
     onSuccess: ({ owner, name }) => {
       toast.success("Repository created successfully!");
       form.reset();
@@ -247,6 +324,85 @@ function RouteComponent() {
                 )}
               />
 
+              <div className="space-y-2">
+                <Label htmlFor="import-url">Import from URL (optional)</Label>
+                <Input
+                  disabled={isSubmitting || bundle !== null}
+                  id="import-url"
+                  onChange={(e) =>
+                    setRemote({ ...remote, url: e.target.value })
+                  }
+                  placeholder="https://github.com/owner/repo.git"
+                  type="url"
+                  value={remote.url}
+                />
+                <p className="text-muted-foreground text-sm">
+                  Copy every branch and tag of a repository served over HTTPS
+                </p>
+                {remote.url && (
+                  <div className="flex gap-2">
+                    <Input
+                      aria-label="Username"
+                      autoComplete="off"
+                      disabled={isSubmitting}
+                      onChange={(e) =>
+                        setRemote({ ...remote, username: e.target.value })
+                      }
+                      placeholder="Username (optional)"
+                      value={remote.username}
+                    />
+                    <Input
+                      aria-label="Password or token"
+                      autoComplete="new-password"
+                      disabled={isSubmitting}
+                      onChange={(e) =>
+                        setRemote({ ...remote, password: e.target.value })
+                      }
+                      placeholder="Password or token (optional)"
+                      type="password"
+                      value={remote.password}
+                    />
+                  </div>
+                )}
+                {remote.url && (
+                  <Label className="flex items-center gap-2 font-normal">
+                    <Checkbox
+                      checked={remote.mirror}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) =>
+                        setRemote({ ...remote, mirror: checked === true })
+                      }
+                    />
+                    Keep in sync as a read-only mirror
+                  </Label>
+                )}
+                {importing && importStatus?.state === "running" && (
+                  <div className="rounded-lg border p-3 text-sm">
+                    <p>{formatImportProgress(importStatus)}</p>
+                    {importStatus.remoteMessage && (
+                      <p className="truncate font-mono text-muted-foreground text-xs">
+                        remote: {importStatus.remoteMessage}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bundle">Import from a bundle (optional)</Label>
+                <Input
+                  accept=".bundle"
+                  disabled={isSubmitting || remote.url !== ""}
+                  id="bundle"
+                  onChange={(e) => setBundle(e.target.files?.[0] ?? null)}
+                  type="file"
+                />
+                <p className="text-muted-foreground text-sm">
+                  Start with the refs and history of a file made with git bundle
+                  create
+                </p>
+              </div>
+
               <div className="flex justify-end">
                 <Button loading={isSubmitting} type="submit">
                   Create
@@ -1,3 +1,6 @@
+import { convexQuery } from "@convex-dev/react-query";
+import { api } from "@gitvex/backend/convex/_generated/api";
+import type { Id } from "@gitvex/backend/convex/_generated/dataModel";
 import { useForm } from "@tanstack/react-form";
 import {
   useMutation,
@@ -6,6 +9,7 @@ import {
   useSuspenseQuery,
 } from "@tanstack/react-query";
 import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
 import { Authenticated, AuthLoading, Unauthenticated } from "convex/react";
 import { formatDistanceToNow } from "date-fns";
 import { CheckIcon, CopyIcon, Trash2Icon } from "lucide-react";
@@ -30,7 +34,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { getKeyFingerprint } from "@/git/signature";
 import { authClient } from "@/lib/auth-client";
+import { fetchMutation } from "@/lib/auth-server";
 import { handleAndThrowConvexError } from "@/lib/convex";
 
 export const Route = createFileRoute("/_layout/settings")({
@@ -53,6 +60,7 @@ function PendingComponent() {
         <TabsList>
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="tokens">Personal Access Tokens</TabsTrigger>
+          <TabsTrigger value="signing-keys">Signing Keys</TabsTrigger>
         </TabsList>
 
         <TabsContent value="profile">
@@ -110,6 +118,7 @@ function RouteComponent() {
             <TabsList>
               <TabsTrigger value="profile">Profile</TabsTrigger>
               <TabsTrigger value="tokens">Personal Access Tokens</TabsTrigger>
+              <TabsTrigger value="signing-keys">Signing Keys</TabsTrigger>
             </TabsList>
 
             <TabsContent value="profile">
@@ -123,6 +132,10 @@ function RouteComponent() {
             <TabsContent value="tokens">
               <PersonalAccessTokens />
             </TabsContent>
+
+            <TabsContent value="signing-keys">
+              <SigningKeys />
+            </TabsContent>
           </Tabs>
         </div>
       </Authenticated>
@@ -564,3 +577,193 @@ function PersonalAccessTokensSkeleton() {
     </div>
   );
 }
+
+const addSigningKeyServerFn = createServerFn({ method: "POST" })
+  .inputValidator(z.object({ title: z.string(), key: z.string() }))
+  .handler(async ({ data }) => {
+    const key = data.key.trim();
+    const type = key.startsWith("-----BEGIN PGP PUBLIC KEY BLOCK-----")
+      ? "gpg"
+      : "ssh";
+
+    let fingerprint: string;
+    try {
+      fingerprint = await getKeyFingerprint({ type, key });
+    } catch {
+      throw new Error(
+        "Key must be an armored GPG public key or an OpenSSH public key"
+      );
+    }
+
+    const resp = await fetchMutation(api.signingKeys.add, {
+      title: data.title,
+      type,
+      key,
+      fingerprint,
+    }).catch(handleAndThrowConvexError);
+    return resp;
+  });
+
+const deleteSigningKeyServerFn = createServerFn({ method: "POST" })
+  .inputValidator(z.object({ keyId: z.string() }))
+  .handler(async ({ data }) => {
+    const resp = await fetchMutation(api.signingKeys.remove, {
+      id: data.keyId as Id<"signingKeys">,
+    }).catch(handleAndThrowConvexError);
+    return resp;
+  });
+
+function SigningKeys() {
+  const { data: keys, isLoading } = useQuery(
+    convexQuery(api.signingKeys.list, {})
+  );
+
+  const addKeyMutation = useMutation({
+    mutationFn: async (values: { title: string; key: string }) =>
+      await addSigningKeyServerFn({ data: values }),
+    onSuccess: () => {
+      toast.success("Signing key added");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add signing key");
+    },
+  });
+
+  const deleteKeyMutation = useMutation({
+    mutationFn: async (keyId: string) =>
+      await deleteSigningKeyServerFn({ data: { keyId } }),
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete signing key");
+    },
+  });
+
+  const form = useForm({
+    defaultValues: {
+      title: "",
+      key: "",
+    },
+    onSubmit: async ({ value }) => {
+      await addKeyMutation.mutateAsync(value);
+      form.reset();
+    },
+    validators: {
+      onSubmit: z.object({
+        title: z
+          .string()
+          .min(3, "Key title must be at least 3 characters")
+          .max(50, "Key title must be at most 50 characters"),
+        key: z.string().trim().min(1, "Key is required"),
+      }),
+    },
+  });
+
+  if (isLoading) {
+    return <PersonalAccessTokensSkeleton />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border p-6">
+        <div className="mb-6">
+          <h2 className="mb-2 font-semibold text-lg">Signing Keys</h2>
+          <p className="text-muted-foreground text-sm">
+            GPG and SSH public keys used to verify your signed pushes (
+            <code>git push --signed</code>). Every verified push certificate is
+            stored with the refs it updated.
+          </p>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            form.handleSubmit();
+          }}
+        >
+          <form.Field name="title">
+            {(field) => (
+              <div className="space-y-2">
+                <Label htmlFor={field.name}>Title</Label>
+                <Input
+                  id={field.name}
+                  name={field.name}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                  placeholder="e.g., Work laptop"
+                  value={field.state.value}
+                />
+                {field.state.meta.errors.map((error) => (
+                  <p className="text-destructive text-sm" key={error?.message}>
+                    {error?.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </form.Field>
+          <form.Field name="key">
+            {(field) => (
+              <div className="space-y-2">
+                <Label htmlFor={field.name}>Key</Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  id={field.name}
+                  name={field.name}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                  placeholder="Begins with '-----BEGIN PGP PUBLIC KEY BLOCK-----', 'ssh-ed25519', 'ssh-rsa' or 'ecdsa-sha2-nistp256'"
+                  rows={6}
+                  value={field.state.value}
+                />
+                {field.state.meta.errors.map((error) => (
+                  <p className="text-destructive text-sm" key={error?.message}>
+                    {error?.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </form.Field>
+          <Button loading={addKeyMutation.isPending} type="submit">
+            Add Key
+          </Button>
+        </form>
+      </div>
+
+      {keys && keys.length > 0 && (
+        <div className="rounded-lg border p-6">
+          <h3 className="mb-4 font-semibold text-base">Your Keys</h3>
+          <div className="space-y-3">
+            {keys.map((key) => (
+              <Card className="p-4" key={key._id}>
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h4 className="mb-2 font-semibold text-sm">{key.title}</h4>
+                    <div className="space-y-1 text-muted-foreground text-xs">
+                      <p>{key.type === "gpg" ? "GPG key" : "SSH key"}</p>
+                      <p>Added: {formatDate(new Date(key._creationTime))}</p>
+                      <code className="break-all text-xs">
+                        {key.fingerprint}
+                      </code>
+                    </div>
+                  </div>
+
+                  <Button
+                    loading={
+                      deleteKeyMutation.isPending &&
+                      deleteKeyMutation.variables === key._id
+                    }
+                    onClick={() => deleteKeyMutation.mutate(key._id)}
+                    size="icon"
+                    variant="outline"
+                  >
+                    <Trash2Icon />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Stand-in for the `cloudflare:workers` module, which only exists in the
+ * Workers runtime. Tests construct storage directly, so only the names
+ * imported at module load need to exist.
+ */
+
+export const env: Partial<Env> = { LOG_LEVEL: "error" };
+
+export class DurableObject<E = Env> {
+  protected ctx: DurableObjectState;
+  protected env: E;
+
+  constructor(ctx: DurableObjectState, env: E) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+}
+
+export class RpcTarget {}
+
+export class WorkerEntrypoint<E = Env> {
+  protected env: E;
+
+  constructor(_ctx: ExecutionContext, env: E) {
+    this.env = env;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Builders for hand-made packs, e.g. thin packs that the repository's own
+ * pack writer never produces.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  concatBytes,
+  deflate,
+  encodeEntryHeader,
+  encodeOfsDeltaOffset,
+  type GitObjectType,
+  hexToBytes,
+  PackObjectType,
+} from "@/git/pack";
+
+const encoder = new TextEncoder();
+
+/** A full object entry */
+export function fullEntry(type: GitObjectType, content: Uint8Array) {
+  return concatBytes([
+    encodeEntryHeader(PackObjectType[type], content.length),
+    deflate(content),
+  ]);
+}
+
+/** A delta entry against the entry `distance` bytes before it */
+export function ofsDeltaEntry(distance: number, delta: Uint8Array) {
+  return concatBytes([
+    encodeEntryHeader(PackObjectType.ofsDelta, delta.length),
+    encodeOfsDeltaOffset(distance),
+    deflate(delta),
+  ]);
+}
+
+/** A delta entry against an object id */
+export function refDeltaEntry(baseOid: string, delta: Uint8Array) {
+  return concatBytes([
+    encodeEntryHeader(PackObjectType.refDelta, delta.length),
+    hexToBytes(baseOid),
+    deflate(delta),
+  ]);
+}
+
+/** A version 2 pack of the given entries, with its checksum */
+export function packOf(entries: Uint8Array[]) {
+  const header = new Uint8Array(12);
+  header.set(encoder.encode("PACK"));
+  const view = new DataView(header.buffer);
+  view.setUint32(4, 2);
+  view.setUint32(8, entries.length);
+  const body = concatBytes([header, ...entries]);
+  return concatBytes([body, createHash("sha1").update(body).digest()]);
+}
+
+/** Content that neither compresses nor repeats, seeded to be reproducible */
+export function noise(length: number, seed: number) {
+  const data = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 32) {
+    const block = createHash("sha256").update(`${seed}:${offset}`).digest();
+    data.set(block.subarray(0, length - offset), offset);
+  }
+  return data;
+}
+
+/** Stream data in chunks of `chunkSize` bytes, like a client sending it */
+export function streamOf(data: Uint8Array, chunkSize: number) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        controller.enqueue(data.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Durable Object storage for tests: SQLite storage backed by sql.js, and the
+ * DOFS file system and {@link GitService} on top of it, as set up by the
+ * repository Durable Object.
+ */
+
+import * as git from "isomorphic-git";
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+import { ChunkedFs, IsoGitFs } from "@/do/fs";
+import { GitService } from "@/git/service";
+
+type Row = Record<string, SqlStorageValue>;
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (typeof value === "boolean") return value ? 1 : 0;
+  // Bound as NULL, as the Workers runtime does
+  if (value === undefined) return null;
+  return value as SqlValue;
+}
+
+/** Blobs are returned as ArrayBuffers, like the Workers runtime does */
+function fromSqlValue(value: SqlValue): SqlStorageValue {
+  return value instanceof Uint8Array ? value.slice().buffer : value;
+}
+
+class MemorySqlCursor<T extends Row> implements SqlStorageCursor<T> {
+  readonly columnNames: string[];
+  readonly rowsRead: number;
+  readonly rowsWritten: number;
+  private readonly rows: SqlStorageValue[][];
+  private position = 0;
+
+  constructor(
+    columnNames: string[],
+    rows: SqlStorageValue[][],
+    rowsWritten: number
+  ) {
+    this.columnNames = columnNames;
+    this.rows = rows;
+    this.rowsRead = rows.length;
+    this.rowsWritten = rowsWritten;
+  }
+
+  next(): { done?: false; value: T } | { done: true; value?: never } {
+    const row = this.rows[this.position];
+    if (!row) return { done: true };
+    this.position += 1;
+    return { value: this.toObject(row) };
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  one(): T {
+    const rows = this.toArray();
+    if (rows.length !== 1) {
+      throw new Error(`Expected exactly one row, got ${rows.length}`);
+    }
+    return rows[0];
+  }
+
+  *raw<U extends SqlStorageValue[]>(): IterableIterator<U> {
+    while (this.position < this.rows.length) {
+      this.position += 1;
+      yield this.rows[this.position - 1] as U;
+    }
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let result = this.next(); !result.done; result = this.next()) {
+      yield result.value;
+    }
+  }
+
+  private toObject(row: SqlStorageValue[]): T {
+    return Object.fromEntries(
+      this.columnNames.map((name, i) => [name, row[i]])
+    ) as T;
+  }
+}
+
+/**
+ * Run a query like `SqlStorage.exec`. Statements run right away, and
+ * queries without bindings may contain several statements.
+ */
+function execute(db: Database, query: string, bindings: unknown[]) {
+  if (bindings.length === 0) {
+    const results = db.exec(query);
+    const last = results.at(-1);
+    return {
+      columnNames: last?.columns ?? [],
+      rows: (last?.values ?? []).map((row) => row.map(fromSqlValue)),
+    };
+  }
+
+  const statement = db.prepare(query);
+  try {
+    statement.bind(bindings.map(toSqlValue));
+    const rows: SqlStorageValue[][] = [];
+    while (statement.step()) {
+      rows.push(statement.get().map(fromSqlValue));
+    }
+    return { columnNames: statement.getColumnNames(), rows };
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * In-memory SQLite storage with the `SqlStorage` API of Durable Objects.
+ */
+export async function createSqlStorage() {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  const sql: Pick<SqlStorage, "exec" | "databaseSize"> = {
+    exec<T extends Row>(query: string, ...bindings: unknown[]) {
+      const { columnNames, rows } = execute(db, query, bindings);
+      return new MemorySqlCursor<T>(columnNames, rows, db.getRowsModified());
+    },
+    get databaseSize() {
+      return db.export().length;
+    },
+  };
+  return sql as SqlStorage;
+}
+
+/**
+ * An empty repository in fresh storage, as the repository Durable Object
+ * creates it.
+ */
+export async function createTestRepository() {
+  const sql = await createSqlStorage();
+  const ctx = {
+    storage: { sql },
+    blockConcurrencyWhile: async <T>(callback: () => Promise<T>) =>
+      await callback(),
+  } as DurableObjectState;
+
+  const dofs = new ChunkedFs(ctx, {} as Env, { chunkSize: 512 * 1024 });
+  dofs.setDeviceSize(1024 * 1024 * 1024);
+  const fs = new IsoGitFs(dofs).getPromiseFsClient();
+  const git = new GitService(fs, "/repo", sql);
+  await git.initRepo();
+  return { sql, fs, git, gitdir: "/repo" };
+}
+
+export type TestRepository = Awaited<ReturnType<typeof createTestRepository>>;
+
+/**
+ * Write a commit with the given files at the root of its tree. Refs are left
+ * alone, update them through {@link GitService.applyRefUpdates}.
+ *
+ * @param options.time - Commit time in seconds, increase it to order commits
+ * @returns The commit id
+ */
+export async function writeCommit(
+  repo: TestRepository,
+  options: {
+    files: Record<string, string>;
+    parents?: string[];
+    message?: string;
+    time?: number;
+  }
+) {
+  const { fs, gitdir } = repo;
+  const tree = await git.writeTree({
+    fs,
+    gitdir,
+    tree: await Promise.all(
+      Object.entries(options.files)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(async ([path, content]) => ({
+          mode: "100644",
+          path,
+          type: "blob" as const,
+          oid: await git.writeBlob({
+            fs,
+            gitdir,
+            blob: new TextEncoder().encode(content),
+          }),
+        }))
+    ),
+  });
+
+  const author = {
+    name: "Test",
+    email: "test@example.com",
+    timestamp: options.time ?? 1_700_000_000,
+    timezoneOffset: 0,
+  };
+  return await git.writeCommit({
+    fs,
+    gitdir,
+    commit: {
+      tree,
+      parent: options.parents ?? [],
+      author,
+      committer: author,
+      message: `${options.message ?? "Commit"}\n`,
+    },
+  });
+}
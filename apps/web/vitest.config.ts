@@ -0,0 +1,23 @@
+import { fileURLToPath } from "node:url";
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Separate from vite.config.ts, tests run in Node without the Workers runtime
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  // dofs is published with decorators, which Node can't run yet
+  esbuild: { include: /\.[jt]s$/, exclude: [], target: "es2022" },
+  resolve: {
+    alias: {
+      "cloudflare:workers": fileURLToPath(
+        new URL("./src/test/cloudflare-workers.ts", import.meta.url)
+      ),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // Bundled so it gets the `cloudflare:workers` alias too
+    server: { deps: { inline: ["dofs"] } },
+    passWithNoTests: true,
+  },
+});
@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types --env-interface Env` (hash: 9528c2436b02ecab8f1c124c2f31f9f3)
+// Generated by Wrangler by running `wrangler types --env-interface Env` (hash: 84140491e11de672a6d5fe444ee59600)
 // Runtime types generated with workerd@1.20251011.0 2025-09-15 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
@@ -14,6 +14,7 @@ declare namespace Cloudflare {
 		VITE_CONVEX_URL: string;
 		LOG_LEVEL: string;
 		REPO: DurableObjectNamespace<import("./src/server").Repo>;
+		LFS_BUCKET: R2Bucket;
 	}
 }
 interface Env extends Cloudflare.Env {}
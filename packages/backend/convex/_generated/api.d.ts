@@ -9,6 +9,7 @@
  */
 
 import type * as auth from "../auth.js";
+import type * as branchProtection from "../branchProtection.js";
 import type * as comments from "../comments.js";
 import type * as healthCheck from "../healthCheck.js";
 import type * as http from "../http.js";
@@ -16,6 +17,7 @@ import type * as issues from "../issues.js";
 import type * as privateData from "../privateData.js";
 import type * as pulls from "../pulls.js";
 import type * as repositories from "../repositories.js";
+import type * as signingKeys from "../signingKeys.js";
 import type * as todos from "../todos.js";
 
 import type {
@@ -34,6 +36,7 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  branchProtection: typeof branchProtection;
   comments: typeof comments;
   healthCheck: typeof healthCheck;
   http: typeof http;
@@ -41,6 +44,7 @@ declare const fullApi: ApiFromModules<{
   privateData: typeof privateData;
   pulls: typeof pulls;
   repositories: typeof repositories;
+  signingKeys: typeof signingKeys;
   todos: typeof todos;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
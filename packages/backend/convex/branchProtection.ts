@@ -0,0 +1,125 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { authComponent } from "./auth";
+
+/**
+ * Get the branch protection rules of a repository (owner only)
+ */
+export const getByRepo = query({
+  args: {
+    owner: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    const repo = await ctx.db
+      .query("repositories")
+      .withIndex("by_owner_name", (q) =>
+        q.eq("owner", args.owner).eq("name", args.name)
+      )
+      .unique();
+
+    if (!repo) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (!user || repo.ownerId !== user._id) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("branchProtectionRules")
+      .withIndex("by_repositoryId", (q) => q.eq("repositoryId", repo._id))
+      .collect();
+  },
+});
+
+/**
+ * Add a branch protection rule
+ */
+export const create = mutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    pattern: v.string(),
+    allowDeletion: v.boolean(),
+    allowForcePush: v.boolean(),
+    requireLinearHistory: v.boolean(),
+    requireSignedPush: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const repo = await ctx.db.get(args.repositoryId);
+    if (!repo) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (repo.ownerId !== user._id) {
+      throw new ConvexError("Not authorized to update this repository");
+    }
+
+    const pattern = args.pattern.trim();
+    if (!pattern || /\s/.test(pattern) || pattern.startsWith("refs/")) {
+      throw new ConvexError(
+        "Branch pattern must be a branch name or glob, e.g. main or release/*"
+      );
+    }
+
+    const existing = await ctx.db
+      .query("branchProtectionRules")
+      .withIndex("by_repositoryId", (q) =>
+        q.eq("repositoryId", args.repositoryId)
+      )
+      .collect();
+
+    if (existing.some((rule) => rule.pattern === pattern)) {
+      throw new ConvexError("A rule for this branch pattern already exists");
+    }
+
+    const ruleId = await ctx.db.insert("branchProtectionRules", {
+      repositoryId: args.repositoryId,
+      pattern,
+      allowDeletion: args.allowDeletion,
+      allowForcePush: args.allowForcePush,
+      requireLinearHistory: args.requireLinearHistory,
+      requireSignedPush: args.requireSignedPush,
+    });
+
+    return ruleId;
+  },
+});
+
+/**
+ * Delete a branch protection rule
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("branchProtectionRules"),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const rule = await ctx.db.get(args.id);
+    if (!rule) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    const repo = await ctx.db.get(rule.repositoryId);
+    if (!repo || repo.ownerId !== user._id) {
+      throw new ConvexError("Not authorized to update this repository");
+    }
+
+    await ctx.db.delete(args.id);
+
+    return { success: true };
+  },
+});
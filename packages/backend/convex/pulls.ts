@@ -1,6 +1,6 @@
 import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { authComponent } from "./auth";
+import { authComponent, createAuth } from "./auth";
 
 /**
  * Get pull requests created by the authenticated user across all repositories
@@ -195,6 +195,92 @@ export const create = mutation({
   },
 });
 
+/**
+ * Open a pull request from a push (`git push -o pr.create`).
+ * The pusher is authenticated with the personal access token used for the push.
+ * If an open pull request between the same branches exists, it is returned instead.
+ */
+export const createFromPush = mutation({
+  args: {
+    owner: v.string(),
+    repo: v.string(),
+    token: v.string(),
+    title: v.string(),
+    body: v.optional(v.string()),
+    intoBranch: v.string(),
+    fromBranch: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const repo = await ctx.db
+      .query("repositories")
+      .withIndex("by_owner_name", (q) =>
+        q.eq("owner", args.owner).eq("name", args.repo)
+      )
+      .unique();
+
+    if (!repo) {
+      throw new ConvexError("Repository not found");
+    }
+
+    const { auth } = await authComponent.getAuth(createAuth, ctx);
+    const tokenVerification = await auth.api.verifyApiKey({
+      body: { key: args.token.trim() },
+    });
+
+    // Only the owner can push, so only the owner can open pull requests this way
+    if (
+      !tokenVerification.valid ||
+      tokenVerification.key?.userId !== repo.ownerId
+    ) {
+      throw new ConvexError(
+        "Not authorized to create pull requests in this repository"
+      );
+    }
+
+    const fullName = `${repo.owner}/${repo.name}`;
+
+    const existing = await ctx.db
+      .query("pullRequests")
+      .withIndex("by_fullName_status", (q) =>
+        q.eq("fullName", fullName).eq("status", "open")
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("fromBranch"), args.fromBranch),
+          q.eq(q.field("intoBranch"), args.intoBranch)
+        )
+      )
+      .first();
+
+    if (existing) {
+      return { number: existing.number, created: false };
+    }
+
+    const lastPr = await ctx.db
+      .query("pullRequests")
+      .withIndex("by_fullName_number", (q) => q.eq("fullName", fullName))
+      .order("desc")
+      .first();
+
+    const nextNumber = lastPr ? lastPr.number + 1 : 1;
+
+    await ctx.db.insert("pullRequests", {
+      repositoryId: repo._id,
+      fullName,
+      number: nextNumber,
+      title: args.title,
+      body: args.body,
+      status: "open",
+      intoBranch: args.intoBranch,
+      fromBranch: args.fromBranch,
+      creatorId: repo.ownerId,
+      creatorUsername: repo.owner,
+    });
+
+    return { number: nextNumber, created: true };
+  },
+});
+
 /**
  * Update a pull request
  */
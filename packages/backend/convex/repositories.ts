@@ -1,7 +1,8 @@
 import type { DataModelFromSchemaDefinition } from "convex/server";
 import { ConvexError, v } from "convex/values";
 import { components } from "./_generated/api";
-import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, type QueryCtx, query } from "./_generated/server";
 import { authComponent, createAuth } from "./auth";
 import type authSchema from "./betterAuth/schema";
 
@@ -57,6 +58,20 @@ export const getByOwner = query({
   },
 });
 
+/**
+ * Whether a user can see a repository: public ones, or private ones they own
+ */
+function canRead(repo: Doc<"repositories">, userId: string | undefined) {
+  return !repo.isPrivate || repo.ownerId === userId;
+}
+
+async function getRepoByFullName(ctx: QueryCtx, owner: string, name: string) {
+  return await ctx.db
+    .query("repositories")
+    .withIndex("by_owner_name", (q) => q.eq("owner", owner).eq("name", name))
+    .unique();
+}
+
 /**
  * Get a specific repository by owner and name
  */
@@ -84,7 +99,41 @@ export const getByOwnerAndName = query({
       throw new ConvexError("NOT_FOUND");
     }
 
-    return repo;
+    // The source is left out when it was deleted or can't be seen
+    const source = repo.forkedFromId
+      ? await ctx.db.get(repo.forkedFromId)
+      : null;
+    const forkedFrom =
+      source && canRead(source, user?._id)
+        ? { owner: source.owner, name: source.name }
+        : null;
+
+    return { ...repo, forkedFrom };
+  },
+});
+
+/**
+ * List the forks of a repository that the user can see
+ */
+export const getForks = query({
+  args: {
+    owner: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    const repo = await getRepoByFullName(ctx, args.owner, args.name);
+    if (!(repo && canRead(repo, user?._id))) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    const forks = await ctx.db
+      .query("repositories")
+      .withIndex("by_forkedFromId", (q) => q.eq("forkedFromId", repo._id))
+      .collect();
+
+    return forks.filter((fork) => canRead(fork, user?._id));
   },
 });
 
@@ -171,6 +220,40 @@ export const checkPermissionByPAT = mutation({
     }
 
     // All checks passed
+    if (isPushOperation) {
+      const rules = await ctx.db
+        .query("branchProtectionRules")
+        .withIndex("by_repositoryId", (q) => q.eq("repositoryId", repo._id))
+        .collect();
+      const signingKeys = await ctx.db
+        .query("signingKeys")
+        .withIndex("by_userId", (q) => q.eq("userId", repo.ownerId))
+        .collect();
+      // The token's user, recorded as the pusher in the reflog
+      const tokenUserId = tokenVerification.key?.userId;
+      const pusher = tokenUserId
+        ? await authComponent.getAnyUserById(ctx, tokenUserId)
+        : null;
+
+      return {
+        valid: true,
+        message: "Authorized",
+        pusher: pusher?.username ?? null,
+        branchProtection: rules.map((rule) => ({
+          pattern: rule.pattern,
+          allowDeletion: rule.allowDeletion,
+          allowForcePush: rule.allowForcePush,
+          requireLinearHistory: rule.requireLinearHistory,
+          requireSignedPush: rule.requireSignedPush ?? false,
+        })),
+        // Keys the pusher's signed push certificates are verified against
+        signingKeys: signingKeys.map((key) => ({
+          type: key.type,
+          key: key.key,
+        })),
+      };
+    }
+
     return { valid: true, message: "Authorized" };
   },
 });
@@ -239,6 +322,66 @@ export const create = mutation({
   },
 });
 
+/**
+ * Fork a repository into the user's account. The new repository starts with
+ * the source's description and visibility; its Git data is
+ * copied separately.
+ */
+export const fork = mutation({
+  args: {
+    owner: v.string(),
+    name: v.string(),
+    // Name of the fork, the source's name when unset
+    forkName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if (!user.username) {
+      throw new ConvexError("User does not have a username");
+    }
+
+    const username = user.username;
+
+    const source = await getRepoByFullName(ctx, args.owner, args.name);
+    if (!(source && canRead(source, user._id))) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    const name = args.forkName ?? source.name;
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      throw new ConvexError(
+        "Repository name can only contain letters, numbers, hyphens, and underscores"
+      );
+    }
+
+    if (await getRepoByFullName(ctx, username, name)) {
+      throw new ConvexError("Repository with this name already exists");
+    }
+
+    const newRepoId = await ctx.db.insert("repositories", {
+      ownerId: user._id,
+      owner: username,
+      name,
+      description: source.description,
+      isPrivate: source.isPrivate,
+      forkedFromId: source._id,
+    });
+
+    return {
+      _id: newRepoId,
+      fullName: `${username}/${name}`,
+      owner: username,
+      name,
+      sourceFullName: `${source.owner}/${source.name}`,
+    };
+  },
+});
+
 /**
  * Update repository details
  */
@@ -380,6 +523,24 @@ export const deleteRepository = mutation({
       await ctx.db.delete(pr._id);
     }
 
+    // Delete branch protection rules
+    const rules = await ctx.db
+      .query("branchProtectionRules")
+      .withIndex("by_repositoryId", (q) => q.eq("repositoryId", args.id))
+      .collect();
+    for (const rule of rules) {
+      await ctx.db.delete(rule._id);
+    }
+
+    // Forks are kept, without the link to the deleted repository
+    const forks = await ctx.db
+      .query("repositories")
+      .withIndex("by_forkedFromId", (q) => q.eq("forkedFromId", args.id))
+      .collect();
+    for (const fork of forks) {
+      await ctx.db.patch(fork._id, { forkedFromId: undefined });
+    }
+
     // Delete the repository
     await ctx.db.delete(args.id);
 
@@ -13,10 +13,13 @@ export default defineSchema({
     name: v.string(),
     description: v.optional(v.string()),
     isPrivate: v.boolean(),
+    // Repository this one was forked from
+    forkedFromId: v.optional(v.id("repositories")),
   })
     .index("by_ownerId", ["ownerId"])
     .index("by_owner", ["owner"])
-    .index("by_owner_name", ["owner", "name"]),
+    .index("by_owner_name", ["owner", "name"])
+    .index("by_forkedFromId", ["forkedFromId"]),
 
   issues: defineTable({
     repositoryId: v.id("repositories"),
@@ -54,6 +57,23 @@ export default defineSchema({
     .index("by_fullName_status", ["fullName", "status"])
     .index("by_fullName_number", ["fullName", "number"]),
 
+  branchProtectionRules: defineTable({
+    repositoryId: v.id("repositories"),
+    pattern: v.string(), // Branch name glob, e.g. "main" or "release/*"
+    allowDeletion: v.boolean(),
+    allowForcePush: v.boolean(),
+    requireLinearHistory: v.boolean(),
+    requireSignedPush: v.optional(v.boolean()),
+  }).index("by_repositoryId", ["repositoryId"]),
+
+  signingKeys: defineTable({
+    userId: v.string(),
+    title: v.string(),
+    type: v.union(v.literal("gpg"), v.literal("ssh")),
+    key: v.string(), // Armored PGP public key or OpenSSH public key line
+    fingerprint: v.string(),
+  }).index("by_userId", ["userId"]),
+
   comments: defineTable({
     authorId: v.string(),
     authorUsername: v.string(),
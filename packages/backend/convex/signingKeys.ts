@@ -0,0 +1,95 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { authComponent } from "./auth";
+
+/**
+ * Get the signing keys of the current user
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("signingKeys")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+  },
+});
+
+/**
+ * Add a GPG or SSH public key used to verify signed pushes.
+ * The fingerprint is computed by the caller, which also validates the key.
+ */
+export const add = mutation({
+  args: {
+    title: v.string(),
+    type: v.union(v.literal("gpg"), v.literal("ssh")),
+    key: v.string(),
+    fingerprint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new ConvexError("Key title is required");
+    }
+
+    const existing = await ctx.db
+      .query("signingKeys")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+
+    if (existing.some((key) => key.fingerprint === args.fingerprint)) {
+      throw new ConvexError("This key has already been added");
+    }
+
+    const keyId = await ctx.db.insert("signingKeys", {
+      userId: user._id,
+      title,
+      type: args.type,
+      key: args.key.trim(),
+      fingerprint: args.fingerprint,
+    });
+
+    return keyId;
+  },
+});
+
+/**
+ * Delete a signing key
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("signingKeys"),
+  },
+  handler: async (ctx, args) => {
+    const user = await authComponent.getAuthUser(ctx).catch(() => null);
+
+    if (!user) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const key = await ctx.db.get(args.id);
+    if (!key) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (key.userId !== user._id) {
+      throw new ConvexError("Not authorized to delete this key");
+    }
+
+    await ctx.db.delete(args.id);
+
+    return { success: true };
+  },
+});